@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { MAX_SEED } from '../utils/random.js';
+import { ASSIGNMENT_STRATEGIES, MAX_STOPS_PER_TRIP } from '../models/SimulationResult.js';
+import { VEHICLE_TYPES } from '../models/Vehicle.js';
+import { ORDER_STATUSES, SLA_CLASSES } from '../models/Order.js';
+import { CLOCK_TIME_PATTERN } from '../models/DriverSchedule.js';
+import { EXPORT_FORMATS, ExportCollection } from '../services/dataExport.js';
 
 export const validateRequest = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -14,6 +20,22 @@ export const validateRequest = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Query strings are converted to the schema's types (page=2 becomes a number, defaults
+// are filled in) and the result is left on res.locals.query, as req.query is read-only
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error, value } = schema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        message: 'Validation error',
+        details: error.details.map(detail => detail.message)
+      });
+    }
+    res.locals.query = value;
+    next();
+  };
+};
+
 // Validation schemas
 export const loginSchema = Joi.object({
   username: Joi.string().min(3).max(50).required(),
@@ -23,25 +45,215 @@ export const loginSchema = Joi.object({
 export const driverSchema = Joi.object({
   name: Joi.string().min(1).max(100).required(),
   currentShiftHours: Joi.number().min(0).max(24).required(),
-  pastWeekHours: Joi.number().min(0).max(168).required()
+  pastWeekHours: Joi.number().min(0).max(168).required(),
+  vehicleId: Joi.string().hex().length(24).allow(null).optional()
+});
+
+export const deliveryLogSchema = Joi.object({
+  orderId: Joi.string().hex().length(24).allow(null).optional(),
+  startedAt: Joi.date().max('now').required(),
+  completedAt: Joi.date().min(Joi.ref('startedAt')).max('now').required()
+});
+
+export const driverScheduleSchema = Joi.object({
+  weeklyAvailability: Joi.array().items(Joi.object({
+    dayOfWeek: Joi.number().integer().min(0).max(6).required(),
+    startTime: Joi.string().pattern(CLOCK_TIME_PATTERN).required(),
+    endTime: Joi.string().pattern(CLOCK_TIME_PATTERN).required()
+  })).unique('dayOfWeek').max(7).required(),
+  leave: Joi.array().items(Joi.object({
+    startDate: Joi.date().required(),
+    endDate: Joi.date().min(Joi.ref('startDate')).required(),
+    reason: Joi.string().max(200).allow('').optional()
+  })).max(100).required(),
+  preferredStartTime: Joi.string().pattern(CLOCK_TIME_PATTERN).allow(null).optional()
+});
+
+export const vehicleSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  type: Joi.string().valid(...VEHICLE_TYPES).required(),
+  capacityKg: Joi.number().min(1).max(50000).required(),
+  capacityParcels: Joi.number().integer().min(1).max(10000).required(),
+  fuelCostPerKm: Joi.number().min(0).max(1000).required(),
+  isElectric: Joi.boolean().optional()
+});
+
+// GeoJSON position: [longitude, latitude]
+const positionSchema = Joi.array().ordered(
+  Joi.number().min(-180).max(180).required(),
+  Joi.number().min(-90).max(90).required()
+).length(2);
+
+const geoPointSchema = Joi.object({
+  type: Joi.string().valid('Point').required(),
+  coordinates: positionSchema.required()
 });
 
 export const routeSchema = Joi.object({
   name: Joi.string().min(1).max(200).required(),
   distanceKm: Joi.number().min(0.1).max(1000).required(),
   trafficLevel: Joi.string().valid('Low', 'Medium', 'High').required(),
-  baseTimeMinutes: Joi.number().min(1).max(1440).required()
+  baseTimeMinutes: Joi.number().min(1).max(1440).required(),
+  startLocation: geoPointSchema.allow(null).optional(),
+  endLocation: geoPointSchema.allow(null).optional(),
+  waypoints: Joi.object({
+    type: Joi.string().valid('MultiPoint').required(),
+    coordinates: Joi.array().items(positionSchema).max(100).required()
+  }).allow(null).optional()
 });
 
 export const orderSchema = Joi.object({
+  externalRef: Joi.string().trim().max(100).allow(null).optional(),
   valueRs: Joi.number().min(0.01).max(1000000).required(),
   routeId: Joi.string().required(),
   deliveryTimestamp: Joi.date().required(),
-  status: Joi.string().valid('Pending', 'In Progress', 'Delivered', 'Late').optional()
+  deliveryWindowStart: Joi.date().allow(null).optional(),
+  deliveryWindowEnd: Joi.date().allow(null).when('deliveryWindowStart', {
+    is: Joi.date().required(),
+    then: Joi.date().min(Joi.ref('deliveryWindowStart'))
+  }).optional(),
+  slaClass: Joi.string().valid(...SLA_CLASSES).optional(),
+  weightKg: Joi.number().min(0).max(50000).optional(),
+  parcels: Joi.number().integer().min(1).max(10000).optional(),
+  status: Joi.string().valid(...ORDER_STATUSES).optional()
+});
+
+export const orderStatusChangeSchema = Joi.object({
+  status: Joi.string().valid(...ORDER_STATUSES).required(),
+  note: Joi.string().trim().max(500).allow('').optional()
 });
 
 export const simulationParamsSchema = Joi.object({
   numberOfDrivers: Joi.number().min(1).max(50).required(),
   routeStartTime: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required(),
-  maxHoursPerDriver: Joi.number().min(1).max(24).required()
-});
\ No newline at end of file
+  maxHoursPerDriver: Joi.number().min(1).max(24).required(),
+  seed: Joi.number().integer().min(0).max(MAX_SEED).optional(),
+  strategy: Joi.string().valid(...ASSIGNMENT_STRATEGIES).optional(),
+  maxStopsPerTrip: Joi.number().integer().min(1).max(MAX_STOPS_PER_TRIP).optional(),
+  // Re-runs pass the original run's asOf to see the same drivers and hours as it did
+  asOf: Joi.date().max('now').optional(),
+  // Re-runs also pin the rule set version the original run used
+  ruleSetId: Joi.string().hex().length(24).optional()
+});
+
+export const monteCarloParamsSchema = simulationParamsSchema.keys({
+  iterations: Joi.number().integer().min(2).max(1000).required()
+});
+
+// Background jobs run a Monte Carlo batch when iterations are given, otherwise a single run
+export const simulationJobParamsSchema = simulationParamsSchema.keys({
+  iterations: Joi.number().integer().min(2).max(1000).optional()
+});
+
+export const sweepParamsSchema = Joi.object({
+  numberOfDrivers: Joi.object({
+    min: Joi.number().integer().min(1).max(50).required(),
+    max: Joi.number().integer().min(Joi.ref('min')).max(50).required(),
+    step: Joi.number().integer().min(1).optional()
+  }).required(),
+  maxHoursPerDriver: Joi.object({
+    min: Joi.number().min(1).max(24).required(),
+    max: Joi.number().min(Joi.ref('min')).max(24).required(),
+    step: Joi.number().min(0.5).optional()
+  }).required(),
+  routeStartTime: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required(),
+  seed: Joi.number().integer().min(0).max(MAX_SEED).optional(),
+  strategy: Joi.string().valid(...ASSIGNMENT_STRATEGIES).optional(),
+  maxStopsPerTrip: Joi.number().integer().min(1).max(MAX_STOPS_PER_TRIP).optional(),
+  asOf: Joi.date().max('now').optional(),
+  ruleSetId: Joi.string().hex().length(24).optional(),
+  targetOnTimeRate: Joi.number().min(0).max(100).optional()
+});
+
+const trafficMultipliersSchema = Joi.object({
+  Low: Joi.number().min(0.1).max(10).required(),
+  Medium: Joi.number().min(0.1).max(10).required(),
+  High: Joi.number().min(0.1).max(10).required()
+});
+
+export const ruleSetSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  description: Joi.string().allow('').max(500).optional(),
+  activate: Joi.boolean().optional(),
+  rules: Joi.object({
+    latePenaltyRs: Joi.number().min(0).max(100000).required(),
+    expressLatePenaltyRs: Joi.number().min(0).max(100000).required(),
+    economyLatePenaltyRs: Joi.number().min(0).max(100000).required(),
+    lateGraceMinutes: Joi.number().min(0).max(1440).required(),
+    fatigueWeeklyHoursThreshold: Joi.number().min(0).max(168).required(),
+    fatigueSlowdownFactor: Joi.number().min(1).max(5).required(),
+    fatigueSlowdownPerHour: Joi.number().min(0).max(1).required(),
+    maxContinuousDrivingMinutes: Joi.number().integer().min(1).max(1440).required(),
+    breakMinutes: Joi.number().integer().min(0).max(480).required(),
+    dailyDrivingLimitHours: Joi.number().min(1).max(24).required(),
+    highValueThresholdRs: Joi.number().min(0).max(1000000).required(),
+    highValueBonusRate: Joi.number().min(0).max(1).required(),
+    fuelBaseRatePerKm: Joi.number().min(0).max(1000).required(),
+    fuelHighTrafficSurchargePerKm: Joi.number().min(0).max(1000).required(),
+    stopServiceMinutes: Joi.number().min(0).max(240).required(),
+    trafficBands: Joi.array().items(Joi.object({
+      name: Joi.string().min(1).max(50).required(),
+      startHour: Joi.number().integer().min(0).max(23).required(),
+      endHour: Joi.number().integer().min(0).max(24).invalid(Joi.ref('startHour')).required(),
+      multipliers: trafficMultipliersSchema.required()
+    })).min(1).required()
+  }).required()
+});
+// Deleting a route that orders still use needs one of these: cascade=true deletes
+// the orders too, reassignTo=<id> moves them to another route
+export const deleteDependantsQuerySchema = Joi.object({
+  cascade: Joi.boolean().default(false),
+  reassignTo: Joi.string().hex().length(24).when('cascade', { is: true, then: Joi.forbidden() })
+});
+
+// A driver's delivery log records what that driver did, so it can only be deleted with them
+export const deleteDriverQuerySchema = Joi.object({
+  cascade: Joi.boolean().default(false)
+});
+
+export const MAX_PAGE_SIZE = 100;
+
+// The query every list endpoint accepts: a page of limit results, sorted by one of
+// sortFields (descending with a leading '-'), optionally narrowed by a text search
+const listQuerySchema = (sortFields: string[], defaultSort: string, defaultLimit = 20) => Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE).default(defaultLimit),
+  sort: Joi.string().valid(...sortFields.flatMap(field => [field, `-${field}`])).default(defaultSort),
+  search: Joi.string().trim().max(100).allow('').optional()
+});
+
+// A filter that takes one value or several (?status=Late&status=Pending)
+const oneOrMore = (...values: string[]) => Joi.array().items(Joi.string().valid(...values)).single();
+
+export const driverListQuerySchema = listQuerySchema(['name', 'currentShiftHours', 'pastWeekHours', 'createdAt'], '-createdAt');
+
+export const routeListQuerySchema = listQuerySchema(['name', 'distanceKm', 'baseTimeMinutes', 'createdAt'], '-createdAt').keys({
+  trafficLevel: oneOrMore('Low', 'Medium', 'High').optional(),
+  minDistanceKm: Joi.number().min(0).optional(),
+  maxDistanceKm: Joi.number().min(0).optional()
+});
+
+export const orderListQuerySchema = listQuerySchema(['valueRs', 'deliveryTimestamp', 'status', 'externalRef', 'createdAt'], '-createdAt').keys({
+  status: oneOrMore(...ORDER_STATUSES).optional(),
+  slaClass: oneOrMore(...SLA_CLASSES).optional(),
+  routeId: Joi.string().hex().length(24).optional(),
+  minValueRs: Joi.number().min(0).optional(),
+  maxValueRs: Joi.number().min(0).optional(),
+  deliveryFrom: Joi.date().optional(),
+  deliveryTo: Joi.date().optional()
+});
+
+export const simulationHistoryQuerySchema = listQuerySchema(['timestamp', 'totalProfit', 'efficiencyScore'], '-timestamp', 50).keys({
+  strategy: Joi.string().valid(...ASSIGNMENT_STRATEGIES).optional(),
+  mode: Joi.string().valid('single', 'monte-carlo').optional()
+});
+
+// Exports take a list's filters and sort (page and limit are ignored) plus a format
+const exportFormat = { format: Joi.string().valid(...EXPORT_FORMATS).default('csv') };
+
+export const exportQuerySchemas: Record<ExportCollection, Joi.ObjectSchema> = {
+  drivers: driverListQuerySchema.keys(exportFormat),
+  routes: routeListQuerySchema.keys(exportFormat),
+  orders: orderListQuerySchema.keys(exportFormat),
+  simulations: simulationHistoryQuerySchema.keys(exportFormat)
+};
@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One completed delivery; driver hours are derived from these
+export interface IDeliveryLog extends Document {
+  driverId: mongoose.Types.ObjectId;
+  orderId?: mongoose.Types.ObjectId | null;
+  startedAt: Date;
+  completedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const deliveryLogSchema = new Schema<IDeliveryLog>({
+  driverId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Driver',
+    required: [true, 'Driver is required']
+  },
+  orderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    default: null
+  },
+  startedAt: {
+    type: Date,
+    required: [true, 'Start time is required']
+  },
+  completedAt: {
+    type: Date,
+    required: [true, 'Completion time is required'],
+    validate: {
+      validator: function (this: IDeliveryLog, value: Date) {
+        return !this.startedAt || value >= this.startedAt;
+      },
+      message: 'A delivery cannot complete before it starts'
+    }
+  }
+}, {
+  timestamps: true
+});
+
+deliveryLogSchema.index({ driverId: 1, completedAt: -1 });
+
+export default mongoose.model<IDeliveryLog>('DeliveryLog', deliveryLogSchema);
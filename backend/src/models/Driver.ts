@@ -4,6 +4,7 @@ export interface IDriver extends Document {
   name: string;
   currentShiftHours: number;
   pastWeekHours: number;
+  vehicleId?: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,11 +27,18 @@ const driverSchema = new Schema<IDriver>({
     required: [true, 'Past week hours is required'],
     min: [0, 'Hours cannot be negative'],
     max: [168, 'Hours cannot exceed 168 (7 days * 24 hours)']
+  },
+  // Drivers without a vehicle have no capacity limit and pay the rule set's fuel rate
+  vehicleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    default: null
   }
 }, {
   timestamps: true
 });
 
 driverSchema.index({ name: 1 });
+driverSchema.index({ vehicleId: 1 });
 
 export default mongoose.model<IDriver>('Driver', driverSchema);
\ No newline at end of file
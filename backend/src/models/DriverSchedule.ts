@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const CLOCK_TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+// A recurring window on one day of the week (0 = Sunday). A window whose end is
+// not after its start runs past midnight.
+export interface AvailabilityWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface LeavePeriod {
+  startDate: Date;
+  endDate: Date; // inclusive
+  reason?: string;
+}
+
+export interface IDriverSchedule extends Document {
+  driverId: mongoose.Types.ObjectId;
+  weeklyAvailability: AvailabilityWindow[];
+  leave: LeavePeriod[];
+  preferredStartTime?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const availabilityWindowSchema = new Schema<AvailabilityWindow>({
+  dayOfWeek: { type: Number, required: true, min: 0, max: 6 },
+  startTime: { type: String, required: true, match: CLOCK_TIME_PATTERN },
+  endTime: { type: String, required: true, match: CLOCK_TIME_PATTERN }
+}, { _id: false });
+
+const leavePeriodSchema = new Schema<LeavePeriod>({
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, required: true },
+  reason: { type: String, trim: true, maxlength: 200 }
+}, { _id: false });
+
+// Drivers without a schedule are treated as available at any time
+const driverScheduleSchema = new Schema<IDriverSchedule>({
+  driverId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Driver',
+    required: true,
+    unique: true
+  },
+  weeklyAvailability: {
+    type: [availabilityWindowSchema],
+    default: []
+  },
+  leave: {
+    type: [leavePeriodSchema],
+    default: []
+  },
+  preferredStartTime: {
+    type: String,
+    match: CLOCK_TIME_PATTERN,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IDriverSchedule>('DriverSchedule', driverScheduleSchema);
@@ -1,15 +1,65 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export const SLA_CLASSES = ['Express', 'Standard', 'Economy'] as const;
+
+export type SlaClass = typeof SLA_CLASSES[number];
+
+export const ORDER_STATUSES = ['Pending', 'In Progress', 'Delivered', 'Late'] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Statuses an order may move to next. Delivered and Late (delivered after its
+// deadline) are final; an order in progress goes back to Pending if its
+// delivery is called off.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  Pending: ['In Progress'],
+  'In Progress': ['Delivered', 'Late', 'Pending'],
+  Delivered: [],
+  Late: []
+};
+
+// One entry per status change; the first has no previous status
+export interface StatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedBy: string;
+  changedAt: Date;
+  note?: string;
+}
+
 export interface IOrder extends Document {
+  // Identifier from the system the order came from; imports match on it
+  externalRef?: string | null;
   valueRs: number;
   routeId: mongoose.Types.ObjectId;
   deliveryTimestamp: Date;
-  status: 'Pending' | 'In Progress' | 'Delivered' | 'Late';
+  // Optional window; a delivery is late only after deliveryWindowEnd
+  deliveryWindowStart?: Date;
+  deliveryWindowEnd?: Date;
+  slaClass: SlaClass;
+  weightKg: number;
+  parcels: number;
+  status: OrderStatus;
+  statusHistory: StatusChange[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const statusChangeSchema = new Schema<StatusChange>({
+  from: { type: String, enum: [...ORDER_STATUSES, null], default: null },
+  to: { type: String, required: true, enum: ORDER_STATUSES },
+  changedBy: { type: String, required: true },
+  changedAt: { type: Date, required: true },
+  note: { type: String, trim: true, maxlength: 500 }
+}, { _id: false });
+
 const orderSchema = new Schema<IOrder>({
+  externalRef: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'External reference cannot exceed 100 characters'],
+    default: null
+  },
   valueRs: {
     type: Number,
     required: [true, 'Order value is required'],
@@ -25,14 +75,54 @@ const orderSchema = new Schema<IOrder>({
     type: Date,
     required: [true, 'Delivery timestamp is required']
   },
+  deliveryWindowStart: {
+    type: Date
+  },
+  deliveryWindowEnd: {
+    type: Date,
+    validate: {
+      validator: function (this: IOrder, value: Date | null) {
+        return value == null || !this.deliveryWindowStart || value >= this.deliveryWindowStart;
+      },
+      message: 'Delivery window cannot end before it starts'
+    }
+  },
+  slaClass: {
+    type: String,
+    required: true,
+    enum: {
+      values: SLA_CLASSES,
+      message: 'SLA class must be Express, Standard, or Economy'
+    },
+    default: 'Standard'
+  },
+  weightKg: {
+    type: Number,
+    required: true,
+    min: [0, 'Weight cannot be negative'],
+    max: [50000, 'Weight cannot exceed 50,000 kg'],
+    default: 0
+  },
+  parcels: {
+    type: Number,
+    required: true,
+    min: [1, 'An order has at least one parcel'],
+    max: [10000, 'Parcels cannot exceed 10,000'],
+    default: 1
+  },
   status: {
     type: String,
     required: [true, 'Order status is required'],
     enum: {
-      values: ['Pending', 'In Progress', 'Delivered', 'Late'],
+      values: ORDER_STATUSES,
       message: 'Status must be Pending, In Progress, Delivered, or Late'
     },
     default: 'Pending'
+  },
+  // Orders created before status tracking have an empty history
+  statusHistory: {
+    type: [statusChangeSchema],
+    default: []
   }
 }, {
   timestamps: true
@@ -42,5 +132,7 @@ orderSchema.index({ routeId: 1 });
 orderSchema.index({ status: 1 });
 orderSchema.index({ deliveryTimestamp: 1 });
 orderSchema.index({ valueRs: 1 });
+orderSchema.index({ slaClass: 1 });
+orderSchema.index({ externalRef: 1 }, { unique: true, partialFilterExpression: { externalRef: { $type: 'string' } } });
 
 export default mongoose.model<IOrder>('Order', orderSchema);
\ No newline at end of file
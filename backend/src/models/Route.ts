@@ -1,14 +1,58 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { Position } from '../utils/geo.js';
+
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: Position;
+}
+
+export interface GeoMultiPoint {
+  type: 'MultiPoint';
+  coordinates: Position[];
+}
 
 export interface IRoute extends Document {
   name: string;
   distanceKm: number;
   trafficLevel: 'Low' | 'Medium' | 'High';
   baseTimeMinutes: number;
+  // Routes created before coordinates were tracked have none
+  startLocation?: GeoPoint | null;
+  endLocation?: GeoPoint | null;
+  waypoints?: GeoMultiPoint | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const isPosition = (position: number[]) =>
+  position.length === 2
+  && position[0] >= -180 && position[0] <= 180
+  && position[1] >= -90 && position[1] <= 90;
+
+const pointSchema = new Schema<GeoPoint>({
+  type: { type: String, enum: ['Point'], required: true },
+  coordinates: {
+    type: [Number],
+    required: true,
+    validate: {
+      validator: isPosition,
+      message: 'Coordinates must be [longitude, latitude]'
+    }
+  }
+}, { _id: false });
+
+const multiPointSchema = new Schema<GeoMultiPoint>({
+  type: { type: String, enum: ['MultiPoint'], required: true },
+  coordinates: {
+    type: [[Number]],
+    required: true,
+    validate: {
+      validator: (positions: number[][]) => positions.every(isPosition),
+      message: 'Each waypoint must be [longitude, latitude]'
+    }
+  }
+}, { _id: false });
+
 const routeSchema = new Schema<IRoute>({
   name: {
     type: String,
@@ -35,6 +79,18 @@ const routeSchema = new Schema<IRoute>({
     required: [true, 'Base time is required'],
     min: [1, 'Base time must be at least 1 minute'],
     max: [1440, 'Base time cannot exceed 1440 minutes (24 hours)']
+  },
+  startLocation: {
+    type: pointSchema,
+    default: null
+  },
+  endLocation: {
+    type: pointSchema,
+    default: null
+  },
+  waypoints: {
+    type: multiPointSchema,
+    default: null
   }
 }, {
   timestamps: true
@@ -42,5 +98,7 @@ const routeSchema = new Schema<IRoute>({
 
 routeSchema.index({ name: 1 });
 routeSchema.index({ trafficLevel: 1 });
+routeSchema.index({ startLocation: '2dsphere' });
+routeSchema.index({ endLocation: '2dsphere' });
 
 export default mongoose.model<IRoute>('Route', routeSchema);
\ No newline at end of file
@@ -0,0 +1,153 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TrafficLevel = 'Low' | 'Medium' | 'High';
+
+export interface TrafficBand {
+  name: string;
+  startHour: number; // inclusive
+  endHour: number; // exclusive; may wrap past midnight
+  multipliers: Record<TrafficLevel, number>;
+}
+
+export interface BusinessRules {
+  latePenaltyRs: number; // Standard SLA orders
+  expressLatePenaltyRs: number;
+  economyLatePenaltyRs: number;
+  lateGraceMinutes: number;
+  fatigueWeeklyHoursThreshold: number;
+  fatigueSlowdownFactor: number;
+  fatigueSlowdownPerHour: number; // extra travel time per hour driven since the last break
+  maxContinuousDrivingMinutes: number; // a break is due before driving past this
+  breakMinutes: number;
+  dailyDrivingLimitHours: number; // no more assignments once a driver's shift reaches this
+  highValueThresholdRs: number;
+  highValueBonusRate: number;
+  fuelBaseRatePerKm: number;
+  fuelHighTrafficSurchargePerKm: number;
+  stopServiceMinutes: number; // handoff time each extra stop adds to a batched trip
+  trafficBands: TrafficBand[];
+}
+
+// The rules the engine shipped with; used to seed the first rule set
+export const DEFAULT_RULES: BusinessRules = {
+  latePenaltyRs: 50,
+  expressLatePenaltyRs: 100,
+  economyLatePenaltyRs: 25,
+  lateGraceMinutes: 10,
+  fatigueWeeklyHoursThreshold: 56, // 8 hours a day over the past week
+  fatigueSlowdownFactor: 1.3,
+  fatigueSlowdownPerHour: 0.03,
+  maxContinuousDrivingMinutes: 270, // 4.5 hours
+  breakMinutes: 45,
+  dailyDrivingLimitHours: 10,
+  highValueThresholdRs: 1000,
+  highValueBonusRate: 0.1,
+  fuelBaseRatePerKm: 5,
+  fuelHighTrafficSurchargePerKm: 2,
+  stopServiceMinutes: 5,
+  trafficBands: [
+    { name: 'Morning Peak', startHour: 7, endHour: 10, multipliers: { Low: 1.1, Medium: 1.4, High: 1.8 } },
+    { name: 'Midday', startHour: 10, endHour: 17, multipliers: { Low: 1.0, Medium: 1.2, High: 1.5 } },
+    { name: 'Evening Peak', startHour: 17, endHour: 20, multipliers: { Low: 1.1, Medium: 1.4, High: 1.8 } },
+    { name: 'Night', startHour: 20, endHour: 7, multipliers: { Low: 0.9, Medium: 1.0, High: 1.2 } }
+  ]
+};
+
+// Rule sets are immutable once saved: editing publishes a new version so
+// every simulation result can point at exactly the rules it ran under.
+export interface IRuleSet extends Document {
+  name: string;
+  description?: string;
+  version: number;
+  isActive: boolean;
+  rules: BusinessRules;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const trafficBandSchema = new Schema<TrafficBand>({
+  name: {
+    type: String,
+    required: [true, 'Band name is required'],
+    trim: true
+  },
+  startHour: {
+    type: Number,
+    required: true,
+    min: [0, 'Start hour must be between 0 and 23'],
+    max: [23, 'Start hour must be between 0 and 23']
+  },
+  endHour: {
+    type: Number,
+    required: true,
+    min: [0, 'End hour must be between 0 and 24'],
+    max: [24, 'End hour must be between 0 and 24']
+  },
+  multipliers: {
+    Low: { type: Number, required: true, min: 0.1 },
+    Medium: { type: Number, required: true, min: 0.1 },
+    High: { type: Number, required: true, min: 0.1 }
+  }
+}, {
+  _id: false
+});
+
+const ruleSetSchema = new Schema<IRuleSet>({
+  name: {
+    type: String,
+    required: [true, 'Rule set name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  isActive: {
+    type: Boolean,
+    required: true,
+    default: false
+  },
+  rules: {
+    latePenaltyRs: { type: Number, required: true, min: 0 },
+    // Versions published before SLA classes get the shipped defaults
+    expressLatePenaltyRs: { type: Number, required: true, min: 0, default: DEFAULT_RULES.expressLatePenaltyRs },
+    economyLatePenaltyRs: { type: Number, required: true, min: 0, default: DEFAULT_RULES.economyLatePenaltyRs },
+    lateGraceMinutes: { type: Number, required: true, min: 0 },
+    fatigueWeeklyHoursThreshold: { type: Number, required: true, min: 0, max: 168 },
+    fatigueSlowdownFactor: { type: Number, required: true, min: 1 },
+    // Versions published before the in-shift fatigue model get the shipped defaults
+    fatigueSlowdownPerHour: { type: Number, required: true, min: 0, default: DEFAULT_RULES.fatigueSlowdownPerHour },
+    maxContinuousDrivingMinutes: { type: Number, required: true, min: 1, default: DEFAULT_RULES.maxContinuousDrivingMinutes },
+    breakMinutes: { type: Number, required: true, min: 0, default: DEFAULT_RULES.breakMinutes },
+    dailyDrivingLimitHours: { type: Number, required: true, min: 1, max: 24, default: DEFAULT_RULES.dailyDrivingLimitHours },
+    highValueThresholdRs: { type: Number, required: true, min: 0 },
+    highValueBonusRate: { type: Number, required: true, min: 0, max: 1 },
+    fuelBaseRatePerKm: { type: Number, required: true, min: 0 },
+    fuelHighTrafficSurchargePerKm: { type: Number, required: true, min: 0 },
+    // Versions published before trip batching get the shipped default
+    stopServiceMinutes: { type: Number, required: true, min: 0, default: DEFAULT_RULES.stopServiceMinutes },
+    trafficBands: {
+      type: [trafficBandSchema],
+      required: true
+    }
+  },
+  createdBy: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+ruleSetSchema.index({ version: -1 }, { unique: true });
+ruleSetSchema.index({ isActive: 1 });
+
+export default mongoose.model<IRuleSet>('RuleSet', ruleSetSchema);
@@ -0,0 +1,134 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ASSIGNMENT_STRATEGIES, AssignmentStrategyName, MAX_STOPS_PER_TRIP } from './SimulationResult.js';
+
+export type SimulationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const FINISHED_JOB_STATUSES: SimulationJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// A simulation run handed to the background queue. The job tracks progress;
+// the finished run is stored as a SimulationResult like any other.
+export interface ISimulationJob extends Document {
+  mode: 'single' | 'monte-carlo';
+  status: SimulationJobStatus;
+  simulationParams: {
+    numberOfDrivers: number;
+    routeStartTime: string;
+    maxHoursPerDriver: number;
+    seed: number;
+    strategy: AssignmentStrategyName;
+    maxStopsPerTrip: number;
+    asOf: Date;
+    ruleSetId?: mongoose.Types.ObjectId | null; // the active rule set when not pinned
+  };
+  iterations?: number;
+  progress: {
+    completed: number;
+    total: number;
+  };
+  resultId?: mongoose.Types.ObjectId;
+  error?: string;
+  createdBy?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const simulationJobSchema = new Schema<ISimulationJob>({
+  mode: {
+    type: String,
+    required: true,
+    enum: ['single', 'monte-carlo'],
+    default: 'single'
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+    default: 'queued'
+  },
+  simulationParams: {
+    numberOfDrivers: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    routeStartTime: {
+      type: String,
+      required: true
+    },
+    maxHoursPerDriver: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 24
+    },
+    seed: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    strategy: {
+      type: String,
+      required: true,
+      enum: ASSIGNMENT_STRATEGIES
+    },
+    maxStopsPerTrip: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: MAX_STOPS_PER_TRIP
+    },
+    asOf: {
+      type: Date,
+      required: true
+    },
+    ruleSetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RuleSet',
+      default: null
+    }
+  },
+  iterations: {
+    type: Number,
+    min: 2,
+    max: 1000
+  },
+  progress: {
+    completed: {
+      type: Number,
+      required: true,
+      min: 0,
+      default: 0
+    },
+    total: {
+      type: Number,
+      required: true,
+      min: 1,
+      default: 1
+    }
+  },
+  resultId: {
+    type: Schema.Types.ObjectId,
+    ref: 'SimulationResult'
+  },
+  error: {
+    type: String
+  },
+  createdBy: {
+    type: String,
+    trim: true
+  },
+  startedAt: {
+    type: Date
+  },
+  finishedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+simulationJobSchema.index({ status: 1, createdAt: 1 });
+
+export default mongoose.model<ISimulationJob>('SimulationJob', simulationJobSchema);
@@ -1,29 +1,427 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { BusinessRules, TrafficLevel } from './RuleSet.js';
+import { SLA_CLASSES, SlaClass } from './Order.js';
+
+export const ASSIGNMENT_STRATEGIES = [
+  'value-greedy',
+  'earliest-deadline',
+  'shortest-route',
+  'round-robin',
+  'local-search'
+] as const;
+
+export type AssignmentStrategyName = typeof ASSIGNMENT_STRATEGIES[number];
+
+export const DEFAULT_STRATEGY: AssignmentStrategyName = 'value-greedy';
+
+// Runs default to one order per trip, which is how every run before batching behaved
+export const DEFAULT_MAX_STOPS_PER_TRIP = 1;
+export const MAX_STOPS_PER_TRIP = 20;
+
+export interface IDeliveryAssignment {
+  orderId: mongoose.Types.ObjectId;
+  driverId: mongoose.Types.ObjectId;
+  driverName: string;
+  routeId: mongoose.Types.ObjectId;
+  routeName: string;
+  estimatedDeliveryTime: number;
+  actualDeliveryTime: number;
+  startMinute: number;
+  endMinute: number;
+  deadlineMinute: number;
+  windowStartMinute?: number | null;
+  slaClass?: SlaClass;
+  tripNumber: number;
+  stopNumber: number;
+  trafficBand: string;
+  trafficLevel: TrafficLevel;
+  isOnTime: boolean;
+  orderValue: number;
+  fuelBaseCost: number;
+  fuelTrafficSurcharge: number;
+  fuelCost: number;
+  bonus: number;
+  penalty: number;
+  profit: number;
+}
+
+export interface IUnassignedOrder {
+  orderId: mongoose.Types.ObjectId;
+  routeId: mongoose.Types.ObjectId;
+  routeName: string;
+  orderValue: number;
+  estimatedDeliveryTime: number;
+  reason: 'hours_cap' | 'no_drivers' | 'over_capacity' | 'daily_limit';
+}
+
+export interface IFuelCost {
+  baseCost: number;
+  trafficSurcharge: number;
+  total: number;
+}
+
+export interface IRouteFuelCost extends IFuelCost {
+  routeId: mongoose.Types.ObjectId;
+  routeName: string;
+  trafficLevel: TrafficLevel;
+  deliveries: number;
+}
+
+export interface ITimelineSegment {
+  type: 'delivery' | 'idle' | 'break';
+  startMinute: number;
+  endMinute: number;
+  orderId?: mongoose.Types.ObjectId;
+  routeName?: string;
+  isOnTime?: boolean;
+}
+
+export interface IDriverTimeline {
+  driverId: mongoose.Types.ObjectId;
+  driverName: string;
+  startingHours: number;
+  segments: ITimelineSegment[];
+  workMinutes: number;
+  idleMinutes: number;
+  capReachedMinute: number | null;
+}
+
+export interface IBreakPeriod {
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface IDriverFatigue {
+  driverId: mongoose.Types.ObjectId;
+  driverName: string;
+  shiftHours: number;
+  drivingMinutes: number;
+  continuousDrivingMinutes: number;
+  breaks: IBreakPeriod[];
+  peakSlowdownFactor: number;
+  weeklyFatigued: boolean;
+  dailyLimitReachedMinute: number | null;
+}
+
+export interface IExcludedDriver {
+  driverId: mongoose.Types.ObjectId;
+  driverName: string;
+  reason: 'on_leave' | 'day_off' | 'outside_hours' | 'not_selected';
+  detail: string;
+}
+
+export interface ITripStats {
+  trips: number;
+  averageStopsPerTrip: number;
+  fuelSaved: number;
+  minutesSaved: number;
+}
+
+export interface IDistributionStats {
+  mean: number;
+  stddev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p50: number;
+  p95: number;
+}
 
 export interface ISimulationResult extends Document {
   timestamp: Date;
+  mode: 'single' | 'monte-carlo';
   totalProfit: number;
   efficiencyScore: number;
   onTimeDeliveries: number;
   lateDeliveries: number;
+  unassignedDeliveries: number;
+  lostRevenue: number;
+  driversNeeded: number;
   fuelCostBreakdown: {
     baseCost: number;
     trafficSurcharge: number;
     total: number;
   };
+  fuelCostByTrafficLevel: Record<TrafficLevel, IFuelCost>;
+  fuelCostByRoute: IRouteFuelCost[];
+  tripStats?: ITripStats;
   simulationParams: {
     numberOfDrivers: number;
     routeStartTime: string;
     maxHoursPerDriver: number;
+    seed: number;
+    strategy: AssignmentStrategyName;
+    maxStopsPerTrip: number;
+    asOf?: Date; // left out by runs stored before it was recorded
+  };
+  assignments: IDeliveryAssignment[];
+  unassignedOrders: IUnassignedOrder[];
+  driverTimelines: IDriverTimeline[];
+  driverFatigue: IDriverFatigue[];
+  excludedDrivers: IExcludedDriver[];
+  ruleSet: {
+    ruleSetId: mongoose.Types.ObjectId;
+    name: string;
+    version: number;
+    rules: BusinessRules;
+  };
+  monteCarlo?: {
+    iterations: number;
+    distributions: {
+      totalProfit: IDistributionStats;
+      efficiencyScore: IDistributionStats;
+      lateDeliveries: IDistributionStats;
+    };
+    samples: {
+      totalProfit: number[];
+      efficiencyScore: number[];
+      lateDeliveries: number[];
+    };
   };
 }
 
+// Per-order outcome of a run. Driver and route names are copied in so a run
+// stays readable after the referenced documents are edited or removed.
+const deliveryAssignmentSchema = new Schema<IDeliveryAssignment>({
+  orderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  driverId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Driver',
+    required: true
+  },
+  driverName: {
+    type: String,
+    required: true
+  },
+  routeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Route',
+    required: true
+  },
+  routeName: {
+    type: String,
+    required: true
+  },
+  estimatedDeliveryTime: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  actualDeliveryTime: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  startMinute: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  endMinute: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  deadlineMinute: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  windowStartMinute: {
+    type: Number,
+    default: null
+  },
+  slaClass: {
+    type: String,
+    enum: SLA_CLASSES,
+    default: 'Standard'
+  },
+  tripNumber: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  stopNumber: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  trafficBand: {
+    type: String,
+    required: true
+  },
+  trafficLevel: {
+    type: String,
+    required: true,
+    enum: ['Low', 'Medium', 'High']
+  },
+  isOnTime: {
+    type: Boolean,
+    required: true
+  },
+  orderValue: {
+    type: Number,
+    required: true
+  },
+  fuelBaseCost: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  fuelTrafficSurcharge: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  fuelCost: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  bonus: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  penalty: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  profit: {
+    type: Number,
+    required: true
+  }
+}, {
+  _id: false
+});
+
+// Order no driver had hours left for, or no vehicle could carry
+const unassignedOrderSchema = new Schema<IUnassignedOrder>({
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order', required: true },
+  routeId: { type: Schema.Types.ObjectId, ref: 'Route', required: true },
+  routeName: { type: String, required: true },
+  orderValue: { type: Number, required: true, min: 0 },
+  estimatedDeliveryTime: { type: Number, required: true, min: 0 },
+  reason: { type: String, required: true, enum: ['hours_cap', 'no_drivers', 'over_capacity', 'daily_limit'] }
+}, {
+  _id: false
+});
+
+const fuelCostSchema = new Schema<IFuelCost>({
+  baseCost: { type: Number, required: true, min: 0 },
+  trafficSurcharge: { type: Number, required: true, min: 0 },
+  total: { type: Number, required: true, min: 0 }
+}, {
+  _id: false
+});
+
+const routeFuelCostSchema = new Schema<IRouteFuelCost>({
+  routeId: { type: Schema.Types.ObjectId, ref: 'Route', required: true },
+  routeName: { type: String, required: true },
+  trafficLevel: { type: String, required: true, enum: ['Low', 'Medium', 'High'] },
+  deliveries: { type: Number, required: true, min: 0 },
+  baseCost: { type: Number, required: true, min: 0 },
+  trafficSurcharge: { type: Number, required: true, min: 0 },
+  total: { type: Number, required: true, min: 0 }
+}, {
+  _id: false
+});
+
+const timelineSegmentSchema = new Schema<ITimelineSegment>({
+  type: { type: String, required: true, enum: ['delivery', 'idle', 'break'] },
+  startMinute: { type: Number, required: true, min: 0 },
+  endMinute: { type: Number, required: true, min: 0 },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order' },
+  routeName: { type: String },
+  isOnTime: { type: Boolean }
+}, {
+  _id: false
+});
+
+// Per-driver schedule of a run, drawn as a Gantt chart on the run detail page
+const driverTimelineSchema = new Schema<IDriverTimeline>({
+  driverId: { type: Schema.Types.ObjectId, ref: 'Driver', required: true },
+  driverName: { type: String, required: true },
+  startingHours: { type: Number, required: true, min: 0 },
+  segments: { type: [timelineSegmentSchema], default: [] },
+  workMinutes: { type: Number, required: true, min: 0 },
+  idleMinutes: { type: Number, required: true, min: 0 },
+  capReachedMinute: { type: Number, default: null }
+}, {
+  _id: false
+});
+
+const breakPeriodSchema = new Schema<IBreakPeriod>({
+  startMinute: { type: Number, required: true, min: 0 },
+  endMinute: { type: Number, required: true, min: 0 }
+}, {
+  _id: false
+});
+
+// How tired each driver got: driving since their last break, breaks taken and
+// the slowdown that built up
+const driverFatigueSchema = new Schema<IDriverFatigue>({
+  driverId: { type: Schema.Types.ObjectId, ref: 'Driver', required: true },
+  driverName: { type: String, required: true },
+  shiftHours: { type: Number, required: true, min: 0 },
+  drivingMinutes: { type: Number, required: true, min: 0 },
+  continuousDrivingMinutes: { type: Number, required: true, min: 0 },
+  breaks: { type: [breakPeriodSchema], default: [] },
+  peakSlowdownFactor: { type: Number, required: true, min: 1 },
+  weeklyFatigued: { type: Boolean, required: true },
+  dailyLimitReachedMinute: { type: Number, default: null }
+}, {
+  _id: false
+});
+
+// Driver the run left out: unavailable at the route start time, or not needed
+const excludedDriverSchema = new Schema<IExcludedDriver>({
+  driverId: { type: Schema.Types.ObjectId, ref: 'Driver', required: true },
+  driverName: { type: String, required: true },
+  reason: { type: String, required: true, enum: ['on_leave', 'day_off', 'outside_hours', 'not_selected'] },
+  detail: { type: String, required: true }
+}, {
+  _id: false
+});
+
+const tripStatsSchema = new Schema<ITripStats>({
+  trips: { type: Number, required: true, min: 0 },
+  averageStopsPerTrip: { type: Number, required: true, min: 0 },
+  fuelSaved: { type: Number, required: true },
+  minutesSaved: { type: Number, required: true }
+}, {
+  _id: false
+});
+
+const distributionStatsSchema = new Schema<IDistributionStats>({
+  mean: { type: Number, required: true },
+  stddev: { type: Number, required: true, min: 0 },
+  min: { type: Number, required: true },
+  max: { type: Number, required: true },
+  p5: { type: Number, required: true },
+  p50: { type: Number, required: true },
+  p95: { type: Number, required: true }
+}, {
+  _id: false
+});
+
 const simulationResultSchema = new Schema<ISimulationResult>({
   timestamp: {
     type: Date,
     required: true,
     default: Date.now
   },
+  mode: {
+    type: String,
+    required: true,
+    enum: ['single', 'monte-carlo'],
+    default: 'single'
+  },
   totalProfit: {
     type: Number,
     required: true
@@ -44,6 +442,24 @@ const simulationResultSchema = new Schema<ISimulationResult>({
     required: true,
     min: 0
   },
+  unassignedDeliveries: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  lostRevenue: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  driversNeeded: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
   fuelCostBreakdown: {
     baseCost: {
       type: Number,
@@ -61,6 +477,20 @@ const simulationResultSchema = new Schema<ISimulationResult>({
       min: 0
     }
   },
+  fuelCostByTrafficLevel: {
+    Low: { type: fuelCostSchema, required: true },
+    Medium: { type: fuelCostSchema, required: true },
+    High: { type: fuelCostSchema, required: true }
+  },
+  fuelCostByRoute: {
+    type: [routeFuelCostSchema],
+    default: []
+  },
+  // Absent on runs stored before trip batching
+  tripStats: {
+    type: tripStatsSchema,
+    required: false
+  },
   simulationParams: {
     numberOfDrivers: {
       type: Number,
@@ -76,7 +506,92 @@ const simulationResultSchema = new Schema<ISimulationResult>({
       required: true,
       min: 1,
       max: 24
+    },
+    seed: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    strategy: {
+      type: String,
+      required: true,
+      enum: ASSIGNMENT_STRATEGIES,
+      default: DEFAULT_STRATEGY
+    },
+    maxStopsPerTrip: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: MAX_STOPS_PER_TRIP,
+      default: DEFAULT_MAX_STOPS_PER_TRIP
+    },
+    // When availability and driver hours were read, so a re-run sees the same drivers
+    asOf: {
+      type: Date
+    }
+  },
+  assignments: {
+    type: [deliveryAssignmentSchema],
+    default: []
+  },
+  unassignedOrders: {
+    type: [unassignedOrderSchema],
+    default: []
+  },
+  driverTimelines: {
+    type: [driverTimelineSchema],
+    default: []
+  },
+  driverFatigue: {
+    type: [driverFatigueSchema],
+    default: []
+  },
+  excludedDrivers: {
+    type: [excludedDriverSchema],
+    default: []
+  },
+  // Copy of the rule set version the run used, so it stays explainable
+  // even if that version is later deleted
+  ruleSet: {
+    ruleSetId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RuleSet',
+      required: true
+    },
+    name: {
+      type: String,
+      required: true
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    rules: {
+      type: Schema.Types.Mixed,
+      required: true
     }
+  },
+  // Present only for Monte Carlo batches; the top-level KPIs hold the means
+  monteCarlo: {
+    type: {
+      iterations: {
+        type: Number,
+        required: true,
+        min: 2
+      },
+      distributions: {
+        totalProfit: distributionStatsSchema,
+        efficiencyScore: distributionStatsSchema,
+        lateDeliveries: distributionStatsSchema
+      },
+      samples: {
+        totalProfit: [Number],
+        efficiencyScore: [Number],
+        lateDeliveries: [Number]
+      }
+    },
+    required: false
   }
 }, {
   timestamps: false
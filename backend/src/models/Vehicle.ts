@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const VEHICLE_TYPES = ['Bike', 'Van', 'Truck'] as const;
+
+export type VehicleType = typeof VEHICLE_TYPES[number];
+
+export interface IVehicle extends Document {
+  name: string;
+  type: VehicleType;
+  capacityKg: number;
+  capacityParcels: number;
+  fuelCostPerKm: number;
+  isElectric: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const vehicleSchema = new Schema<IVehicle>({
+  name: {
+    type: String,
+    required: [true, 'Vehicle name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    required: [true, 'Vehicle type is required'],
+    enum: {
+      values: VEHICLE_TYPES,
+      message: 'Type must be Bike, Van, or Truck'
+    }
+  },
+  capacityKg: {
+    type: Number,
+    required: [true, 'Weight capacity is required'],
+    min: [1, 'Weight capacity must be at least 1 kg'],
+    max: [50000, 'Weight capacity cannot exceed 50,000 kg']
+  },
+  capacityParcels: {
+    type: Number,
+    required: [true, 'Parcel capacity is required'],
+    min: [1, 'Parcel capacity must be at least 1'],
+    max: [10000, 'Parcel capacity cannot exceed 10,000']
+  },
+  // Fuel or, for an EV, charging cost; replaces the rule set's base rate for this vehicle
+  fuelCostPerKm: {
+    type: Number,
+    required: [true, 'Fuel cost per km is required'],
+    min: [0, 'Fuel cost cannot be negative'],
+    max: [1000, 'Fuel cost cannot exceed 1,000 per km']
+  },
+  isElectric: {
+    type: Boolean,
+    required: true,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+vehicleSchema.index({ name: 1 });
+
+export default mongoose.model<IVehicle>('Vehicle', vehicleSchema);
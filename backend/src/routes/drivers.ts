@@ -1,7 +1,13 @@
 import { Router } from 'express';
+import mongoose from 'mongoose';
 import Driver from '../models/Driver.js';
+import DriverSchedule from '../models/DriverSchedule.js';
+import DeliveryLog from '../models/DeliveryLog.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
-import { validateRequest, driverSchema } from '../middleware/validation.js';
+import { validateRequest, validateQuery, driverSchema, deliveryLogSchema, driverListQuerySchema, deleteDriverQuerySchema } from '../middleware/validation.js';
+import { computeDriverHours } from '../services/driverHours.js';
+import { driverListFilter, listSort, ListQuery, pageOffset, toPage } from '../services/listFilters.js';
+import { DeleteDependantsOptions, DRIVER_DEPENDANTS, resolveDependants } from '../services/dependants.js';
 
 const router = Router();
 
@@ -9,17 +15,51 @@ const router = Router();
 router.use(authenticateToken);
 router.use(requireAdmin);
 
-// Get all drivers
-router.get('/', async (req, res) => {
+// Get a page of drivers, searched by name
+router.get('/', validateQuery(driverListQuerySchema), async (req, res) => {
   try {
-    const drivers = await Driver.find().sort({ createdAt: -1 });
-    res.json(drivers);
+    const query = res.locals.query as ListQuery;
+    const filter = await driverListFilter(query);
+    const [drivers, total] = await Promise.all([
+      Driver.find(filter).sort(listSort(query.sort)).skip(pageOffset(query)).limit(query.limit),
+      Driver.countDocuments(filter)
+    ]);
+    res.json(toPage(drivers, total, query));
   } catch (error) {
     console.error('Error fetching drivers:', error);
     res.status(500).json({ message: 'Failed to fetch drivers' });
   }
 });
 
+// Hours worked by every driver over the rolling 24-hour and 7-day windows
+router.get('/hours', async (req, res) => {
+  try {
+    const drivers = await Driver.find().select('currentShiftHours pastWeekHours');
+    const hours = await computeDriverHours(drivers);
+    res.json([...hours.values()]);
+  } catch (error) {
+    console.error('Error computing driver hours:', error);
+    res.status(500).json({ message: 'Failed to compute driver hours' });
+  }
+});
+
+// Logged deliveries of a driver, so a delete can be confirmed before it is refused
+router.get('/:id/dependants', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Driver not found' });
+    }
+    const driver = await Driver.findById(req.params.id);
+    if (!driver) {
+      return res.status(404).json({ message: 'Driver not found' });
+    }
+    res.json(await DRIVER_DEPENDANTS.find(req.params.id));
+  } catch (error) {
+    console.error('Error fetching driver dependants:', error);
+    res.status(500).json({ message: 'Failed to fetch driver dependants' });
+  }
+});
+
 // Get driver by ID
 router.get('/:id', async (req, res) => {
   try {
@@ -34,6 +74,85 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// Hours worked over the rolling 24-hour and 7-day windows, from the delivery log
+router.get('/:id/hours', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid driver id' });
+    }
+
+    const driver = await Driver.findById(req.params.id).select('currentShiftHours pastWeekHours');
+    if (!driver) {
+      return res.status(404).json({ message: 'Driver not found' });
+    }
+
+    const hours = await computeDriverHours([driver]);
+    res.json(hours.get(String(driver._id)));
+  } catch (error) {
+    console.error('Error computing driver hours:', error);
+    res.status(500).json({ message: 'Failed to compute driver hours' });
+  }
+});
+
+// Most recent logged deliveries for a driver
+router.get('/:id/deliveries', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid driver id' });
+    }
+
+    const deliveries = await DeliveryLog.find({ driverId: req.params.id })
+      .sort({ completedAt: -1 })
+      .limit(50);
+    res.json(deliveries);
+  } catch (error) {
+    console.error('Error fetching delivery log:', error);
+    res.status(500).json({ message: 'Failed to fetch delivery log' });
+  }
+});
+
+// Record a completed delivery; a driver cannot be on two deliveries at once
+router.post('/:id/deliveries', validateRequest(deliveryLogSchema), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid driver id' });
+    }
+    if (!await Driver.exists({ _id: req.params.id })) {
+      return res.status(404).json({ message: 'Driver not found' });
+    }
+
+    const overlapping = await DeliveryLog.exists({
+      driverId: req.params.id,
+      startedAt: { $lt: req.body.completedAt },
+      completedAt: { $gt: req.body.startedAt }
+    });
+    if (overlapping) {
+      return res.status(409).json({ message: 'This delivery overlaps one already logged for the driver' });
+    }
+
+    const delivery = new DeliveryLog({ ...req.body, driverId: req.params.id });
+    await delivery.save();
+    res.status(201).json(delivery);
+  } catch (error) {
+    console.error('Error logging delivery:', error);
+    res.status(500).json({ message: 'Failed to log delivery' });
+  }
+});
+
+// Remove a delivery logged by mistake
+router.delete('/:id/deliveries/:deliveryId', async (req, res) => {
+  try {
+    const delivery = await DeliveryLog.findOneAndDelete({ _id: req.params.deliveryId, driverId: req.params.id });
+    if (!delivery) {
+      return res.status(404).json({ message: 'Delivery not found' });
+    }
+    res.json({ message: 'Delivery removed successfully' });
+  } catch (error) {
+    console.error('Error removing delivery:', error);
+    res.status(500).json({ message: 'Failed to remove delivery' });
+  }
+});
+
 // Create new driver
 router.post('/', validateRequest(driverSchema), async (req, res) => {
   try {
@@ -66,13 +185,26 @@ router.put('/:id', validateRequest(driverSchema), async (req, res) => {
   }
 });
 
-// Delete driver
-router.delete('/:id', async (req, res) => {
+// Delete driver along with their schedule. A driver with logged deliveries is refused
+// with 409 and the deliveries listed, unless cascade=true deletes the log too.
+router.delete('/:id', validateQuery(deleteDriverQuerySchema), async (req, res) => {
   try {
-    const driver = await Driver.findByIdAndDelete(req.params.id);
+    const options = res.locals.query as DeleteDependantsOptions;
+    const driver = await Driver.findById(req.params.id);
     if (!driver) {
       return res.status(404).json({ message: 'Driver not found' });
     }
+
+    const dependants = await resolveDependants(DRIVER_DEPENDANTS, req.params.id, options);
+    if (dependants) {
+      return res.status(409).json({
+        message: `Driver "${driver.name}" has ${dependants.count} logged deliver${dependants.count === 1 ? 'y' : 'ies'}; delete them with the driver (cascade=true)`,
+        dependants
+      });
+    }
+
+    await driver.deleteOne();
+    await DriverSchedule.deleteOne({ driverId: driver._id });
     res.json({ message: 'Driver deleted successfully' });
   } catch (error) {
     console.error('Error deleting driver:', error);
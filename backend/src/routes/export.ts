@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { validateQuery, exportQuerySchemas } from '../middleware/validation.js';
+import { EXPORT_COLLECTIONS, ExportAbortedError, ExportCollection, ExportFormat, isExportCollection, streamExport } from '../services/dataExport.js';
+import { ListQuery } from '../services/listFilters.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+// Download a collection as csv (default), json or xlsx. The query takes the same
+// filters and sort as the collection's list endpoint, e.g. ?strategy= for simulations.
+router.get('/:collection', (req, res, next) => {
+  const { collection } = req.params;
+  if (!isExportCollection(collection)) {
+    return res.status(404).json({ message: `Unknown export type; expected one of ${EXPORT_COLLECTIONS.join(', ')}` });
+  }
+  validateQuery(exportQuerySchemas[collection])(req, res, next);
+}, async (req, res) => {
+  try {
+    const { format, ...query } = res.locals.query as ListQuery & { format: ExportFormat };
+    await streamExport(res, req.params.collection as ExportCollection, format, query);
+  } catch (error) {
+    if (error instanceof ExportAbortedError) {
+      return;
+    }
+    console.error('Error exporting data:', error);
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.status(500).json({ message: 'Failed to export data' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import express, { Router } from 'express';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { IMPORT_ENTITIES, IMPORT_FIELDS, IMPORT_MODES, importCsv, isImportEntity, isImportMode } from '../services/csvImport.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+// Columns each import type understands; the key column matches rows to existing records
+router.get('/fields', (req, res) => {
+  res.json(IMPORT_FIELDS);
+});
+
+// Validate an uploaded CSV (Content-Type text/csv) and report on every row. mode is
+// insert (default), upsert or sync. With dryRun=true nothing is saved; otherwise all
+// rows are applied, or none if any has errors.
+router.post('/:entity', express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), async (req: AuthRequest, res) => {
+  try {
+    const { entity } = req.params;
+    if (!isImportEntity(entity)) {
+      return res.status(404).json({ message: `Unknown import type; expected one of ${IMPORT_ENTITIES.join(', ')}` });
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      return res.status(400).json({ message: 'Send the CSV file as the request body with Content-Type text/csv' });
+    }
+
+    const mode = String(req.query.mode ?? 'insert');
+    if (!isImportMode(mode)) {
+      return res.status(400).json({ message: `mode must be one of ${IMPORT_MODES.join(', ')}` });
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const report = await importCsv(entity, req.body, { mode, dryRun, importedBy: req.user?.username ?? 'unknown' });
+
+    if (report.totalRows === 0) {
+      return res.status(400).json({ message: 'The CSV has a header but no rows', report });
+    }
+    if (!dryRun && report.rowsWithErrors > 0) {
+      return res.status(400).json({
+        message: `Nothing was imported: ${report.rowsWithErrors} row${report.rowsWithErrors === 1 ? ' has' : 's have'} errors`,
+        report
+      });
+    }
+    if (!dryRun && report.blockedDeletions.length > 0) {
+      return res.status(409).json({
+        message: `Nothing was imported: the sync would delete ${report.blockedDeletions.length} record${report.blockedDeletions.length === 1 ? '' : 's'} still in use`,
+        report
+      });
+    }
+    res.status(dryRun ? 200 : 201).json(report);
+  } catch (error) {
+    console.error('Error importing CSV:', error);
+    res.status(500).json({ message: 'Failed to import CSV' });
+  }
+});
+
+export default router;
@@ -1,21 +1,36 @@
 import { Router } from 'express';
+import mongoose from 'mongoose';
 import Order from '../models/Order.js';
-import { authenticateToken, requireAdmin } from '../middleware/auth.js';
-import { validateRequest, orderSchema } from '../middleware/validation.js';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { validateRequest, validateQuery, orderSchema, orderStatusChangeSchema, orderListQuerySchema } from '../middleware/validation.js';
+import { isAllowedTransition, recordStatusChange, transitionError } from '../services/orderLifecycle.js';
+import { listSort, ListQuery, orderListFilter, pageOffset, toPage } from '../services/listFilters.js';
 
 const router = Router();
 
+// External references identify orders across systems, so no two orders share one
+const externalRefTaken = async (externalRef: string | null | undefined, excludeId?: string): Promise<boolean> =>
+  Boolean(externalRef) && Boolean(await Order.exists({ externalRef, ...(excludeId ? { _id: { $ne: excludeId } } : {}) }));
+
 // Apply authentication to all routes
 router.use(authenticateToken);
 router.use(requireAdmin);
 
-// Get all orders
-router.get('/', async (req, res) => {
+// Get a page of orders, searched by external reference or route name and filtered by
+// status, SLA class, route, value and delivery date
+router.get('/', validateQuery(orderListQuerySchema), async (req, res) => {
   try {
-    const orders = await Order.find()
-      .populate('routeId', 'name distanceKm trafficLevel')
-      .sort({ createdAt: -1 });
-    res.json(orders);
+    const query = res.locals.query as ListQuery;
+    const filter = await orderListFilter(query);
+    const [orders, total] = await Promise.all([
+      Order.find(filter)
+        .populate('routeId', 'name distanceKm trafficLevel')
+        .sort(listSort(query.sort))
+        .skip(pageOffset(query))
+        .limit(query.limit),
+      Order.countDocuments(filter)
+    ]);
+    res.json(toPage(orders, total, query));
   } catch (error) {
     console.error('Error fetching orders:', error);
     res.status(500).json({ message: 'Failed to fetch orders' });
@@ -38,9 +53,14 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new order
-router.post('/', validateRequest(orderSchema), async (req, res) => {
+router.post('/', validateRequest(orderSchema), async (req: AuthRequest, res) => {
   try {
+    if (await externalRefTaken(req.body.externalRef)) {
+      return res.status(409).json({ message: `An order with external reference "${req.body.externalRef}" already exists` });
+    }
+
     const order = new Order(req.body);
+    recordStatusChange(order, null, req.user?.username ?? 'unknown');
     await order.save();
     await order.populate('routeId', 'name distanceKm trafficLevel');
     res.status(201).json(order);
@@ -50,18 +70,31 @@ router.post('/', validateRequest(orderSchema), async (req, res) => {
   }
 });
 
-// Update order
-router.put('/:id', validateRequest(orderSchema), async (req, res) => {
+// Update order; a status change must be an allowed transition and is recorded
+router.put('/:id', validateRequest(orderSchema), async (req: AuthRequest, res) => {
   try {
-    const order = await Order.findByIdAndUpdate(
-      req.params.id,
-      req.body,
-      { new: true, runValidators: true }
-    ).populate('routeId', 'name distanceKm trafficLevel');
+    const order = await Order.findById(req.params.id);
     
     if (!order) {
       return res.status(404).json({ message: 'Order not found' });
     }
+
+    const { status, ...fields } = req.body;
+    const from = order.status;
+    if (status && status !== from && !isAllowedTransition(from, status)) {
+      return res.status(409).json(transitionError(from, status));
+    }
+    if (await externalRefTaken(fields.externalRef, req.params.id)) {
+      return res.status(409).json({ message: `An order with external reference "${fields.externalRef}" already exists` });
+    }
+
+    order.set(fields);
+    if (status && status !== from) {
+      order.status = status;
+      recordStatusChange(order, from, req.user?.username ?? 'unknown');
+    }
+    await order.save();
+    await order.populate('routeId', 'name distanceKm trafficLevel');
     
     res.json(order);
   } catch (error) {
@@ -70,6 +103,35 @@ router.put('/:id', validateRequest(orderSchema), async (req, res) => {
   }
 });
 
+// Move an order to its next status, with an optional note for the history
+router.post('/:id/status', validateRequest(orderStatusChangeSchema), async (req: AuthRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid order ID' });
+    }
+
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: 'Order not found' });
+    }
+
+    const from = order.status;
+    const { status, note } = req.body;
+    if (!isAllowedTransition(from, status)) {
+      return res.status(409).json(transitionError(from, status));
+    }
+
+    order.status = status;
+    recordStatusChange(order, from, req.user?.username ?? 'unknown', note);
+    await order.save();
+    await order.populate('routeId', 'name distanceKm trafficLevel');
+    res.json(order);
+  } catch (error) {
+    console.error('Error changing order status:', error);
+    res.status(500).json({ message: 'Failed to change order status' });
+  }
+});
+
 // Delete order
 router.delete('/:id', async (req, res) => {
   try {
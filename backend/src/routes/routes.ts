@@ -1,25 +1,100 @@
 import { Router } from 'express';
+import mongoose from 'mongoose';
 import Route from '../models/Route.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
-import { validateRequest, routeSchema } from '../middleware/validation.js';
+import { validateRequest, validateQuery, routeSchema, routeListQuerySchema, deleteDependantsQuerySchema } from '../middleware/validation.js';
+import { EARTH_RADIUS_KM, haversineKm, Position } from '../utils/geo.js';
+import { listSort, ListQuery, pageOffset, routeListFilter, toPage } from '../services/listFilters.js';
+import { DeleteDependantsOptions, resolveDependants, ROUTE_DEPENDANTS } from '../services/dependants.js';
 
 const router = Router();
 
+const DEFAULT_NEAR_RADIUS_KM = 5;
+const MAX_NEAR_RADIUS_KM = 500;
+
+// A finite number within [min, max], or null for anything else (including a missing value)
+const parseBoundedNumber = (value: unknown, min: number, max: number): number | null => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max ? number : null;
+};
+
 // Apply authentication to all routes
 router.use(authenticateToken);
 router.use(requireAdmin);
 
-// Get all routes
-router.get('/', async (req, res) => {
+// Get a page of routes, searched by name and filtered by traffic level and distance
+router.get('/', validateQuery(routeListQuerySchema), async (req, res) => {
   try {
-    const routes = await Route.find().sort({ createdAt: -1 });
-    res.json(routes);
+    const query = res.locals.query as ListQuery;
+    const filter = await routeListFilter(query);
+    const [routes, total] = await Promise.all([
+      Route.find(filter).sort(listSort(query.sort)).skip(pageOffset(query)).limit(query.limit),
+      Route.countDocuments(filter)
+    ]);
+    res.json(toPage(routes, total, query));
   } catch (error) {
     console.error('Error fetching routes:', error);
     res.status(500).json({ message: 'Failed to fetch routes' });
   }
 });
 
+// Routes that start or end within radiusKm of a point, nearest first
+router.get('/near', async (req, res) => {
+  try {
+    const lat = parseBoundedNumber(req.query.lat, -90, 90);
+    const lng = parseBoundedNumber(req.query.lng, -180, 180);
+    const radiusKm = req.query.radiusKm === undefined
+      ? DEFAULT_NEAR_RADIUS_KM
+      : parseBoundedNumber(req.query.radiusKm, 0, MAX_NEAR_RADIUS_KM);
+
+    if (lat === null || lng === null) {
+      return res.status(400).json({ message: 'lat must be between -90 and 90 and lng between -180 and 180' });
+    }
+    if (radiusKm === null) {
+      return res.status(400).json({ message: `radiusKm must be between 0 and ${MAX_NEAR_RADIUS_KM}` });
+    }
+
+    const center: Position = [lng, lat];
+    const withinRadius = { $geoWithin: { $centerSphere: [center, radiusKm / EARTH_RADIUS_KM] } };
+    const routes = await Route.find({ $or: [{ startLocation: withinRadius }, { endLocation: withinRadius }] });
+
+    const nearby = routes
+      .map(route => {
+        const endpoints = [route.startLocation, route.endLocation].filter(point => point != null);
+        return {
+          ...route.toJSON(),
+          nearestKm: Math.min(...endpoints.map(point => haversineKm(center, point.coordinates)))
+        };
+      })
+      .sort((a, b) => a.nearestKm - b.nearestKm);
+
+    res.json(nearby);
+  } catch (error) {
+    console.error('Error finding nearby routes:', error);
+    res.status(500).json({ message: 'Failed to find nearby routes' });
+  }
+});
+
+// Orders that use a route, so a delete can be confirmed before it is refused
+router.get('/:id/dependants', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Route not found' });
+    }
+    const route = await Route.findById(req.params.id);
+    if (!route) {
+      return res.status(404).json({ message: 'Route not found' });
+    }
+    res.json(await ROUTE_DEPENDANTS.find(req.params.id));
+  } catch (error) {
+    console.error('Error fetching route dependants:', error);
+    res.status(500).json({ message: 'Failed to fetch route dependants' });
+  }
+});
+
 // Get route by ID
 router.get('/:id', async (req, res) => {
   try {
@@ -66,13 +141,28 @@ router.put('/:id', validateRequest(routeSchema), async (req, res) => {
   }
 });
 
-// Delete route
-router.delete('/:id', async (req, res) => {
+// Delete route. A route that orders still use is refused with 409 and the orders listed,
+// unless cascade=true deletes them too or reassignTo=<routeId> moves them to another route.
+router.delete('/:id', validateQuery(deleteDependantsQuerySchema), async (req, res) => {
   try {
-    const route = await Route.findByIdAndDelete(req.params.id);
+    const options = res.locals.query as DeleteDependantsOptions;
+    const route = await Route.findById(req.params.id);
     if (!route) {
       return res.status(404).json({ message: 'Route not found' });
     }
+    if (options.reassignTo && (options.reassignTo === String(route._id) || !(await Route.exists({ _id: options.reassignTo })))) {
+      return res.status(400).json({ message: 'reassignTo must be another existing route' });
+    }
+
+    const dependants = await resolveDependants(ROUTE_DEPENDANTS, req.params.id, options);
+    if (dependants) {
+      return res.status(409).json({
+        message: `Route "${route.name}" is used by ${dependants.count} order${dependants.count === 1 ? '' : 's'}; delete them with it (cascade=true) or move them to another route (reassignTo)`,
+        dependants
+      });
+    }
+
+    await route.deleteOne();
     res.json({ message: 'Route deleted successfully' });
   } catch (error) {
     console.error('Error deleting route:', error);
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import RuleSet from '../models/RuleSet.js';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { validateRequest, ruleSetSchema } from '../middleware/validation.js';
+import { activateRuleSet, getActiveRuleSet, publishRuleSet } from '../services/ruleSets.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+// Get all rule set versions
+router.get('/', async (req, res) => {
+  try {
+    const ruleSets = await RuleSet.find().sort({ version: -1 });
+    res.json(ruleSets);
+  } catch (error) {
+    console.error('Error fetching rule sets:', error);
+    res.status(500).json({ message: 'Failed to fetch rule sets' });
+  }
+});
+
+// Get the rule set new simulations run under
+router.get('/active', async (req, res) => {
+  try {
+    const ruleSet = await getActiveRuleSet();
+    res.json(ruleSet);
+  } catch (error) {
+    console.error('Error fetching active rule set:', error);
+    res.status(500).json({ message: 'Failed to fetch active rule set' });
+  }
+});
+
+// Get rule set by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const ruleSet = await RuleSet.findById(req.params.id);
+    if (!ruleSet) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+    res.json(ruleSet);
+  } catch (error) {
+    console.error('Error fetching rule set:', error);
+    res.status(500).json({ message: 'Failed to fetch rule set' });
+  }
+});
+
+// Publish a new rule set version
+router.post('/', validateRequest(ruleSetSchema), async (req: AuthRequest, res) => {
+  try {
+    const { activate = false, ...input } = req.body;
+    const ruleSet = await publishRuleSet({ ...input, createdBy: req.user?.username }, activate);
+    res.status(201).json(ruleSet);
+  } catch (error) {
+    console.error('Error creating rule set:', error);
+    res.status(500).json({ message: 'Failed to create rule set' });
+  }
+});
+
+// Make a version the active one
+router.put('/:id/activate', async (req, res) => {
+  try {
+    const ruleSet = await RuleSet.findById(req.params.id);
+    if (!ruleSet) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+    res.json(await activateRuleSet(ruleSet));
+  } catch (error) {
+    console.error('Error activating rule set:', error);
+    res.status(500).json({ message: 'Failed to activate rule set' });
+  }
+});
+
+// Delete an inactive version; past results keep their own copy of the rules
+router.delete('/:id', async (req, res) => {
+  try {
+    const ruleSet = await RuleSet.findById(req.params.id);
+    if (!ruleSet) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+    if (ruleSet.isActive) {
+      return res.status(400).json({ message: 'The active rule set cannot be deleted' });
+    }
+    await ruleSet.deleteOne();
+    res.json({ message: 'Rule set deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting rule set:', error);
+    res.status(500).json({ message: 'Failed to delete rule set' });
+  }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import Driver from '../models/Driver.js';
+import DriverSchedule, { CLOCK_TIME_PATTERN } from '../models/DriverSchedule.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { validateRequest, driverScheduleSchema } from '../middleware/validation.js';
+import { checkAvailability } from '../services/driverAvailability.js';
+import { parseClockTime } from '../utils/time.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Get all schedules; drivers without one are available at any time
+router.get('/', async (req, res) => {
+  try {
+    const schedules = await DriverSchedule.find().sort({ driverId: 1 });
+    res.json(schedules);
+  } catch (error) {
+    console.error('Error fetching driver schedules:', error);
+    res.status(500).json({ message: 'Failed to fetch driver schedules' });
+  }
+});
+
+// Which drivers a run would get on a date (YYYY-MM-DD, default today) at a start time (HH:mm)
+router.get('/availability', async (req, res) => {
+  try {
+    const date = String(req.query.date ?? '');
+    const time = String(req.query.time ?? '');
+
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+    }
+    if (!CLOCK_TIME_PATTERN.test(time)) {
+      return res.status(400).json({ message: 'time must be in HH:mm format' });
+    }
+
+    // Midnight local time, matching how simulation runs read the calendar
+    const [year, month, day] = date.split('-').map(Number);
+    const onDate = date ? new Date(year, month - 1, day) : new Date();
+
+    const drivers = await Driver.find().sort({ _id: 1 }).select('name');
+    const schedules = await DriverSchedule.find();
+    const scheduleByDriver = new Map(schedules.map(schedule => [String(schedule.driverId), schedule]));
+
+    res.json(drivers.map(driver => ({
+      driverId: driver._id,
+      driverName: driver.name,
+      ...checkAvailability(scheduleByDriver.get(String(driver._id)), onDate, parseClockTime(time))
+    })));
+  } catch (error) {
+    console.error('Error checking driver availability:', error);
+    res.status(500).json({ message: 'Failed to check driver availability' });
+  }
+});
+
+// Create or replace a driver's schedule
+router.put('/:driverId', validateRequest(driverScheduleSchema), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.driverId)) {
+      return res.status(400).json({ message: 'Invalid driver id' });
+    }
+    if (!await Driver.exists({ _id: req.params.driverId })) {
+      return res.status(404).json({ message: 'Driver not found' });
+    }
+
+    const schedule = await DriverSchedule.findOneAndUpdate(
+      { driverId: req.params.driverId },
+      { ...req.body, driverId: req.params.driverId },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+    res.json(schedule);
+  } catch (error) {
+    console.error('Error saving driver schedule:', error);
+    res.status(500).json({ message: 'Failed to save driver schedule' });
+  }
+});
+
+// Remove a driver's schedule, making them available at any time
+router.delete('/:driverId', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.driverId)) {
+      return res.status(400).json({ message: 'Invalid driver id' });
+    }
+
+    const schedule = await DriverSchedule.findOneAndDelete({ driverId: req.params.driverId });
+    if (!schedule) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    res.json({ message: 'Schedule removed successfully' });
+  } catch (error) {
+    console.error('Error removing driver schedule:', error);
+    res.status(500).json({ message: 'Failed to remove driver schedule' });
+  }
+});
+
+export default router;
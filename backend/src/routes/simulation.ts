@@ -1,8 +1,15 @@
 import { Router } from 'express';
-import { authenticateToken, requireAdmin } from '../middleware/auth.js';
-import { validateRequest, simulationParamsSchema } from '../middleware/validation.js';
-import { SimulationEngine } from '../services/simulationEngine.js';
-import SimulationResult from '../models/SimulationResult.js';
+import mongoose from 'mongoose';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
+import { validateRequest, validateQuery, simulationParamsSchema, monteCarloParamsSchema, sweepParamsSchema, simulationJobParamsSchema, simulationHistoryQuerySchema } from '../middleware/validation.js';
+import { SimulationCancelledError, SimulationEngine, SweepParams, expandRange, MAX_SWEEP_CELLS } from '../services/simulationEngine.js';
+import SimulationJob, { FINISHED_JOB_STATUSES, SimulationJobStatus } from '../models/SimulationJob.js';
+import SimulationResult, { DEFAULT_MAX_STOPS_PER_TRIP, DEFAULT_STRATEGY } from '../models/SimulationResult.js';
+import RuleSet from '../models/RuleSet.js';
+import { generateSeed } from '../utils/random.js';
+import { cancelSimulationJob, enqueueSimulationJob, subscribeToJob } from '../services/simulationJobs.js';
+import { compareSimulations, MAX_COMPARED_RUNS, MIN_COMPARED_RUNS } from '../services/simulationComparison.js';
+import { listSort, ListQuery, pageOffset, simulationHistoryFilter, toPage } from '../services/listFilters.js';
 
 const router = Router();
 
@@ -12,10 +19,25 @@ router.use(requireAdmin);
 
 const simulationEngine = new SimulationEngine();
 
+// A run pinned to a rule set version needs that version to still exist
+const ruleSetMissing = async (ruleSetId?: string) =>
+  ruleSetId !== undefined && !(await RuleSet.exists({ _id: ruleSetId }));
+
 // Run simulation
 router.post('/run', validateRequest(simulationParamsSchema), async (req, res) => {
   try {
-    const params = req.body;
+    if (await ruleSetMissing(req.body.ruleSetId)) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+
+    // Every run gets a seed and a point in time so it can be replayed from History
+    const params = {
+      ...req.body,
+      seed: req.body.seed ?? generateSeed(),
+      strategy: req.body.strategy ?? DEFAULT_STRATEGY,
+      maxStopsPerTrip: req.body.maxStopsPerTrip ?? DEFAULT_MAX_STOPS_PER_TRIP,
+      asOf: req.body.asOf ? new Date(req.body.asOf) : new Date()
+    };
     
     // Run simulation
     const result = await simulationEngine.runSimulation(params);
@@ -39,17 +61,227 @@ router.post('/run', validateRequest(simulationParamsSchema), async (req, res) =>
   }
 });
 
-// Get simulation history
-router.get('/history', async (req, res) => {
+// Run a scenario repeatedly and store the resulting distributions as one result
+router.post('/monte-carlo', validateRequest(monteCarloParamsSchema), async (req, res) => {
+  try {
+    if (await ruleSetMissing(req.body.ruleSetId)) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+
+    const { iterations, ...body } = req.body;
+    const params = {
+      ...body,
+      seed: body.seed ?? generateSeed(),
+      strategy: body.strategy ?? DEFAULT_STRATEGY,
+      maxStopsPerTrip: body.maxStopsPerTrip ?? DEFAULT_MAX_STOPS_PER_TRIP,
+      asOf: body.asOf ? new Date(body.asOf) : new Date()
+    };
+
+    const result = await simulationEngine.runMonteCarlo(params, iterations);
+
+    const simulationResult = new SimulationResult({
+      ...result,
+      mode: 'monte-carlo',
+      simulationParams: params,
+      timestamp: new Date()
+    });
+
+    await simulationResult.save();
+
+    res.json(simulationResult);
+  } catch (error) {
+    console.error('Monte Carlo simulation error:', error);
+    res.status(500).json({
+      message: 'Monte Carlo simulation failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Run a drivers x max-hours grid and recommend the cheapest configuration meeting the target
+router.post('/sweep', validateRequest(sweepParamsSchema), async (req, res) => {
+  try {
+    if (await ruleSetMissing(req.body.ruleSetId)) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+
+    const params: SweepParams = {
+      ...req.body,
+      numberOfDrivers: { step: 1, ...req.body.numberOfDrivers },
+      maxHoursPerDriver: { step: 1, ...req.body.maxHoursPerDriver },
+      seed: req.body.seed ?? generateSeed(),
+      strategy: req.body.strategy ?? DEFAULT_STRATEGY,
+      maxStopsPerTrip: req.body.maxStopsPerTrip ?? DEFAULT_MAX_STOPS_PER_TRIP,
+      asOf: req.body.asOf ? new Date(req.body.asOf) : new Date(),
+      targetOnTimeRate: req.body.targetOnTimeRate ?? 90
+    };
+
+    const cellCount = expandRange(params.numberOfDrivers).length * expandRange(params.maxHoursPerDriver).length;
+    if (cellCount > MAX_SWEEP_CELLS) {
+      return res.status(400).json({
+        message: `Sweep covers ${cellCount} configurations; narrow the ranges or raise the steps to stay within ${MAX_SWEEP_CELLS}`
+      });
+    }
+
+    // Stop sweeping once the client has gone, rather than finishing every cell for nobody
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const result = await simulationEngine.runSweep(params, { signal: controller.signal });
+    res.json(result);
+  } catch (error) {
+    if (error instanceof SimulationCancelledError) {
+      return;
+    }
+    console.error('Parameter sweep error:', error);
+    res.status(500).json({
+      message: 'Parameter sweep failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Queue a simulation to run in the background
+router.post('/jobs', validateRequest(simulationJobParamsSchema), async (req: AuthRequest, res) => {
+  try {
+    if (await ruleSetMissing(req.body.ruleSetId)) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+
+    const { iterations, ...body } = req.body;
+    const job = await enqueueSimulationJob({
+      simulationParams: {
+        ...body,
+        seed: body.seed ?? generateSeed(),
+        strategy: body.strategy ?? DEFAULT_STRATEGY,
+        maxStopsPerTrip: body.maxStopsPerTrip ?? DEFAULT_MAX_STOPS_PER_TRIP,
+        asOf: body.asOf ? new Date(body.asOf) : new Date()
+      },
+      iterations,
+      createdBy: req.user?.username
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error queueing simulation job:', error);
+    res.status(500).json({ message: 'Failed to queue simulation' });
+  }
+});
+
+// Get a simulation job, with its result once completed
+router.get('/jobs/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Simulation job not found' });
+    }
+    const job = await SimulationJob.findById(req.params.id).populate('resultId');
+    if (!job) {
+      return res.status(404).json({ message: 'Simulation job not found' });
+    }
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching simulation job:', error);
+    res.status(500).json({ message: 'Failed to fetch simulation job' });
+  }
+});
+
+// Stream job updates as Server-Sent Events until the job finishes. The subscription
+// starts before the job is read, so an update published during the read is held
+// back and sent after the stored snapshot rather than lost.
+router.get('/jobs/:id/events', async (req, res) => {
+  let unsubscribe = () => {};
   try {
-    const { limit = 50, offset = 0 } = req.query;
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Simulation job not found' });
+    }
+
+    let streaming = false;
+    let finished = false;
+    const pending: Record<string, unknown>[] = [];
+    const send = (snapshot: Record<string, unknown>) => {
+      if (finished) {
+        return;
+      }
+      res.write(`data: ${JSON.stringify(snapshot)}\n\n`);
+      if (FINISHED_JOB_STATUSES.includes(snapshot.status as SimulationJobStatus)) {
+        finished = true;
+        unsubscribe();
+        res.end();
+      }
+    };
+    unsubscribe = subscribeToJob(req.params.id, snapshot => {
+      if (streaming) {
+        send(snapshot);
+      } else {
+        pending.push(snapshot);
+      }
+    });
+
+    const job = await SimulationJob.findById(req.params.id);
+    if (!job) {
+      unsubscribe();
+      return res.status(404).json({ message: 'Simulation job not found' });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    req.on('close', () => unsubscribe());
+    streaming = true;
+    send(job.toJSON());
+    pending.forEach(send);
+  } catch (error) {
+    unsubscribe();
+    console.error('Error streaming simulation job:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: 'Failed to stream simulation job' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// Cancel a queued or running simulation job
+router.post('/jobs/:id/cancel', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Simulation job not found' });
+    }
+    const job = await SimulationJob.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: 'Simulation job not found' });
+    }
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      return res.status(409).json({ message: `Simulation job has already ${job.status === 'cancelled' ? 'been cancelled' : job.status}` });
+    }
+
+    res.json(await cancelSimulationJob(job));
+  } catch (error) {
+    console.error('Error cancelling simulation job:', error);
+    res.status(500).json({ message: 'Failed to cancel simulation job' });
+  }
+});
+
+// Get a page of simulation history, filtered by strategy and mode and searched by rule set name
+router.get('/history', validateQuery(simulationHistoryQuerySchema), async (req, res) => {
+  try {
+    const query = res.locals.query as ListQuery;
+    const filter = await simulationHistoryFilter(query);
     
-    const history = await SimulationResult.find()
-      .sort({ timestamp: -1 })
-      .limit(Number(limit))
-      .skip(Number(offset));
+    const [history, total] = await Promise.all([
+      SimulationResult.find(filter)
+        .select('-assignments -unassignedOrders -driverTimelines -driverFatigue -monteCarlo.samples')
+        .sort(listSort(query.sort))
+        .skip(pageOffset(query))
+        .limit(query.limit),
+      SimulationResult.countDocuments(filter)
+    ]);
     
-    res.json(history);
+    res.json(toPage(history, total, query));
   } catch (error) {
     console.error('Error fetching simulation history:', error);
     res.status(500).json({ message: 'Failed to fetch simulation history' });
@@ -68,11 +300,20 @@ router.get('/kpis', async (req, res) => {
         efficiencyScore: 0,
         onTimeDeliveries: 0,
         lateDeliveries: 0,
+        unassignedDeliveries: 0,
+        lostRevenue: 0,
+        driversNeeded: 0,
         fuelCostBreakdown: {
           baseCost: 0,
           trafficSurcharge: 0,
           total: 0
-        }
+        },
+        fuelCostByTrafficLevel: {
+          Low: { baseCost: 0, trafficSurcharge: 0, total: 0 },
+          Medium: { baseCost: 0, trafficSurcharge: 0, total: 0 },
+          High: { baseCost: 0, trafficSurcharge: 0, total: 0 }
+        },
+        fuelCostByRoute: []
       });
     }
     
@@ -81,7 +322,12 @@ router.get('/kpis', async (req, res) => {
       efficiencyScore: latestSimulation.efficiencyScore,
       onTimeDeliveries: latestSimulation.onTimeDeliveries,
       lateDeliveries: latestSimulation.lateDeliveries,
-      fuelCostBreakdown: latestSimulation.fuelCostBreakdown
+      unassignedDeliveries: latestSimulation.unassignedDeliveries,
+      lostRevenue: latestSimulation.lostRevenue,
+      driversNeeded: latestSimulation.driversNeeded,
+      fuelCostBreakdown: latestSimulation.fuelCostBreakdown,
+      fuelCostByTrafficLevel: latestSimulation.fuelCostByTrafficLevel,
+      fuelCostByRoute: latestSimulation.fuelCostByRoute
     });
   } catch (error) {
     console.error('Error fetching KPIs:', error);
@@ -89,6 +335,55 @@ router.get('/kpis', async (req, res) => {
   }
 });
 
+// Compare 2-4 runs against the first id given
+router.get('/compare', async (req, res) => {
+  try {
+    const ids = String(req.query.ids ?? '').split(',').map(id => id.trim()).filter(Boolean);
+    const uniqueIds = [...new Set(ids)];
+
+    if (uniqueIds.length < MIN_COMPARED_RUNS || uniqueIds.length > MAX_COMPARED_RUNS) {
+      return res.status(400).json({
+        message: `Select between ${MIN_COMPARED_RUNS} and ${MAX_COMPARED_RUNS} different simulations to compare`
+      });
+    }
+    if (!uniqueIds.every(id => mongoose.isValidObjectId(id))) {
+      return res.status(400).json({ message: 'Invalid simulation id' });
+    }
+
+    const simulations = await SimulationResult.find({ _id: { $in: uniqueIds } }).select('-driverTimelines -driverFatigue -monteCarlo.samples');
+    // Keep the order the ids were given in, so the first one stays the baseline
+    const runs = uniqueIds
+      .map(id => simulations.find(simulation => String(simulation._id) === id))
+      .filter(run => run !== undefined);
+    if (runs.length !== uniqueIds.length) {
+      return res.status(404).json({ message: 'Simulation not found' });
+    }
+
+    res.json(compareSimulations(runs));
+  } catch (error) {
+    console.error('Error comparing simulations:', error);
+    res.status(500).json({ message: 'Failed to compare simulations' });
+  }
+});
+
+// Get per-order assignments for a simulation run
+router.get('/:id/assignments', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid simulation id' });
+    }
+
+    const simulation = await SimulationResult.findById(req.params.id).select('assignments');
+    if (!simulation) {
+      return res.status(404).json({ message: 'Simulation not found' });
+    }
+    res.json(simulation.assignments);
+  } catch (error) {
+    console.error('Error fetching simulation assignments:', error);
+    res.status(500).json({ message: 'Failed to fetch simulation assignments' });
+  }
+});
+
 // Get simulation analytics
 router.get('/analytics', async (req, res) => {
   try {
@@ -147,4 +442,22 @@ router.get('/analytics', async (req, res) => {
   }
 });
 
+// Get a single simulation run with its assignments and driver timelines
+router.get('/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid simulation id' });
+    }
+
+    const simulation = await SimulationResult.findById(req.params.id).select('-monteCarlo.samples');
+    if (!simulation) {
+      return res.status(404).json({ message: 'Simulation not found' });
+    }
+    res.json(simulation);
+  } catch (error) {
+    console.error('Error fetching simulation:', error);
+    res.status(500).json({ message: 'Failed to fetch simulation' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import Vehicle from '../models/Vehicle.js';
+import Driver from '../models/Driver.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { validateRequest, vehicleSchema } from '../middleware/validation.js';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+// Get all vehicles
+router.get('/', async (req, res) => {
+  try {
+    const vehicles = await Vehicle.find().sort({ createdAt: -1 });
+    res.json(vehicles);
+  } catch (error) {
+    console.error('Error fetching vehicles:', error);
+    res.status(500).json({ message: 'Failed to fetch vehicles' });
+  }
+});
+
+// Get vehicle by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const vehicle = await Vehicle.findById(req.params.id);
+    if (!vehicle) {
+      return res.status(404).json({ message: 'Vehicle not found' });
+    }
+    res.json(vehicle);
+  } catch (error) {
+    console.error('Error fetching vehicle:', error);
+    res.status(500).json({ message: 'Failed to fetch vehicle' });
+  }
+});
+
+// Create new vehicle
+router.post('/', validateRequest(vehicleSchema), async (req, res) => {
+  try {
+    const vehicle = new Vehicle(req.body);
+    await vehicle.save();
+    res.status(201).json(vehicle);
+  } catch (error) {
+    console.error('Error creating vehicle:', error);
+    res.status(500).json({ message: 'Failed to create vehicle' });
+  }
+});
+
+// Update vehicle
+router.put('/:id', validateRequest(vehicleSchema), async (req, res) => {
+  try {
+    const vehicle = await Vehicle.findByIdAndUpdate(
+      req.params.id,
+      req.body,
+      { new: true, runValidators: true }
+    );
+    
+    if (!vehicle) {
+      return res.status(404).json({ message: 'Vehicle not found' });
+    }
+    
+    res.json(vehicle);
+  } catch (error) {
+    console.error('Error updating vehicle:', error);
+    res.status(500).json({ message: 'Failed to update vehicle' });
+  }
+});
+
+// Delete vehicle; its drivers go back to having no vehicle
+router.delete('/:id', async (req, res) => {
+  try {
+    const vehicle = await Vehicle.findByIdAndDelete(req.params.id);
+    if (!vehicle) {
+      return res.status(404).json({ message: 'Vehicle not found' });
+    }
+    await Driver.updateMany({ vehicleId: vehicle._id }, { vehicleId: null });
+    res.json({ message: 'Vehicle deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting vehicle:', error);
+    res.status(500).json({ message: 'Failed to delete vehicle' });
+  }
+});
+
+export default router;
@@ -6,11 +6,17 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { connectDB } from './config/database.js';
 import { loadInitialData } from './utils/dataLoader.js';
+import { recoverSimulationJobs } from './services/simulationJobs.js';
 import authRoutes from './routes/auth.js';
 import driverRoutes from './routes/drivers.js';
 import routeRoutes from './routes/routes.js';
 import orderRoutes from './routes/orders.js';
 import simulationRoutes from './routes/simulation.js';
+import ruleRoutes from './routes/rules.js';
+import vehicleRoutes from './routes/vehicles.js';
+import scheduleRoutes from './routes/schedules.js';
+import importRoutes from './routes/import.js';
+import exportRoutes from './routes/export.js';
 import { errorHandler } from './middleware/errorHandler.js';
 
 dotenv.config();
@@ -50,6 +56,11 @@ app.use('/api/drivers', driverRoutes);
 app.use('/api/routes', routeRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/simulation', simulationRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/vehicles', vehicleRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/import', importRoutes);
+app.use('/api/export', exportRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -69,6 +80,9 @@ const startServer = async () => {
     await loadInitialData();
     console.log('✅ Initial data loaded');
 
+    // Pick up simulation jobs left over from the previous process
+    await recoverSimulationJobs();
+
     // Start server
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -0,0 +1,123 @@
+import { IDriver } from '../models/Driver.js';
+import { IRoute } from '../models/Route.js';
+import { AssignmentStrategyName } from '../models/SimulationResult.js';
+import { createRandom, MAX_SEED, RandomGenerator } from '../utils/random.js';
+import { toSimulationMinute } from '../utils/time.js';
+
+// The order fields a strategy may look at when queueing
+export interface QueuedOrder {
+  valueRs: number;
+  deliveryTimestamp: Date;
+  deliveryWindowEnd?: Date | null;
+  routeId: IRoute;
+}
+
+// The deadline lateness is judged against: the close of the order's window, or its delivery time without one
+const deadline = (order: QueuedOrder): Date => order.deliveryWindowEnd ?? order.deliveryTimestamp;
+
+// A driver with hours left, as seen at the moment an order is handed out
+export interface DriverCandidate {
+  driver: IDriver;
+  index: number; // position in the run's driver list
+  workloadHours: number;
+  deliveries: number;
+}
+
+export interface StrategyContext<T extends QueuedOrder> {
+  startMinute: number;
+  random: RandomGenerator;
+  // Total profit of one assignment pass over the given queue, drawing delivery
+  // time noise from the supplied generator
+  evaluate: (queue: T[], random: RandomGenerator) => number;
+}
+
+export interface AssignmentStrategy {
+  // Order in which pending orders are offered to drivers
+  orderQueue<T extends QueuedOrder>(orders: T[], context: StrategyContext<T>): T[];
+  // Pick one of the drivers that still have hours left
+  selectDriver(candidates: DriverCandidate[]): DriverCandidate;
+}
+
+const leastLoaded = (candidates: DriverCandidate[]): DriverCandidate =>
+  candidates.reduce((best, candidate) => candidate.workloadHours < best.workloadHours ? candidate : best);
+
+const byValueDesc = <T extends QueuedOrder>(orders: T[]): T[] =>
+  [...orders].sort((a, b) => b.valueRs - a.valueRs);
+
+// Swap attempts the local search makes per run
+const LOCAL_SEARCH_ATTEMPTS = 200;
+
+const strategies: Record<AssignmentStrategyName, AssignmentStrategy> = {
+  // High-value orders first, to the least-loaded driver
+  'value-greedy': {
+    orderQueue: orders => byValueDesc(orders),
+    selectDriver: leastLoaded
+  },
+
+  // Tightest deadlines first, measured on the simulated clock
+  'earliest-deadline': {
+    orderQueue: (orders, { startMinute }) =>
+      [...orders].sort((a, b) =>
+        toSimulationMinute(deadline(a), startMinute) - toSimulationMinute(deadline(b), startMinute)
+      ),
+    selectDriver: leastLoaded
+  },
+
+  // Shortest routes first, so as many orders as possible fit in the hours cap
+  'shortest-route': {
+    orderQueue: orders =>
+      [...orders].sort((a, b) =>
+        a.routeId.distanceKm - b.routeId.distanceKm || a.routeId.baseTimeMinutes - b.routeId.baseTimeMinutes
+      ),
+    selectDriver: leastLoaded
+  },
+
+  // Orders as they arrived, dealt to drivers in turn
+  'round-robin': {
+    orderQueue: orders => [...orders],
+    selectDriver: candidates =>
+      candidates.reduce((best, candidate) =>
+        candidate.deliveries < best.deliveries ||
+        (candidate.deliveries === best.deliveries && candidate.index < best.index)
+          ? candidate
+          : best
+      )
+  },
+
+  // Hill-climb from the value-greedy queue, keeping any swap of two orders that
+  // raises profit. Every candidate queue is scored against the same noise so
+  // comparisons are fair, and that noise comes from the run's own PRNG.
+  'local-search': {
+    orderQueue: (orders, { random, evaluate }) => {
+      let best = byValueDesc(orders);
+      if (best.length < 2) {
+        return best;
+      }
+
+      const evaluationSeed = Math.floor(random() * MAX_SEED);
+      const score = (queue: typeof best) => evaluate(queue, createRandom(evaluationSeed));
+      let bestProfit = score(best);
+
+      for (let attempt = 0; attempt < LOCAL_SEARCH_ATTEMPTS; attempt++) {
+        const i = Math.floor(random() * best.length);
+        const j = Math.floor(random() * best.length);
+        if (i === j) {
+          continue;
+        }
+
+        const candidate = [...best];
+        [candidate[i], candidate[j]] = [candidate[j], candidate[i]];
+        const profit = score(candidate);
+        if (profit > bestProfit) {
+          best = candidate;
+          bestProfit = profit;
+        }
+      }
+
+      return best;
+    },
+    selectDriver: leastLoaded
+  }
+};
+
+export const getAssignmentStrategy = (name: AssignmentStrategyName): AssignmentStrategy => strategies[name];
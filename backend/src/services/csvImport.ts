@@ -0,0 +1,495 @@
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import mongoose from 'mongoose';
+import Driver from '../models/Driver.js';
+import DriverSchedule from '../models/DriverSchedule.js';
+import DeliveryLog from '../models/DeliveryLog.js';
+import Route from '../models/Route.js';
+import Order, { IOrder, OrderStatus } from '../models/Order.js';
+import { isAllowedTransition, recordStatusChange } from './orderLifecycle.js';
+import { DRIVER_DEPENDANTS, ROUTE_DEPENDANTS } from './dependants.js';
+
+export const IMPORT_ENTITIES = ['drivers', 'routes', 'orders'] as const;
+
+export type ImportEntity = typeof IMPORT_ENTITIES[number];
+
+// 'insert': every row becomes a new record.
+// 'upsert': rows whose key matches an existing record update it; the rest are created.
+// 'sync': as upsert, and records whose key is not in the file are deleted. Records
+// without a key (orders with no external reference) are never deleted by a sync.
+export const IMPORT_MODES = ['insert', 'upsert', 'sync'] as const;
+
+export type ImportMode = typeof IMPORT_MODES[number];
+
+export interface ImportField {
+  name: string;
+  required: boolean;
+  description: string;
+  key?: boolean; // matches rows to existing records in upsert and sync modes
+  unique?: boolean; // no two records may share the value
+}
+
+// Columns each import understands, by header name
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  drivers: [
+    { name: 'name', required: true, description: 'Driver name', key: true },
+    { name: 'currentShiftHours', required: true, description: 'Hours worked in the current shift (0-24)' },
+    { name: 'pastWeekHours', required: true, description: 'Hours worked over the past 7 days (0-168)' }
+  ],
+  routes: [
+    { name: 'name', required: true, description: 'Route name', key: true },
+    { name: 'distanceKm', required: true, description: 'Distance in km' },
+    { name: 'trafficLevel', required: true, description: 'Low, Medium or High' },
+    { name: 'baseTimeMinutes', required: true, description: 'Travel time without traffic, in whole minutes' }
+  ],
+  orders: [
+    { name: 'externalRef', required: false, description: 'Reference from the source system; required to upsert or sync', key: true, unique: true },
+    { name: 'valueRs', required: true, description: 'Order value in ₹' },
+    { name: 'routeName', required: true, description: 'Name of an existing route' },
+    { name: 'deliveryDate', required: true, description: 'Delivery date and time' },
+    { name: 'status', required: false, description: 'Pending (default), In Progress, Delivered or Late' },
+    { name: 'slaClass', required: false, description: 'Express, Standard (default) or Economy' },
+    { name: 'weightKg', required: false, description: 'Weight in kg' },
+    { name: 'parcels', required: false, description: 'Number of parcels' },
+    { name: 'deliveryWindowStart', required: false, description: 'When the delivery window opens' },
+    { name: 'deliveryWindowEnd', required: false, description: 'When the delivery window closes' }
+  ]
+};
+
+type CsvRow = Record<string, string>;
+
+export type ImportRowAction = 'create' | 'update' | 'unchanged';
+
+export interface ImportRowReport {
+  row: number; // 1-based, not counting the header
+  values: CsvRow;
+  action?: ImportRowAction; // left out for rows with errors
+  changedFields?: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+// What the import did, or in a dry run would do
+export interface ImportSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+export interface ImportReport {
+  entity: ImportEntity;
+  mode: ImportMode;
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  rowsWithErrors: number;
+  rowsWithWarnings: number;
+  summary: ImportSummary;
+  toDelete: string[]; // keys of records a sync removes
+  blockedDeletions: string[]; // records a sync would remove that others still use; nothing is imported while any remain
+  missingColumns: string[]; // required fields with no column in the file
+  unknownColumns: string[]; // columns in the file that no field uses
+  rows: ImportRowReport[];
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  dryRun: boolean;
+  importedBy: string;
+}
+
+export const isImportEntity = (value: string): value is ImportEntity =>
+  (IMPORT_ENTITIES as readonly string[]).includes(value);
+
+export const isImportMode = (value: string): value is ImportMode =>
+  (IMPORT_MODES as readonly string[]).includes(value);
+
+// Blank header cells are dropped, so a file can leave out columns it does not map
+const readCsv = (text: string): Promise<{ headers: string[]; rows: CsvRow[] }> =>
+  new Promise((resolve, reject) => {
+    let headers: string[] = [];
+    const rows: CsvRow[] = [];
+    Readable.from([text.replace(/^\uFEFF/, '')])
+      .pipe(csv({
+        mapHeaders: ({ header }) => header.trim() || null,
+        mapValues: ({ value }) => String(value).trim()
+      }))
+      .on('headers', (names: string[]) => {
+        headers = names.filter(Boolean);
+      })
+      .on('data', (row: CsvRow) => rows.push(row))
+      .on('end', () => resolve({ headers, rows }))
+      .on('error', reject);
+  });
+
+// Collects one row's problems while its values are converted
+class RowParser {
+  readonly errors: string[] = [];
+  readonly warnings: string[] = [];
+  private readonly invalid = new Set<string>();
+
+  constructor(private readonly values: CsvRow) {}
+
+  text(field: string): string | undefined {
+    return this.values[field] || undefined;
+  }
+
+  number(field: string, { integer = false } = {}): number | undefined {
+    const raw = this.text(field);
+    if (raw === undefined) {
+      return undefined;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      this.fail(field, `${field} must be ${integer ? 'a whole number' : 'a number'}, got "${raw}"`);
+      return undefined;
+    }
+    return value;
+  }
+
+  date(field: string): Date | undefined {
+    const raw = this.text(field);
+    if (raw === undefined) {
+      return undefined;
+    }
+    const value = new Date(raw);
+    if (Number.isNaN(value.getTime())) {
+      this.fail(field, `${field} must be a date, got "${raw}"`);
+      return undefined;
+    }
+    return value;
+  }
+
+  fail(field: string, message: string): void {
+    this.invalid.add(field);
+    this.errors.push(message);
+  }
+
+  // Run the model's own validators, skipping fields that already failed to parse
+  validate(doc: mongoose.Document, fieldFor: Record<string, string> = {}): void {
+    const error = doc.validateSync();
+    if (!error) {
+      return;
+    }
+    for (const [path, detail] of Object.entries(error.errors)) {
+      if (!this.invalid.has(fieldFor[path] ?? path)) {
+        this.errors.push(detail.message);
+      }
+    }
+  }
+}
+
+interface ParsedRow {
+  doc: mongoose.Document;
+  parser: RowParser;
+}
+
+interface PlannedRow extends ParsedRow {
+  action?: ImportRowAction;
+  match?: mongoose.Document;
+  changedFields: string[];
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const parseDrivers = async (rows: CsvRow[]): Promise<ParsedRow[]> =>
+  rows.map(values => {
+    const parser = new RowParser(values);
+    const doc = new Driver({
+      name: parser.text('name'),
+      currentShiftHours: parser.number('currentShiftHours'),
+      pastWeekHours: parser.number('pastWeekHours')
+    });
+    parser.validate(doc);
+    return { doc, parser };
+  });
+
+const TRAFFIC_LEVELS = ['Low', 'Medium', 'High'];
+
+const parseRoutes = async (rows: CsvRow[]): Promise<ParsedRow[]> =>
+  rows.map(values => {
+    const parser = new RowParser(values);
+    // Accept any casing of the traffic level
+    const rawTraffic = parser.text('trafficLevel');
+    const trafficLevel = TRAFFIC_LEVELS.find(level => rawTraffic && sameName(level, rawTraffic)) ?? rawTraffic;
+    const doc = new Route({
+      name: parser.text('name'),
+      distanceKm: parser.number('distanceKm'),
+      trafficLevel,
+      baseTimeMinutes: parser.number('baseTimeMinutes', { integer: true })
+    });
+    parser.validate(doc);
+    return { doc, parser };
+  });
+
+// Orders reference routes by name; a case-insensitive match is used with a warning
+const parseOrders = async (rows: CsvRow[]): Promise<ParsedRow[]> => {
+  const routes = await Route.find().select('name');
+
+  return rows.map(values => {
+    const parser = new RowParser(values);
+    const routeName = parser.text('routeName');
+    let routeId: mongoose.Types.ObjectId | undefined;
+    if (routeName) {
+      const route = routes.find(candidate => candidate.name === routeName)
+        ?? routes.find(candidate => sameName(candidate.name, routeName));
+      if (!route) {
+        parser.fail('routeName', `Route "${routeName}" not found`);
+      } else {
+        routeId = route._id as mongoose.Types.ObjectId;
+        if (route.name !== routeName) {
+          parser.warnings.push(`Matched route "${routeName}" to "${route.name}"`);
+        }
+      }
+    }
+
+    const doc = new Order({
+      externalRef: parser.text('externalRef') ?? null,
+      valueRs: parser.number('valueRs'),
+      routeId,
+      deliveryTimestamp: parser.date('deliveryDate'),
+      deliveryWindowStart: parser.date('deliveryWindowStart'),
+      deliveryWindowEnd: parser.date('deliveryWindowEnd'),
+      weightKg: parser.number('weightKg'),
+      parcels: parser.number('parcels', { integer: true }),
+      ...(parser.text('status') ? { status: parser.text('status') } : {}),
+      ...(parser.text('slaClass') ? { slaClass: parser.text('slaClass') } : {})
+    });
+    parser.validate(doc, { routeId: 'routeName', deliveryTimestamp: 'deliveryDate' });
+    return { doc, parser };
+  });
+};
+
+const PARSERS: Record<ImportEntity, (rows: CsvRow[]) => Promise<ParsedRow[]>> = {
+  drivers: parseDrivers,
+  routes: parseRoutes,
+  orders: parseOrders
+};
+
+const EXISTING: Record<ImportEntity, () => Promise<mongoose.Document[]>> = {
+  drivers: () => Driver.find(),
+  routes: () => Route.find(),
+  orders: () => Order.find()
+};
+
+const SAVERS: Record<ImportEntity, (docs: mongoose.Document[]) => Promise<unknown>> = {
+  drivers: docs => Driver.bulkSave(docs),
+  routes: docs => Route.bulkSave(docs),
+  orders: docs => Order.bulkSave(docs)
+};
+
+// Drivers take their schedule with them, and deleted orders are cleared from the
+// delivery log, as when deleted one at a time
+const DELETERS: Record<ImportEntity, (ids: unknown[]) => Promise<unknown>> = {
+  drivers: async ids => {
+    await Driver.deleteMany({ _id: { $in: ids } });
+    await DriverSchedule.deleteMany({ driverId: { $in: ids } });
+  },
+  routes: ids => Route.deleteMany({ _id: { $in: ids } }),
+  orders: async ids => {
+    await Order.deleteMany({ _id: { $in: ids } });
+    await DeliveryLog.updateMany({ orderId: { $in: ids } }, { orderId: null });
+  }
+};
+
+// A sync may not delete a route that orders use or a driver with logged deliveries;
+// the reason is reported for each such record
+const DELETE_BLOCKERS: Record<ImportEntity, (docs: mongoose.Document[], keyField: string) => Promise<string[]>> = {
+  drivers: async (docs, keyField) => {
+    const counts = await DRIVER_DEPENDANTS.countMany(docs.map(doc => String(doc._id)));
+    return docs
+      .filter(doc => counts.has(String(doc._id)))
+      .map(doc => `Driver "${doc.get(keyField)}" has ${counts.get(String(doc._id))} logged deliveries`);
+  },
+  routes: async (docs, keyField) => {
+    const counts = await ROUTE_DEPENDANTS.countMany(docs.map(doc => String(doc._id)));
+    return docs
+      .filter(doc => counts.has(String(doc._id)))
+      .map(doc => `Route "${doc.get(keyField)}" is used by ${counts.get(String(doc._id))} orders`);
+  },
+  orders: async () => []
+};
+
+// Columns whose values live under a different path on the record
+const FIELD_PATHS: Record<string, string> = {
+  routeName: 'routeId',
+  deliveryDate: 'deliveryTimestamp'
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  return String(a) === String(b);
+};
+
+// Decide what each row does. Only columns in the file with a value are compared
+// and copied onto a matched record, so a blank optional cell keeps the record's
+// current value. Required columns must be filled on every row, matched or not.
+const planRows = (
+  entity: ImportEntity,
+  parsed: ParsedRow[],
+  headers: string[],
+  existing: mongoose.Document[],
+  mode: ImportMode
+): PlannedRow[] => {
+  const fieldNames = IMPORT_FIELDS[entity].map(field => field.name);
+  const keyField = IMPORT_FIELDS[entity].find(field => field.key)!;
+  const keyOf = (doc: mongoose.Document) => (doc.get(keyField.name) as string | null | undefined) || undefined;
+  // Names may repeat, but an external reference identifies exactly one order
+  const uniqueKey = keyField.unique === true;
+
+  const existingByKey = new Map<string, mongoose.Document[]>();
+  existing.forEach(doc => {
+    const key = keyOf(doc);
+    if (key !== undefined) {
+      existingByKey.set(key, [...(existingByKey.get(key) ?? []), doc]);
+    }
+  });
+
+  const firstRowByKey = new Map<string, number>();
+  return parsed.map(({ doc, parser }, index): PlannedRow => {
+    const planned: PlannedRow = { doc, parser, changedFields: [] };
+    const key = keyOf(doc);
+    const matches = key !== undefined ? existingByKey.get(key) ?? [] : [];
+
+    if (key !== undefined) {
+      const firstRow = firstRowByKey.get(key);
+      if (firstRow === undefined) {
+        firstRowByKey.set(key, index + 1);
+      } else if (mode === 'insert' && !uniqueKey) {
+        parser.warnings.push(`"${key}" appears more than once in this file`);
+      } else {
+        parser.errors.push(`${keyField.name} "${key}" is already used on row ${firstRow}`);
+      }
+    }
+
+    if (mode === 'insert') {
+      if (matches.length > 0 && uniqueKey) {
+        parser.errors.push(`An existing record already has ${keyField.name} "${key}"`);
+      } else if (matches.length > 0) {
+        parser.warnings.push(`A record with ${keyField.name} "${key}" already exists; this adds another`);
+      }
+      planned.action = 'create';
+    } else if (key === undefined) {
+      // A missing required key is already reported by the model's validation
+      if (!keyField.required) {
+        parser.errors.push(`${keyField.name} is required to ${mode}`);
+      }
+    } else if (matches.length > 1) {
+      parser.errors.push(`${matches.length} existing records have ${keyField.name} "${key}", so the row cannot be matched to one`);
+    } else if (matches.length === 1) {
+      const [match] = matches;
+      for (const field of headers.filter(header => fieldNames.includes(header))) {
+        const path = FIELD_PATHS[field] ?? field;
+        if (field === keyField.name || !parser.text(field) || sameValue(doc.get(path), match.get(path))) {
+          continue;
+        }
+        if (path === 'status' && !isAllowedTransition(match.get('status') as OrderStatus, doc.get('status') as OrderStatus)) {
+          parser.errors.push(`status cannot change from ${match.get('status')} to ${doc.get('status')}`);
+        }
+        planned.changedFields.push(field);
+      }
+      planned.match = match;
+      planned.action = planned.changedFields.length > 0 ? 'update' : 'unchanged';
+    } else {
+      planned.action = 'create';
+    }
+
+    if (parser.errors.length > 0) {
+      planned.action = undefined;
+    }
+    return planned;
+  });
+};
+
+// Validate every row of a CSV and, outside a dry run, apply them all in one bulk
+// write. Nothing is written while any row has errors.
+export const importCsv = async (
+  entity: ImportEntity,
+  text: string,
+  options: ImportOptions
+): Promise<ImportReport> => {
+  const { headers, rows } = await readCsv(text);
+  const fieldNames = IMPORT_FIELDS[entity].map(field => field.name);
+  const missingColumns = IMPORT_FIELDS[entity]
+    .filter(field => field.required && !headers.includes(field.name))
+    .map(field => field.name);
+
+  const existing = await EXISTING[entity]();
+  const planned = planRows(entity, await PARSERS[entity](rows), headers, existing, options.mode);
+
+  const keyField = IMPORT_FIELDS[entity].find(field => field.key)!.name;
+  const fileKeys = new Set(planned.map(({ doc }) => doc.get(keyField)).filter(Boolean));
+  const deletions = options.mode === 'sync'
+    ? existing.filter(doc => doc.get(keyField) && !fileKeys.has(doc.get(keyField)))
+    : [];
+
+  const blockedDeletions = deletions.length > 0 ? await DELETE_BLOCKERS[entity](deletions, keyField) : [];
+
+  const rowReports = planned.map(({ parser, action, changedFields }, index): ImportRowReport => ({
+    row: index + 1,
+    values: rows[index],
+    ...(action ? { action } : {}),
+    ...(action === 'update' ? { changedFields } : {}),
+    errors: parser.errors,
+    warnings: parser.warnings
+  }));
+  const rowsWithErrors = rowReports.filter(row => row.errors.length > 0).length;
+  const countAction = (action: ImportRowAction) => planned.filter(row => row.action === action).length;
+
+  if (!options.dryRun && rowsWithErrors === 0 && blockedDeletions.length === 0 && planned.length > 0) {
+    const toSave = planned.flatMap(({ doc, match, action, changedFields }) => {
+      if (action === 'create') {
+        if (entity === 'orders') {
+          recordStatusChange(doc as IOrder, null, options.importedBy, 'Imported from CSV');
+        }
+        return [doc];
+      }
+      if (action === 'update' && match) {
+        const from = match.get('status') as OrderStatus;
+        changedFields.forEach(field => {
+          const path = FIELD_PATHS[field] ?? field;
+          match.set(path, doc.get(path));
+        });
+        if (entity === 'orders' && changedFields.includes('status')) {
+          recordStatusChange(match as IOrder, from, options.importedBy, 'Imported from CSV');
+        }
+        return [match];
+      }
+      return [];
+    });
+
+    if (toSave.length > 0) {
+      await SAVERS[entity](toSave);
+    }
+    if (deletions.length > 0) {
+      await DELETERS[entity](deletions.map(doc => doc._id));
+    }
+  }
+
+  return {
+    entity,
+    mode: options.mode,
+    dryRun: options.dryRun,
+    totalRows: rows.length,
+    validRows: rows.length - rowsWithErrors,
+    rowsWithErrors,
+    rowsWithWarnings: rowReports.filter(row => row.warnings.length > 0).length,
+    summary: {
+      created: countAction('create'),
+      updated: countAction('update'),
+      unchanged: countAction('unchanged'),
+      deleted: deletions.length
+    },
+    toDelete: deletions.map(doc => doc.get(keyField) as string),
+    blockedDeletions,
+    missingColumns,
+    unknownColumns: headers.filter(header => !fieldNames.includes(header)),
+    rows: rowReports
+  };
+};
@@ -0,0 +1,257 @@
+import { once } from 'events';
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import mongoose from 'mongoose';
+import Driver from '../models/Driver.js';
+import Route from '../models/Route.js';
+import Order from '../models/Order.js';
+import SimulationResult from '../models/SimulationResult.js';
+import { IMPORT_FIELDS } from './csvImport.js';
+import { driverListFilter, listSort, ListQuery, orderListFilter, routeListFilter, simulationHistoryFilter } from './listFilters.js';
+
+export const EXPORT_COLLECTIONS = ['drivers', 'routes', 'orders', 'simulations'] as const;
+
+export type ExportCollection = typeof EXPORT_COLLECTIONS[number];
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type ExportValue = string | number | Date | null | undefined;
+
+interface ExportRecord {
+  doc: mongoose.Document;
+  values: Record<string, ExportValue>;
+}
+
+interface ExportSource {
+  // CSV and XLSX columns, in order; for drivers, routes and orders these are the
+  // import columns so an exported CSV imports back unchanged
+  columns: string[];
+  filter: (query: ListQuery) => Promise<Record<string, unknown>>;
+  // Every matching document, in the list's sort order
+  records: (filter: Record<string, unknown>, sort: string) => AsyncIterable<ExportRecord>;
+}
+
+const importColumns = (entity: keyof typeof IMPORT_FIELDS) =>
+  IMPORT_FIELDS[entity].map(field => field.name);
+
+// Mongoose cursors are not closed when a for-await loop over them stops early,
+// so close it here once the export finishes or is abandoned
+async function* documents<T>(cursor: AsyncIterable<T> & { close(): Promise<void> }): AsyncGenerator<T> {
+  try {
+    for await (const doc of cursor) {
+      yield doc;
+    }
+  } finally {
+    await cursor.close();
+  }
+}
+
+const SOURCES: Record<ExportCollection, ExportSource> = {
+  drivers: {
+    columns: importColumns('drivers'),
+    filter: driverListFilter,
+    async *records(filter, sort) {
+      for await (const driver of documents(Driver.find(filter).sort(listSort(sort)).cursor())) {
+        yield {
+          doc: driver,
+          values: {
+            name: driver.name,
+            currentShiftHours: driver.currentShiftHours,
+            pastWeekHours: driver.pastWeekHours
+          }
+        };
+      }
+    }
+  },
+  routes: {
+    columns: importColumns('routes'),
+    filter: routeListFilter,
+    async *records(filter, sort) {
+      for await (const route of documents(Route.find(filter).sort(listSort(sort)).cursor())) {
+        yield {
+          doc: route,
+          values: {
+            name: route.name,
+            distanceKm: route.distanceKm,
+            trafficLevel: route.trafficLevel,
+            baseTimeMinutes: route.baseTimeMinutes
+          }
+        };
+      }
+    }
+  },
+  orders: {
+    columns: importColumns('orders'),
+    filter: orderListFilter,
+    async *records(filter, sort) {
+      const cursor = Order.find(filter)
+        .populate('routeId', 'name distanceKm trafficLevel')
+        .sort(listSort(sort))
+        .cursor();
+      for await (const order of documents(cursor)) {
+        const route = order.routeId as unknown as { name: string } | null;
+        yield {
+          doc: order,
+          values: {
+            externalRef: order.externalRef,
+            valueRs: order.valueRs,
+            routeName: route?.name,
+            deliveryDate: order.deliveryTimestamp,
+            status: order.status,
+            slaClass: order.slaClass,
+            weightKg: order.weightKg,
+            parcels: order.parcels,
+            deliveryWindowStart: order.deliveryWindowStart,
+            deliveryWindowEnd: order.deliveryWindowEnd
+          }
+        };
+      }
+    }
+  },
+  simulations: {
+    columns: [
+      'id', 'timestamp', 'mode', 'strategy', 'numberOfDrivers', 'routeStartTime', 'maxHoursPerDriver',
+      'maxStopsPerTrip', 'seed', 'ruleSet', 'ruleSetVersion', 'totalProfit', 'efficiencyScore',
+      'onTimeDeliveries', 'lateDeliveries', 'unassignedDeliveries', 'lostRevenue', 'fuelCost', 'driversNeeded'
+    ],
+    filter: simulationHistoryFilter,
+    async *records(filter, sort) {
+      const cursor = SimulationResult.find(filter)
+        .select('-assignments -unassignedOrders -driverTimelines -driverFatigue -monteCarlo.samples')
+        .sort(listSort(sort))
+        .cursor();
+      for await (const run of documents(cursor)) {
+        yield {
+          doc: run,
+          values: {
+            id: String(run._id),
+            timestamp: run.timestamp,
+            mode: run.mode,
+            strategy: run.simulationParams.strategy,
+            numberOfDrivers: run.simulationParams.numberOfDrivers,
+            routeStartTime: run.simulationParams.routeStartTime,
+            maxHoursPerDriver: run.simulationParams.maxHoursPerDriver,
+            maxStopsPerTrip: run.simulationParams.maxStopsPerTrip,
+            seed: run.simulationParams.seed,
+            ruleSet: run.ruleSet?.name,
+            ruleSetVersion: run.ruleSet?.version,
+            totalProfit: run.totalProfit,
+            efficiencyScore: run.efficiencyScore,
+            onTimeDeliveries: run.onTimeDeliveries,
+            lateDeliveries: run.lateDeliveries,
+            unassignedDeliveries: run.unassignedDeliveries,
+            lostRevenue: run.lostRevenue,
+            fuelCost: run.fuelCostBreakdown?.total,
+            driversNeeded: run.driversNeeded
+          }
+        };
+      }
+    }
+  }
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// The client went away before the download finished
+export class ExportAbortedError extends Error {
+  constructor() {
+    super('Export aborted by the client');
+    this.name = 'ExportAbortedError';
+  }
+}
+
+export const isExportCollection = (value: string): value is ExportCollection =>
+  (EXPORT_COLLECTIONS as readonly string[]).includes(value);
+
+// Dates are written as ISO timestamps, which the importer parses back exactly
+const csvCell = (value: ExportValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Respect backpressure so a large export never buffers in memory. A response that
+// closes instead of draining ends the export.
+const write = async (res: Response, chunk: string): Promise<void> => {
+  if (res.write(chunk) || res.destroyed) {
+    return;
+  }
+  const settled = new AbortController();
+  await Promise.race([
+    once(res, 'drain', { signal: settled.signal }),
+    once(res, 'close', { signal: settled.signal })
+  ]).finally(() => settled.abort());
+};
+
+// Stop reading records, which closes their cursor, once the client disconnects
+async function* whileConnected(res: Response, records: AsyncIterable<ExportRecord>): AsyncGenerator<ExportRecord> {
+  for await (const record of records) {
+    if (res.destroyed) {
+      throw new ExportAbortedError();
+    }
+    yield record;
+  }
+}
+
+const streamCsv = async (res: Response, columns: string[], records: AsyncIterable<ExportRecord>) => {
+  await write(res, columns.join(',') + '\r\n');
+  for await (const { values } of records) {
+    await write(res, columns.map(column => csvCell(values[column])).join(',') + '\r\n');
+  }
+  res.end();
+};
+
+// A JSON array of the documents as the list endpoint returns them
+const streamJson = async (res: Response, records: AsyncIterable<ExportRecord>) => {
+  let first = true;
+  await write(res, '[');
+  for await (const { doc } of records) {
+    await write(res, (first ? '' : ',') + JSON.stringify(doc));
+    first = false;
+  }
+  res.end(']');
+};
+
+const streamXlsx = async (res: Response, columns: string[], records: AsyncIterable<ExportRecord>, sheetName: string) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = columns.map(column => ({ header: column, key: column }));
+  for await (const { values } of records) {
+    sheet.addRow(columns.map(column => values[column] ?? null)).commit();
+  }
+  sheet.commit();
+  await workbook.commit();
+};
+
+// Stream every record matching a validated list query (its page and limit are ignored)
+// to the response as a download. Headers are sent before the first document is read,
+// so a failure part-way through aborts the response instead of returning an error status.
+// Throws ExportAbortedError when the client disconnects first.
+export const streamExport = async (
+  res: Response,
+  collection: ExportCollection,
+  format: ExportFormat,
+  query: ListQuery
+): Promise<void> => {
+  const source = SOURCES[collection];
+  const records = whileConnected(res, source.records(await source.filter(query), query.sort));
+  const filename = `${collection}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'csv') {
+    await streamCsv(res, source.columns, records);
+  } else if (format === 'json') {
+    await streamJson(res, records);
+  } else {
+    await streamXlsx(res, source.columns, records, collection);
+  }
+};
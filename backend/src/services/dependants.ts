@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import Order from '../models/Order.js';
+import DeliveryLog from '../models/DeliveryLog.js';
+
+type Id = mongoose.Types.ObjectId | string;
+
+// Records that still reference a route or driver, with the first few of them listed
+export interface Dependants {
+  collection: 'orders' | 'deliveryLogs';
+  count: number;
+  items: Record<string, unknown>[];
+}
+
+interface DependantRules {
+  find: (id: Id) => Promise<Dependants>;
+  // Dependant counts for many records at once, keyed by id; records without any are left out
+  countMany: (ids: Id[]) => Promise<Map<string, number>>;
+  // Delete the dependants along with the record
+  cascade: (id: Id) => Promise<void>;
+  // Point the dependants at another record instead; left out where they must not move
+  reassign?: (id: Id, toId: Id) => Promise<void>;
+}
+
+const LISTED_DEPENDANTS = 20;
+
+interface DependantCount {
+  _id: mongoose.Types.ObjectId;
+  count: number;
+}
+
+const countingPipeline = (field: string, ids: Id[]): mongoose.PipelineStage[] => [
+  { $match: { [field]: { $in: ids.map(id => new mongoose.Types.ObjectId(String(id))) } } },
+  { $group: { _id: `$${field}`, count: { $sum: 1 } } }
+];
+
+const toCountMap = (counts: DependantCount[]) =>
+  new Map(counts.map(({ _id, count }) => [String(_id), count]));
+
+// Orders use their route for travel time and fuel cost
+export const ROUTE_DEPENDANTS: DependantRules = {
+  find: async id => {
+    const [count, items] = await Promise.all([
+      Order.countDocuments({ routeId: id }),
+      Order.find({ routeId: id })
+        .select('externalRef valueRs status deliveryTimestamp')
+        .sort({ deliveryTimestamp: 1 })
+        .limit(LISTED_DEPENDANTS)
+        .lean()
+    ]);
+    return { collection: 'orders', count, items };
+  },
+  countMany: async ids => toCountMap(await Order.aggregate<DependantCount>(countingPipeline('routeId', ids))),
+  cascade: async id => {
+    const orderIds = await Order.find({ routeId: id }).distinct('_id');
+    await Order.deleteMany({ _id: { $in: orderIds } });
+    // Logged deliveries stay, as they still count towards driver hours
+    await DeliveryLog.updateMany({ orderId: { $in: orderIds } }, { orderId: null });
+  },
+  reassign: async (id, toId) => {
+    await Order.updateMany({ routeId: id }, { routeId: toId });
+  }
+};
+
+// Driver hours are derived from the delivery log. Its entries are not reassigned: they
+// record when this driver was busy, and moving them could overlap the other driver's own
+// deliveries. A driver's schedule is part of the driver rather than a dependant and is
+// always deleted with them.
+export const DRIVER_DEPENDANTS: DependantRules = {
+  find: async id => {
+    const [count, items] = await Promise.all([
+      DeliveryLog.countDocuments({ driverId: id }),
+      DeliveryLog.find({ driverId: id })
+        .select('orderId startedAt completedAt')
+        .sort({ completedAt: -1 })
+        .limit(LISTED_DEPENDANTS)
+        .lean()
+    ]);
+    return { collection: 'deliveryLogs', count, items };
+  },
+  countMany: async ids => toCountMap(await DeliveryLog.aggregate<DependantCount>(countingPipeline('driverId', ids))),
+  cascade: async id => {
+    await DeliveryLog.deleteMany({ driverId: id });
+  }
+};
+
+export interface DeleteDependantsOptions {
+  cascade: boolean;
+  reassignTo?: string;
+}
+
+// Clear the way to delete a record. With cascade or reassignTo its dependants are dealt
+// with and null is returned; otherwise any dependants are returned so the delete can be refused.
+export const resolveDependants = async (
+  rules: DependantRules,
+  id: Id,
+  options: DeleteDependantsOptions
+): Promise<Dependants | null> => {
+  const dependants = await rules.find(id);
+  if (dependants.count === 0) {
+    return null;
+  }
+  if (options.cascade) {
+    await rules.cascade(id);
+    return null;
+  }
+  if (options.reassignTo && rules.reassign) {
+    await rules.reassign(id, options.reassignTo);
+    return null;
+  }
+  return dependants;
+};
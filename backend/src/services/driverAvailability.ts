@@ -0,0 +1,98 @@
+import { AvailabilityWindow, IDriverSchedule, LeavePeriod } from '../models/DriverSchedule.js';
+import { MINUTES_PER_DAY, parseClockTime } from '../utils/time.js';
+
+// 'on_leave': the run date falls inside one of the driver's leave periods.
+// 'day_off': the driver has no availability on the run's day of the week.
+// 'outside_hours': the driver works that day, but not at the route start time.
+// 'not_selected': available, but the run already had numberOfDrivers drivers.
+export type DriverExclusionReason = 'on_leave' | 'day_off' | 'outside_hours' | 'not_selected';
+
+export interface ExcludedDriver {
+  driverId: string;
+  driverName: string;
+  reason: DriverExclusionReason;
+  detail: string;
+}
+
+export type AvailabilityCheck =
+  | { available: true }
+  | { available: false; reason: Exclude<DriverExclusionReason, 'not_selected'>; detail: string };
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Leave is entered as whole calendar days and stored at UTC midnight
+const leaveDayKey = (date: Date) => new Date(date).toISOString().slice(0, 10);
+
+// The run's calendar day in server local time, like the simulated clock
+const localDayKey = (date: Date) => [
+  date.getFullYear(),
+  String(date.getMonth() + 1).padStart(2, '0'),
+  String(date.getDate()).padStart(2, '0')
+].join('-');
+
+const isOnLeave = (leave: LeavePeriod, dayKey: string) =>
+  leaveDayKey(leave.startDate) <= dayKey && dayKey <= leaveDayKey(leave.endDate);
+
+const isOvernight = (window: AvailabilityWindow) => parseClockTime(window.endTime) <= parseClockTime(window.startTime);
+
+// Windows are checked on the run's day, plus the early-morning tail of an
+// overnight window that started the day before
+const coversMinute = (window: AvailabilityWindow, dayOfWeek: number, minute: number) => {
+  const start = parseClockTime(window.startTime);
+  const end = parseClockTime(window.endTime);
+  if (window.dayOfWeek === dayOfWeek) {
+    return minute >= start && (isOvernight(window) || minute < end);
+  }
+  return window.dayOfWeek === (dayOfWeek + 6) % 7 && isOvernight(window) && minute < end;
+};
+
+export const checkAvailability = (
+  schedule: IDriverSchedule | undefined,
+  date: Date,
+  startMinute: number
+): AvailabilityCheck => {
+  if (!schedule) {
+    return { available: true };
+  }
+
+  const dayKey = localDayKey(date);
+  const leave = schedule.leave.find(period => isOnLeave(period, dayKey));
+  if (leave) {
+    return {
+      available: false,
+      reason: 'on_leave',
+      detail: `On leave ${leaveDayKey(leave.startDate)} to ${leaveDayKey(leave.endDate)}${leave.reason ? ` (${leave.reason})` : ''}`
+    };
+  }
+
+  // An empty weekly pattern means the driver has not restricted their days
+  if (schedule.weeklyAvailability.length === 0) {
+    return { available: true };
+  }
+
+  const dayOfWeek = date.getDay();
+  if (schedule.weeklyAvailability.some(window => coversMinute(window, dayOfWeek, startMinute))) {
+    return { available: true };
+  }
+
+  const today = schedule.weeklyAvailability.filter(window => window.dayOfWeek === dayOfWeek);
+  if (today.length === 0) {
+    return { available: false, reason: 'day_off', detail: `Not available on ${DAY_NAMES[dayOfWeek]}s` };
+  }
+  return {
+    available: false,
+    reason: 'outside_hours',
+    detail: `Available ${today.map(window => `${window.startTime}–${window.endTime}`).join(', ')} on ${DAY_NAMES[dayOfWeek]}s`
+  };
+};
+
+// Distance on the clock face, so 23:30 and 00:30 are an hour apart
+const clockDistance = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % MINUTES_PER_DAY;
+  return Math.min(difference, MINUTES_PER_DAY - difference);
+};
+
+// How far a driver's preferred start is from the run's start; drivers without a
+// preference fit any start time
+export const startTimeFit = (schedule: IDriverSchedule | undefined, startMinute: number): number =>
+  schedule?.preferredStartTime ? clockDistance(parseClockTime(schedule.preferredStartTime), startMinute) : 0;
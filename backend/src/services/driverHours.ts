@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import DeliveryLog from '../models/DeliveryLog.js';
+import { IDriver } from '../models/Driver.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+export const SHIFT_WINDOW_HOURS = 24;
+export const WEEK_WINDOW_HOURS = 7 * 24;
+
+export interface DriverHours {
+  driverId: string;
+  currentShiftHours: number; // worked in the last 24 hours
+  pastWeekHours: number; // worked in the last 7 days
+  deliveriesLast24h: number;
+  deliveriesLast7d: number;
+  // 'manual' until the driver's first delivery is logged; the hours typed
+  // into the Drivers form are used until then
+  source: 'log' | 'manual';
+  computedAt: Date;
+}
+
+type DriverHoursInput = Pick<IDriver, 'currentShiftHours' | 'pastWeekHours'> & { _id: unknown };
+
+// Hours of [start, end] that fall inside the window
+const overlapHours = (start: Date, end: Date, windowStart: Date, windowEnd: Date) =>
+  Math.max(0, Math.min(end.getTime(), windowEnd.getTime()) - Math.max(start.getTime(), windowStart.getTime())) / HOUR_MS;
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+// Rolling 24-hour and 7-day totals for each driver up to now, counting only the part
+// of a delivery that falls inside each window. Deliveries that start after now are
+// ignored, so the totals for a past moment stay the same as more is logged.
+export const computeDriverHours = async (
+  drivers: DriverHoursInput[],
+  now: Date = new Date()
+): Promise<Map<string, DriverHours>> => {
+  const driverIds = drivers.map(driver => driver._id as mongoose.Types.ObjectId);
+  const shiftStart = new Date(now.getTime() - SHIFT_WINDOW_HOURS * HOUR_MS);
+  const weekStart = new Date(now.getTime() - WEEK_WINDOW_HOURS * HOUR_MS);
+
+  const logs = await DeliveryLog.find({
+    driverId: { $in: driverIds },
+    completedAt: { $gt: weekStart },
+    startedAt: { $lt: now }
+  }).select('driverId startedAt completedAt');
+  const everLogged = new Set(
+    (await DeliveryLog.distinct('driverId', { driverId: { $in: driverIds }, startedAt: { $lt: now } })).map(String)
+  );
+
+  return new Map(drivers.map((driver): [string, DriverHours] => {
+    const driverId = String(driver._id);
+    const driverLogs = logs.filter(log => String(log.driverId) === driverId);
+
+    if (!everLogged.has(driverId)) {
+      return [driverId, {
+        driverId,
+        currentShiftHours: driver.currentShiftHours,
+        pastWeekHours: driver.pastWeekHours,
+        deliveriesLast24h: 0,
+        deliveriesLast7d: 0,
+        source: 'manual',
+        computedAt: now
+      }];
+    }
+
+    const shiftLogs = driverLogs.filter(log => log.completedAt > shiftStart);
+    return [driverId, {
+      driverId,
+      currentShiftHours: roundHours(shiftLogs.reduce((sum, log) => sum + overlapHours(log.startedAt, log.completedAt, shiftStart, now), 0)),
+      pastWeekHours: roundHours(driverLogs.reduce((sum, log) => sum + overlapHours(log.startedAt, log.completedAt, weekStart, now), 0)),
+      deliveriesLast24h: shiftLogs.length,
+      deliveriesLast7d: driverLogs.length,
+      source: 'log',
+      computedAt: now
+    }];
+  }));
+};
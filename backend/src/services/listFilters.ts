@@ -0,0 +1,103 @@
+import Route from '../models/Route.js';
+import { DEFAULT_STRATEGY } from '../models/SimulationResult.js';
+
+// Filters built from a validated list query (see the list query schemas in
+// middleware/validation.ts), shared by the list endpoints and exports so an export
+// holds exactly what the matching list shows
+export interface ListQuery {
+  page: number;
+  limit: number;
+  sort: string;
+  search?: string;
+  [filter: string]: unknown;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+type Filter = Record<string, unknown>;
+
+// Case-insensitive substring match on user input
+const containing = (text: string) => new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+
+// $gte/$lte bounds for whichever ends of a range were given
+const between = (min: unknown, max: unknown): Filter | undefined => {
+  const range: Filter = {};
+  if (min !== undefined) {
+    range.$gte = min;
+  }
+  if (max !== undefined) {
+    range.$lte = max;
+  }
+  return Object.keys(range).length > 0 ? range : undefined;
+};
+
+const withoutUnset = (filter: Filter): Filter =>
+  Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined));
+
+export const driverListFilter = async (query: ListQuery): Promise<Filter> =>
+  withoutUnset({
+    name: query.search ? containing(query.search) : undefined
+  });
+
+export const routeListFilter = async (query: ListQuery): Promise<Filter> =>
+  withoutUnset({
+    name: query.search ? containing(query.search) : undefined,
+    trafficLevel: query.trafficLevel ? { $in: query.trafficLevel } : undefined,
+    distanceKm: between(query.minDistanceKm, query.maxDistanceKm)
+  });
+
+// The search matches an order's external reference or its route's name
+export const orderListFilter = async (query: ListQuery): Promise<Filter> => {
+  let search: Filter | undefined;
+  if (query.search) {
+    const routes = await Route.find({ name: containing(query.search) }).select('_id');
+    search = {
+      $or: [
+        { externalRef: containing(query.search) },
+        { routeId: { $in: routes.map(route => route._id) } }
+      ]
+    };
+  }
+
+  return withoutUnset({
+    ...search,
+    status: query.status ? { $in: query.status } : undefined,
+    slaClass: query.slaClass ? { $in: query.slaClass } : undefined,
+    routeId: query.routeId,
+    valueRs: between(query.minValueRs, query.maxValueRs),
+    deliveryTimestamp: between(query.deliveryFrom, query.deliveryTo)
+  });
+};
+
+export const simulationHistoryFilter = async (query: ListQuery): Promise<Filter> =>
+  withoutUnset({
+    // Runs stored before strategies existed have no strategy and used the default
+    'simulationParams.strategy': query.strategy === DEFAULT_STRATEGY
+      ? { $in: [DEFAULT_STRATEGY, null] }
+      : query.strategy,
+    mode: query.mode,
+    'ruleSet.name': query.search ? containing(query.search) : undefined
+  });
+
+// Sort on the requested field, then on _id so records with equal values keep the
+// same order from page to page
+export const listSort = (sort: string): Record<string, 1 | -1> => {
+  const direction = sort.startsWith('-') ? -1 : 1;
+  return { [sort.replace(/^-/, '')]: direction, _id: direction };
+};
+
+export const pageOffset = (query: ListQuery): number => (query.page - 1) * query.limit;
+
+export const toPage = <T>(items: T[], total: number, query: ListQuery): Page<T> => ({
+  items,
+  total,
+  page: query.page,
+  limit: query.limit,
+  totalPages: Math.ceil(total / query.limit)
+});
@@ -0,0 +1,26 @@
+import { IOrder, ORDER_STATUS_TRANSITIONS, OrderStatus } from '../models/Order.js';
+
+export const isAllowedTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+export const transitionError = (from: OrderStatus, to: OrderStatus) => ({
+  message: `An order cannot move from ${from} to ${to}`,
+  allowed: ORDER_STATUS_TRANSITIONS[from]
+});
+
+// Record the order's current status as a new history entry; callers check the
+// transition is allowed before changing the status
+export const recordStatusChange = (
+  order: IOrder,
+  from: OrderStatus | null,
+  changedBy: string,
+  note?: string
+): void => {
+  order.statusHistory.push({
+    from,
+    to: order.status,
+    changedBy,
+    changedAt: new Date(),
+    ...(note ? { note } : {})
+  });
+};
@@ -0,0 +1,47 @@
+import RuleSet, { BusinessRules, DEFAULT_RULES, IRuleSet } from '../models/RuleSet.js';
+
+export interface RuleSetInput {
+  name: string;
+  description?: string;
+  rules: BusinessRules;
+  createdBy?: string;
+}
+
+export const activateRuleSet = async (ruleSet: IRuleSet): Promise<IRuleSet> => {
+  await RuleSet.updateMany({ _id: { $ne: ruleSet._id }, isActive: true }, { isActive: false });
+  ruleSet.isActive = true;
+  await ruleSet.save();
+  return ruleSet;
+};
+
+// Save rules as the next version; existing versions are never modified
+export const publishRuleSet = async (input: RuleSetInput, activate: boolean): Promise<IRuleSet> => {
+  const latest = await RuleSet.findOne().sort({ version: -1 }).select('version');
+  const ruleSet = new RuleSet({
+    ...input,
+    version: (latest?.version ?? 0) + 1,
+    isActive: false
+  });
+  await ruleSet.save();
+
+  return activate ? activateRuleSet(ruleSet) : ruleSet;
+};
+
+export const getActiveRuleSet = async (): Promise<IRuleSet> => {
+  const active = await RuleSet.findOne({ isActive: true }).sort({ version: -1 });
+  if (active) {
+    return active;
+  }
+
+  // Nothing published yet: seed version 1 from the built-in defaults
+  return publishRuleSet({
+    name: 'Default rules',
+    description: 'Initial simulation rules',
+    rules: DEFAULT_RULES,
+    createdBy: 'system'
+  }, true);
+};
+
+// A specific version when an id is given, otherwise the active one; null if the version is gone
+export const getRuleSet = async (ruleSetId?: string): Promise<IRuleSet | null> =>
+  ruleSetId ? RuleSet.findById(ruleSetId) : getActiveRuleSet();
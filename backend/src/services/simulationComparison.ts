@@ -0,0 +1,161 @@
+import { ISimulationResult } from '../models/SimulationResult.js';
+
+export const MIN_COMPARED_RUNS = 2;
+export const MAX_COMPARED_RUNS = 4;
+
+export type ComparedKpi =
+  | 'totalProfit'
+  | 'efficiencyScore'
+  | 'fuelCost'
+  | 'onTimeDeliveries'
+  | 'lateDeliveries'
+  | 'unassignedDeliveries';
+
+export interface ComparedRun {
+  _id: string;
+  timestamp: Date;
+  mode: ISimulationResult['mode'];
+  simulationParams: ISimulationResult['simulationParams'];
+  ruleSet: { name: string; version: number } | null;
+}
+
+export interface ParameterDiff {
+  parameter: string;
+  values: (string | number | null)[];
+  differs: boolean;
+}
+
+// Values are listed per run; deltas are each run minus the first (baseline) run
+export interface KpiDelta {
+  metric: ComparedKpi;
+  values: number[];
+  deltas: number[];
+}
+
+export interface BreakdownStats {
+  deliveries: number;
+  lateDeliveries: number;
+  profit: number;
+  fuelCost: number;
+}
+
+// One driver or route across the compared runs; null where a run never used it
+export interface BreakdownRow {
+  id: string;
+  name: string;
+  runs: (BreakdownStats | null)[];
+  profitDeltas: (number | null)[];
+}
+
+export interface SimulationComparison {
+  runs: ComparedRun[];
+  parameters: ParameterDiff[];
+  kpis: KpiDelta[];
+  drivers: BreakdownRow[];
+  routes: BreakdownRow[];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const kpiValue = (run: ISimulationResult, metric: ComparedKpi): number => {
+  switch (metric) {
+    case 'fuelCost':
+      return run.fuelCostBreakdown.total;
+    case 'unassignedDeliveries':
+      return run.unassignedDeliveries ?? 0;
+    default:
+      return run[metric];
+  }
+};
+
+const KPIS: ComparedKpi[] = [
+  'totalProfit',
+  'efficiencyScore',
+  'fuelCost',
+  'onTimeDeliveries',
+  'lateDeliveries',
+  'unassignedDeliveries'
+];
+
+const compareParameters = (runs: ISimulationResult[]): ParameterDiff[] => {
+  const parameters: [string, (run: ISimulationResult) => string | number | null][] = [
+    ['mode', run => run.mode],
+    ['numberOfDrivers', run => run.simulationParams.numberOfDrivers],
+    ['routeStartTime', run => run.simulationParams.routeStartTime],
+    ['maxHoursPerDriver', run => run.simulationParams.maxHoursPerDriver],
+    ['strategy', run => run.simulationParams.strategy],
+    ['maxStopsPerTrip', run => run.simulationParams.maxStopsPerTrip],
+    ['seed', run => run.simulationParams.seed ?? null],
+    ['ruleSetVersion', run => run.ruleSet?.version ?? null]
+  ];
+
+  return parameters.map(([parameter, pick]) => {
+    const values = runs.map(pick);
+    return { parameter, values, differs: values.some(value => value !== values[0]) };
+  });
+};
+
+// Group each run's assignments by driver or route and line the groups up across runs
+const compareBreakdown = (
+  runs: ISimulationResult[],
+  key: (assignment: ISimulationResult['assignments'][number]) => { id: string; name: string }
+): BreakdownRow[] => {
+  const rows = new Map<string, BreakdownRow>();
+
+  runs.forEach((run, runIndex) => {
+    run.assignments.forEach(assignment => {
+      const { id, name } = key(assignment);
+      if (!rows.has(id)) {
+        rows.set(id, { id, name, runs: runs.map(() => null), profitDeltas: [] });
+      }
+      const row = rows.get(id)!;
+      const stats = row.runs[runIndex] ?? { deliveries: 0, lateDeliveries: 0, profit: 0, fuelCost: 0 };
+      stats.deliveries++;
+      stats.lateDeliveries += assignment.isOnTime ? 0 : 1;
+      stats.profit += assignment.profit;
+      stats.fuelCost += assignment.fuelCost;
+      row.runs[runIndex] = stats;
+    });
+  });
+
+  return [...rows.values()]
+    .map(row => {
+      const runStats = row.runs.map(stats => stats && {
+        ...stats,
+        profit: round(stats.profit),
+        fuelCost: round(stats.fuelCost)
+      });
+      const baselineProfit = runStats[0]?.profit ?? 0;
+      return {
+        ...row,
+        runs: runStats,
+        profitDeltas: runStats.map(stats => stats ? round(stats.profit - baselineProfit) : null)
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Line up two or more stored runs against the first one. Monte Carlo batches keep
+// no assignments, so they only contribute to the parameter and KPI comparisons.
+export const compareSimulations = (runs: ISimulationResult[]): SimulationComparison => ({
+  runs: runs.map(run => ({
+    _id: String(run._id),
+    timestamp: run.timestamp,
+    mode: run.mode,
+    simulationParams: run.simulationParams,
+    ruleSet: run.ruleSet ? { name: run.ruleSet.name, version: run.ruleSet.version } : null
+  })),
+  parameters: compareParameters(runs),
+  kpis: KPIS.map(metric => {
+    const values = runs.map(run => kpiValue(run, metric));
+    return { metric, values, deltas: values.map(value => round(value - values[0])) };
+  }),
+  drivers: compareBreakdown(runs, assignment => ({
+    id: String(assignment.driverId),
+    name: assignment.driverName
+  })),
+  routes: compareBreakdown(runs, assignment => ({
+    id: String(assignment.routeId),
+    name: assignment.routeName
+  }))
+});
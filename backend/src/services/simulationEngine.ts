@@ -1,11 +1,27 @@
 import Driver from '../models/Driver.js';
-import Route from '../models/Route.js';
-import Order from '../models/Order.js';
+import DriverSchedule from '../models/DriverSchedule.js';
+import Route, { IRoute } from '../models/Route.js';
+import Order, { SlaClass } from '../models/Order.js';
+import { IVehicle } from '../models/Vehicle.js';
+import { BusinessRules, IRuleSet, TrafficBand, TrafficLevel } from '../models/RuleSet.js';
+import { getRuleSet } from './ruleSets.js';
+import { checkAvailability, ExcludedDriver, startTimeFit } from './driverAvailability.js';
+import { computeDriverHours } from './driverHours.js';
+import { AssignmentStrategyName, DEFAULT_MAX_STOPS_PER_TRIP, DEFAULT_STRATEGY } from '../models/SimulationResult.js';
+import { AssignmentStrategy, getAssignmentStrategy } from './assignmentStrategies.js';
+import { createRandom, generateSeed, RandomGenerator } from '../utils/random.js';
+import { DistributionStats, mean, summarize } from '../utils/statistics.js';
+import { MINUTES_PER_DAY, parseClockTime, toSimulationMinute } from '../utils/time.js';
 
 export interface SimulationParams {
   numberOfDrivers: number;
   routeStartTime: string;
   maxHoursPerDriver: number;
+  seed?: number;
+  strategy?: AssignmentStrategyName;
+  maxStopsPerTrip?: number; // 1 sends every order on its own trip
+  asOf?: Date; // the moment driver schedules and hours are read at; now when left out
+  ruleSetId?: string; // rule set version to run under; the active one when left out
 }
 
 export interface SimulationResult {
@@ -13,163 +29,921 @@ export interface SimulationResult {
   efficiencyScore: number;
   onTimeDeliveries: number;
   lateDeliveries: number;
-  fuelCostBreakdown: {
-    baseCost: number;
-    trafficSurcharge: number;
-    total: number;
-  };
+  unassignedDeliveries: number;
+  lostRevenue: number; // value of orders no driver could take
+  driversNeeded: number; // estimated drivers to cover every order
+  fuelCostBreakdown: FuelCostBreakdown;
+  fuelCostByTrafficLevel: Record<TrafficLevel, FuelCostBreakdown>;
+  fuelCostByRoute: RouteFuelCost[];
+  tripStats: TripStats;
+  assignments: DeliveryAssignment[];
+  unassignedOrders: UnassignedOrder[];
+  driverTimelines: DriverTimeline[];
+  driverFatigue: DriverFatigue[];
+  excludedDrivers: ExcludedDriver[]; // drivers left out of the run, and why
+  ruleSet: RuleSetSnapshot;
+}
+
+export interface FuelCostBreakdown {
+  baseCost: number;
+  trafficSurcharge: number;
+  total: number;
+}
+
+export interface RouteFuelCost extends FuelCostBreakdown {
+  routeId: string;
+  routeName: string;
+  trafficLevel: TrafficLevel;
+  deliveries: number;
+}
+
+export interface TripStats {
+  trips: number;
+  averageStopsPerTrip: number;
+  // Compared with sending every order on its own trip
+  fuelSaved: number;
+  minutesSaved: number;
+}
+
+export interface RuleSetSnapshot {
+  ruleSetId: string;
+  name: string;
+  version: number;
+  rules: BusinessRules;
 }
 
 export interface DeliveryAssignment {
   orderId: string;
   driverId: string;
+  driverName: string;
   routeId: string;
+  routeName: string;
   estimatedDeliveryTime: number; // in minutes
   actualDeliveryTime: number; // in minutes
+  // Simulated clock, in minutes since midnight of the day the run starts.
+  // startMinute is the trip's departure, shared by all of its stops.
+  startMinute: number;
+  endMinute: number;
+  deadlineMinute: number;
+  windowStartMinute: number | null; // earliest allowed arrival, when the order has a window
+  slaClass: SlaClass;
+  tripNumber: number; // order of the trip within the run
+  stopNumber: number; // 1 for the first stop of a trip
+  trafficBand: string;
+  trafficLevel: TrafficLevel;
   isOnTime: boolean;
   orderValue: number;
-  fuelCost: number;
+  fuelBaseCost: number;
+  fuelTrafficSurcharge: number;
+  fuelCost: number; // base cost + traffic surcharge
   bonus: number;
   penalty: number;
+  profit: number; // order value + bonus - penalty - fuel cost
+}
+
+// 'no_drivers': every driver was already at the hours cap when the run started.
+// 'hours_cap': drivers took earlier orders and ran out of hours before this one.
+// 'over_capacity': drivers had hours left, but none of their vehicles could carry the order.
+// 'daily_limit': drivers were under maxHoursPerDriver but had reached the legal daily driving limit.
+export type UnassignedReason = 'hours_cap' | 'no_drivers' | 'over_capacity' | 'daily_limit';
+
+export interface UnassignedOrder {
+  orderId: string;
+  routeId: string;
+  routeName: string;
+  orderValue: number;
+  estimatedDeliveryTime: number; // in minutes, at the route's base time
+  reason: UnassignedReason;
+}
+
+export interface TimelineSegment {
+  type: 'delivery' | 'idle' | 'break';
+  startMinute: number;
+  endMinute: number;
+  // Set on delivery segments only
+  orderId?: string;
+  routeName?: string;
+  isOnTime?: boolean;
+}
+
+// One driver's day on the simulated clock
+export interface DriverTimeline {
+  driverId: string;
+  driverName: string;
+  startingHours: number; // shift hours already worked when the run started
+  segments: TimelineSegment[];
+  workMinutes: number;
+  idleMinutes: number;
+  capReachedMinute: number | null; // when the driver's hours reached maxHoursPerDriver
+}
+
+export interface BreakPeriod {
+  startMinute: number;
+  endMinute: number;
 }
 
+// How tired one driver got over the run
+export interface DriverFatigue {
+  driverId: string;
+  driverName: string;
+  shiftHours: number; // at the end of the run, including hours worked before it
+  drivingMinutes: number; // driven and handing off during the run; waits for delivery windows are left out
+  continuousDrivingMinutes: number; // since the last break, when the run ended
+  breaks: BreakPeriod[];
+  peakSlowdownFactor: number; // highest combined weekly and in-shift slowdown applied to a trip
+  weeklyFatigued: boolean; // past week over the fatigue threshold
+  dailyLimitReachedMinute: number | null;
+}
+
+export interface MonteCarloResult extends SimulationResult {
+  monteCarlo: {
+    iterations: number;
+    distributions: {
+      totalProfit: DistributionStats;
+      efficiencyScore: DistributionStats;
+      lateDeliveries: DistributionStats;
+    };
+    samples: {
+      totalProfit: number[];
+      efficiencyScore: number[];
+      lateDeliveries: number[];
+    };
+  };
+}
+
+export interface RunOptions {
+  // Called as work completes, in units of iterations
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export class SimulationCancelledError extends Error {
+  constructor() {
+    super('Simulation cancelled');
+    this.name = 'SimulationCancelledError';
+  }
+}
+
+export interface SweepRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface SweepParams extends Omit<SimulationParams, 'numberOfDrivers' | 'maxHoursPerDriver'> {
+  numberOfDrivers: SweepRange;
+  maxHoursPerDriver: SweepRange;
+  targetOnTimeRate: number; // percent
+}
+
+export interface SweepCell {
+  numberOfDrivers: number;
+  maxHoursPerDriver: number;
+  driverHours: number; // staffing cost of the configuration
+  totalProfit: number;
+  efficiencyScore: number;
+  lateDeliveries: number;
+  unassignedDeliveries: number;
+  fuelCost: number;
+}
+
+export interface SweepResult {
+  seed: number;
+  targetOnTimeRate: number;
+  driverCounts: number[];
+  maxHoursValues: number[];
+  cells: SweepCell[][]; // [driver count index][max hours index]
+  recommended: SweepCell | null; // fewest driver-hours meeting the target
+}
+
+export const MAX_SWEEP_CELLS = 400;
+
+// Values from min to max inclusive; steps are counted from min to avoid float drift
+export const expandRange = ({ min, max, step }: SweepRange): number[] =>
+  Array.from({ length: Math.floor((max - min) / step + 1e-9) + 1 }, (_, i) => Math.round((min + i * step) * 100) / 100);
+
+interface SimulationData {
+  drivers: Awaited<ReturnType<typeof loadDrivers>>;
+  excludedDrivers: ExcludedDriver[];
+  orders: Awaited<ReturnType<typeof loadPendingOrders>>;
+  ruleSet: IRuleSet;
+}
+
+// Used when the configured bands leave an hour uncovered
+const NEUTRAL_TRAFFIC_BAND: TrafficBand = {
+  name: 'Unbanded',
+  startHour: 0,
+  endHour: 24,
+  multipliers: { Low: 1, Medium: 1, High: 1 }
+};
+
+const emptyFuelCost = (): FuelCostBreakdown => ({ baseCost: 0, trafficSurcharge: 0, total: 0 });
+
+const roundFuelCost = (cost: FuelCostBreakdown): FuelCostBreakdown => ({
+  baseCost: Math.round(cost.baseCost * 100) / 100,
+  trafficSurcharge: Math.round(cost.trafficSurcharge * 100) / 100,
+  total: Math.round(cost.total * 100) / 100
+});
+
+const averageFuelCost = (costs: FuelCostBreakdown[]): FuelCostBreakdown => roundFuelCost({
+  baseCost: mean(costs.map(cost => cost.baseCost)),
+  trafficSurcharge: mean(costs.map(cost => cost.trafficSurcharge)),
+  total: mean(costs.map(cost => cost.total))
+});
+
+// Tighter SLAs are offered to drivers first; the strategy's order holds within a class
+const SLA_PRIORITY: Record<SlaClass, number> = { Express: 0, Standard: 1, Economy: 2 };
+
+const prioritizeBySla = <T extends { slaClass?: SlaClass }>(queue: T[]): T[] =>
+  [...queue].sort((a, b) => SLA_PRIORITY[a.slaClass ?? 'Standard'] - SLA_PRIORITY[b.slaClass ?? 'Standard']);
+
+// Let queued I/O (progress streams, cancel requests) run between iterations
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+// Fetch available data in a stable order so seeded runs are reproducible
+const loadDrivers = () =>
+  Driver.find()
+    .sort({ _id: 1 })
+    .populate<{ vehicleId: IVehicle | null }>('vehicleId');
+
+const loadPendingOrders = () =>
+  Order.find({ status: { $in: ['Pending', 'In Progress'] } })
+    .sort({ _id: 1 })
+    .populate<{ routeId: IRoute }>('routeId');
+
 export class SimulationEngine {
   
-  async runSimulation(params: SimulationParams): Promise<SimulationResult> {
+  async runSimulation(params: SimulationParams, options: RunOptions = {}): Promise<SimulationResult> {
     try {
-      // Fetch available data
-      const drivers = await Driver.find().limit(params.numberOfDrivers);
-      const routes = await Route.find();
-      const orders = await Order.find({ status: { $in: ['Pending', 'In Progress'] } })
-        .populate('routeId');
-
-      if (drivers.length === 0 || routes.length === 0 || orders.length === 0) {
-        throw new Error('Insufficient data for simulation. Please ensure drivers, routes, and orders exist.');
+      const data = await this.loadSimulationData(params.numberOfDrivers, params.routeStartTime, params.asOf ?? new Date(), params.ruleSetId);
+      if (options.signal?.aborted) {
+        throw new SimulationCancelledError();
       }
 
       // Run delivery simulation
-      const assignments = this.assignDeliveries(drivers, orders, params);
-      
-      // Calculate results
-      const result = this.calculateResults(assignments);
-      
+      const random = createRandom(params.seed ?? generateSeed());
+      const result = this.simulate(data, params, random);
+      options.onProgress?.(1, 1);
       return result;
     } catch (error) {
-      console.error('Simulation engine error:', error);
+      if (!(error instanceof SimulationCancelledError)) {
+        console.error('Simulation engine error:', error);
+      }
+      throw error;
+    }
+  }
+
+  // Repeat the assignment pass against one snapshot of the data. A single
+  // PRNG stream feeds every iteration, so the whole batch replays from its seed.
+  async runMonteCarlo(params: SimulationParams, iterations: number, options: RunOptions = {}): Promise<MonteCarloResult> {
+    try {
+      const data = await this.loadSimulationData(params.numberOfDrivers, params.routeStartTime, params.asOf ?? new Date(), params.ruleSetId);
+      const random = createRandom(params.seed ?? generateSeed());
+
+      const runs: SimulationResult[] = [];
+      for (let i = 0; i < iterations; i++) {
+        if (options.signal?.aborted) {
+          throw new SimulationCancelledError();
+        }
+        runs.push(this.simulate(data, params, random));
+        options.onProgress?.(i + 1, iterations);
+        await yieldToEventLoop();
+      }
+
+      const samples = {
+        totalProfit: runs.map(run => run.totalProfit),
+        efficiencyScore: runs.map(run => run.efficiencyScore),
+        lateDeliveries: runs.map(run => run.lateDeliveries)
+      };
+      const average = (pick: (run: SimulationResult) => number) => mean(runs.map(pick));
+
+      return {
+        totalProfit: Math.round(average(run => run.totalProfit) * 100) / 100,
+        efficiencyScore: Math.round(average(run => run.efficiencyScore) * 10) / 10,
+        onTimeDeliveries: Math.round(average(run => run.onTimeDeliveries)),
+        lateDeliveries: Math.round(average(run => run.lateDeliveries)),
+        unassignedDeliveries: Math.round(average(run => run.unassignedDeliveries)),
+        lostRevenue: Math.round(average(run => run.lostRevenue) * 100) / 100,
+        // Staff for the worst iteration rather than the average one
+        driversNeeded: Math.max(...runs.map(run => run.driversNeeded)),
+        fuelCostBreakdown: averageFuelCost(runs.map(run => run.fuelCostBreakdown)),
+        fuelCostByTrafficLevel: {
+          Low: averageFuelCost(runs.map(run => run.fuelCostByTrafficLevel.Low)),
+          Medium: averageFuelCost(runs.map(run => run.fuelCostByTrafficLevel.Medium)),
+          High: averageFuelCost(runs.map(run => run.fuelCostByTrafficLevel.High))
+        },
+        fuelCostByRoute: this.averageRouteFuelCosts(runs),
+        tripStats: {
+          trips: Math.round(average(run => run.tripStats.trips)),
+          averageStopsPerTrip: Math.round(average(run => run.tripStats.averageStopsPerTrip) * 100) / 100,
+          fuelSaved: Math.round(average(run => run.tripStats.fuelSaved) * 100) / 100,
+          minutesSaved: Math.round(average(run => run.tripStats.minutesSaved))
+        },
+        // Individual assignments vary per iteration, so none are kept for a batch
+        assignments: [],
+        unassignedOrders: [],
+        driverTimelines: [],
+        driverFatigue: [],
+        excludedDrivers: runs[0].excludedDrivers,
+        ruleSet: runs[0].ruleSet,
+        monteCarlo: {
+          iterations,
+          distributions: {
+            totalProfit: summarize(samples.totalProfit),
+            efficiencyScore: summarize(samples.efficiencyScore, 1),
+            lateDeliveries: summarize(samples.lateDeliveries, 1)
+          },
+          samples
+        }
+      };
+    } catch (error) {
+      if (!(error instanceof SimulationCancelledError)) {
+        console.error('Monte Carlo simulation error:', error);
+      }
       throw error;
     }
   }
 
-  private assignDeliveries(drivers: any[], orders: any[], params: SimulationParams): DeliveryAssignment[] {
+  // Run every drivers x max-hours combination against one snapshot of the data.
+  // Each cell replays the same seed, so differences come from the parameters alone.
+  // Other requests get a turn between cells, and an abort stops before the next one.
+  async runSweep(params: SweepParams, options: RunOptions = {}): Promise<SweepResult> {
+    try {
+      const driverCounts = expandRange(params.numberOfDrivers);
+      const maxHoursValues = expandRange(params.maxHoursPerDriver);
+      const data = await this.loadSimulationData(Math.max(...driverCounts), params.routeStartTime, params.asOf ?? new Date(), params.ruleSetId);
+      const seed = params.seed ?? generateSeed();
+
+      const total = driverCounts.length * maxHoursValues.length;
+      const cells: SweepCell[][] = [];
+      for (const numberOfDrivers of driverCounts) {
+        const row: SweepCell[] = [];
+        for (const maxHoursPerDriver of maxHoursValues) {
+          if (options.signal?.aborted) {
+            throw new SimulationCancelledError();
+          }
+          row.push(this.runSweepCell(data, params, seed, numberOfDrivers, maxHoursPerDriver));
+          options.onProgress?.(cells.length * maxHoursValues.length + row.length, total);
+          await yieldToEventLoop();
+        }
+        cells.push(row);
+      }
+
+      const recommended = cells
+        .flat()
+        .filter(cell => cell.efficiencyScore >= params.targetOnTimeRate)
+        .sort((a, b) => a.driverHours - b.driverHours || b.totalProfit - a.totalProfit)[0] ?? null;
+
+      return { seed, targetOnTimeRate: params.targetOnTimeRate, driverCounts, maxHoursValues, cells, recommended };
+    } catch (error) {
+      if (!(error instanceof SimulationCancelledError)) {
+        console.error('Parameter sweep error:', error);
+      }
+      throw error;
+    }
+  }
+
+  private runSweepCell(
+    data: SimulationData,
+    params: SweepParams,
+    seed: number,
+    numberOfDrivers: number,
+    maxHoursPerDriver: number
+  ): SweepCell {
+    const cellParams: SimulationParams = {
+      numberOfDrivers,
+      maxHoursPerDriver,
+      routeStartTime: params.routeStartTime,
+      strategy: params.strategy,
+      maxStopsPerTrip: params.maxStopsPerTrip,
+      seed,
+      asOf: params.asOf,
+      ruleSetId: params.ruleSetId
+    };
+    const result = this.simulate(
+      { ...data, drivers: data.drivers.slice(0, numberOfDrivers) },
+      cellParams,
+      createRandom(seed)
+    );
+    return {
+      numberOfDrivers,
+      maxHoursPerDriver,
+      driverHours: Math.round(numberOfDrivers * maxHoursPerDriver * 100) / 100,
+      totalProfit: result.totalProfit,
+      efficiencyScore: result.efficiencyScore,
+      lateDeliveries: result.lateDeliveries,
+      unassignedDeliveries: result.unassignedDeliveries,
+      fuelCost: result.fuelCostBreakdown.total
+    };
+  }
+
+  private async loadSimulationData(
+    driverLimit: number,
+    routeStartTime: string,
+    asOf: Date,
+    ruleSetId?: string
+  ): Promise<SimulationData> {
+    const allDrivers = await loadDrivers();
+    const routes = await Route.find();
+    const pendingOrders = await loadPendingOrders();
+
+    // An order whose route no longer exists cannot be timed or costed, so it is left out
+    const orders = pendingOrders.filter(order => order.routeId != null);
+    if (orders.length < pendingOrders.length) {
+      console.warn(`Skipping ${pendingOrders.length - orders.length} order(s) whose route no longer exists`);
+    }
+
+    if (allDrivers.length === 0 || routes.length === 0 || orders.length === 0) {
+      throw new Error('Insufficient data for simulation. Please ensure drivers, routes, and orders exist.');
+    }
+
+    const { drivers, excludedDrivers } = await this.selectAvailableDrivers(allDrivers, driverLimit, routeStartTime, asOf);
+    if (drivers.length === 0) {
+      throw new Error(`No drivers are available at ${routeStartTime} on ${asOf.toDateString()}. Check the driver schedules.`);
+    }
+
+    // Hours from the delivery log replace the typed-in figures for this run only;
+    // the driver documents are never saved
+    const hours = await computeDriverHours(drivers, asOf);
+    drivers.forEach(driver => {
+      const { currentShiftHours, pastWeekHours } = hours.get(String(driver._id))!;
+      driver.currentShiftHours = currentShiftHours;
+      driver.pastWeekHours = pastWeekHours;
+    });
+
+    const ruleSet = await getRuleSet(ruleSetId);
+    if (!ruleSet) {
+      throw new Error('The rule set version for this run no longer exists');
+    }
+
+    return { drivers, excludedDrivers, orders, ruleSet };
+  }
+
+  // Keep drivers whose schedule has them working at the route start time on the day
+  // of asOf, preferring those whose preferred start is closest to it
+  private async selectAvailableDrivers(
+    allDrivers: SimulationData['drivers'],
+    driverLimit: number,
+    routeStartTime: string,
+    asOf: Date
+  ): Promise<Pick<SimulationData, 'drivers' | 'excludedDrivers'>> {
+    const schedules = await DriverSchedule.find({ driverId: { $in: allDrivers.map(driver => driver._id) } });
+    const scheduleByDriver = new Map(schedules.map(schedule => [String(schedule.driverId), schedule]));
+    const startMinute = parseClockTime(routeStartTime);
+
+    const excludedDrivers: ExcludedDriver[] = [];
+    const available = allDrivers.filter(driver => {
+      const check = checkAvailability(scheduleByDriver.get(String(driver._id)), asOf, startMinute);
+      if (!check.available) {
+        excludedDrivers.push({ driverId: String(driver._id), driverName: driver.name, reason: check.reason, detail: check.detail });
+      }
+      return check.available;
+    });
+
+    // Array sort is stable, so equally good fits keep their id order
+    const ranked = available
+      .map(driver => ({ driver, fit: startTimeFit(scheduleByDriver.get(String(driver._id)), startMinute) }))
+      .sort((a, b) => a.fit - b.fit)
+      .map(({ driver }) => driver);
+
+    ranked.slice(driverLimit).forEach(driver => excludedDrivers.push({
+      driverId: String(driver._id),
+      driverName: driver.name,
+      reason: 'not_selected',
+      detail: `Available, but the run only needed ${driverLimit} driver${driverLimit === 1 ? '' : 's'}`
+    }));
+
+    return { drivers: ranked.slice(0, driverLimit), excludedDrivers };
+  }
+
+  private simulate(data: SimulationData, params: SimulationParams, random: RandomGenerator): SimulationResult {
+    const rules = data.ruleSet.rules;
+    const strategy = getAssignmentStrategy(params.strategy ?? DEFAULT_STRATEGY);
+    const queue = prioritizeBySla(strategy.orderQueue(data.orders, {
+      startMinute: parseClockTime(params.routeStartTime),
+      random,
+      evaluate: (candidateQueue, evaluationRandom) =>
+        this.assignDeliveries(data.drivers, prioritizeBySla(candidateQueue), params, rules, strategy, evaluationRandom)
+          .assignments.reduce((sum, assignment) => sum + assignment.profit, 0)
+    }));
+    const { assignments, unassignedOrders, driverFatigue } = this.assignDeliveries(data.drivers, queue, params, rules, strategy, random);
+    return {
+      ...this.calculateResults(assignments, unassignedOrders, data.drivers.length, params),
+      driverTimelines: this.buildDriverTimelines(data.drivers, assignments, driverFatigue, params),
+      driverFatigue,
+      excludedDrivers: data.excludedDrivers,
+      ruleSet: {
+        ruleSetId: String(data.ruleSet._id),
+        name: data.ruleSet.name,
+        version: data.ruleSet.version,
+        rules
+      }
+    };
+  }
+
+  // Hand out orders in queue order, letting the strategy pick among drivers with hours left.
+  // Fatigue builds up with driving since the last break, which is taken once the next
+  // trip would run past the continuous driving limit. Waiting for a delivery window
+  // takes shift time but is not driving, so it counts towards neither fatigue nor the
+  // daily driving limit.
+  private assignDeliveries(
+    drivers: any[],
+    queue: any[],
+    params: SimulationParams,
+    rules: BusinessRules,
+    strategy: AssignmentStrategy,
+    random: RandomGenerator
+  ): { assignments: DeliveryAssignment[]; unassignedOrders: UnassignedOrder[]; driverFatigue: DriverFatigue[] } {
     const assignments: DeliveryAssignment[] = [];
+    const unassignedOrders: UnassignedOrder[] = [];
     const driverWorkload: { [driverId: string]: number } = {};
+    const driverClock: { [driverId: string]: number } = {};
+    // Hours driven in the last 24 hours, including before the run
+    const dailyDrivingHours: { [driverId: string]: number } = {};
+    const driverDeliveries: { [driverId: string]: number } = {};
+    const driverFatigue: { [driverId: string]: DriverFatigue } = {};
+    const startMinute = parseClockTime(params.routeStartTime);
     
-    // Initialize driver workload
+    // Initialize driver workload; every driver sets off at the route start time, rested
     drivers.forEach(driver => {
       driverWorkload[driver._id.toString()] = driver.currentShiftHours;
+      driverClock[driver._id.toString()] = startMinute;
+      dailyDrivingHours[driver._id.toString()] = driver.currentShiftHours;
+      driverDeliveries[driver._id.toString()] = 0;
+      driverFatigue[driver._id.toString()] = {
+        driverId: driver._id.toString(),
+        driverName: driver.name,
+        shiftHours: driver.currentShiftHours,
+        drivingMinutes: 0,
+        continuousDrivingMinutes: 0,
+        breaks: [],
+        peakSlowdownFactor: 1,
+        weeklyFatigued: driver.pastWeekHours > rules.fatigueWeeklyHoursThreshold,
+        dailyLimitReachedMinute: driver.currentShiftHours >= rules.dailyDrivingLimitHours ? startMinute : null
+      };
     });
 
-    // Sort orders by value (high-value orders first for better optimization)
-    const sortedOrders = orders.sort((a, b) => b.valueRs - a.valueRs);
+    const hasHoursLeft = (driverId: string) =>
+      driverWorkload[driverId] < params.maxHoursPerDriver && dailyDrivingHours[driverId] < rules.dailyDrivingLimitHours;
+    const anyDriverAvailable = drivers.some(driver => hasHoursLeft(driver._id.toString()));
+    const maxStopsPerTrip = params.maxStopsPerTrip ?? DEFAULT_MAX_STOPS_PER_TRIP;
 
-    sortedOrders.forEach(order => {
-      // Find available driver with least workload
-      const availableDriver = drivers
-        .filter(driver => driverWorkload[driver._id.toString()] < params.maxHoursPerDriver)
-        .sort((a, b) => driverWorkload[a._id.toString()] - driverWorkload[b._id.toString()])[0];
+    // A driver's next trip on a route: a break first if the trip would run past the
+    // continuous driving limit, then the drive slowed by fatigue (an overworked past week,
+    // and every hour driven since the last break) and by the departure's traffic band,
+    // plus a handoff for each extra stop. Random variation is left out of the projection.
+    const planTrip = (driverId: string, route: IRoute, stopCount: number) => {
+      const fatigue = driverFatigue[driverId];
+      const timingFrom = (departureMinute: number, continuousDrivingMinutes: number) => {
+        const slowdownFactor = (fatigue.weeklyFatigued ? rules.fatigueSlowdownFactor : 1)
+          * (1 + rules.fatigueSlowdownPerHour * continuousDrivingMinutes / 60);
+        const trafficBand = this.getTrafficBand(departureMinute, rules.trafficBands);
+        const driveMinutes = route.baseTimeMinutes * slowdownFactor * trafficBand.multipliers[route.trafficLevel as TrafficLevel];
+        return { departureMinute, slowdownFactor, trafficBand, driveMinutes };
+      };
 
-      if (!availableDriver) {
-        // No available drivers, skip this order (or could implement queue logic)
+      const handoffMinutes = (stopCount - 1) * rules.stopServiceMinutes;
+      const withoutBreak = timingFrom(driverClock[driverId], fatigue.continuousDrivingMinutes);
+      const takesBreak = fatigue.continuousDrivingMinutes > 0
+        && fatigue.continuousDrivingMinutes + withoutBreak.driveMinutes + handoffMinutes > rules.maxContinuousDrivingMinutes;
+      const timing = takesBreak ? timingFrom(driverClock[driverId] + rules.breakMinutes, 0) : withoutBreak;
+      return { ...timing, takesBreak, handoffMinutes, projectedMinutes: timing.driveMinutes + handoffMinutes };
+    };
+
+    // A trip is only handed to a driver it would not take past the daily driving limit
+    const fitsDailyLimit = (driverId: string, trip: ReturnType<typeof planTrip>) =>
+      dailyDrivingHours[driverId] + trip.projectedMinutes / 60 <= rules.dailyDrivingLimitHours;
+
+    // Orders already loaded as later stops of an earlier trip
+    const batchedOrders = new Set<unknown>();
+    let tripNumber = 0;
+
+    queue.forEach((order, position) => {
+      if (batchedOrders.has(order)) {
         return;
       }
 
       const route = order.routeId;
-      const driverId = availableDriver._id.toString();
 
-      // Calculate delivery time considering driver fatigue
-      let baseDeliveryTime = route.baseTimeMinutes;
-      
-      // Driver fatigue rule: >8 hours -> 30% speed decrease (more time needed)
-      if (availableDriver.pastWeekHours > 8 * 7) { // More than 8 hours average per day in past week
-        baseDeliveryTime *= 1.3; // 30% increase in time
+      const driversWithHours = drivers
+        .map((driver, index) => ({
+          driver,
+          index,
+          workloadHours: driverWorkload[driver._id.toString()],
+          deliveries: driverDeliveries[driver._id.toString()]
+        }))
+        .filter(candidate => hasHoursLeft(candidate.driver._id.toString()));
+      const withinDailyLimit = driversWithHours.filter(candidate =>
+        fitsDailyLimit(candidate.driver._id.toString(), planTrip(candidate.driver._id.toString(), route, 1)));
+      const candidates = withinDailyLimit.filter(candidate => this.canCarry(candidate.driver.vehicleId, [order]));
+      const availableDriver = candidates.length > 0 ? drivers[strategy.selectDriver(candidates).index] : undefined;
+
+      if (!availableDriver) {
+        // Nobody can take it; record the order so it still counts against the run
+        unassignedOrders.push({
+          orderId: order._id.toString(),
+          routeId: route._id.toString(),
+          routeName: route.name,
+          orderValue: order.valueRs,
+          estimatedDeliveryTime: route.baseTimeMinutes,
+          reason: withinDailyLimit.length > 0
+            ? 'over_capacity'
+            : driversWithHours.length > 0
+              ? 'daily_limit' // the trip would take every driver with hours left past the limit
+              : !anyDriverAvailable
+                ? 'no_drivers'
+                : drivers.some(driver => driverWorkload[driver._id.toString()] < params.maxHoursPerDriver) ? 'daily_limit' : 'hours_cap'
+        });
+        return;
       }
 
-      // Traffic impact on time
-      switch (route.trafficLevel) {
-        case 'High':
-          baseDeliveryTime *= 1.5;
-          break;
-        case 'Medium':
-          baseDeliveryTime *= 1.2;
+      const driverId = String(availableDriver._id);
+
+      // Load later orders on the same route, in queue order, while the vehicle has room
+      // and the longer trip still fits the driver's remaining hours and daily driving limit.
+      // Orders on other routes, however close, always go on a trip of their own.
+      const stops = [order];
+      const fitsRemainingHours = (trip: ReturnType<typeof planTrip>) =>
+        driverWorkload[driverId] + trip.projectedMinutes / 60 <= params.maxHoursPerDriver && fitsDailyLimit(driverId, trip);
+      for (const next of queue.slice(position + 1)) {
+        if (stops.length >= maxStopsPerTrip) {
           break;
-        // Low traffic - no change
+        }
+        if (!batchedOrders.has(next)
+          && next.routeId._id.toString() === route._id.toString()
+          && this.canCarry(availableDriver.vehicleId, [...stops, next])) {
+          if (!fitsRemainingHours(planTrip(driverId, route, stops.length + 1))) {
+            break;
+          }
+          stops.push(next);
+          batchedOrders.add(next);
+        }
       }
+      tripNumber++;
 
-      const estimatedTime = baseDeliveryTime;
-      const actualTime = this.simulateActualDeliveryTime(estimatedTime);
-      
-      // Check if delivery is on time (within 10 minutes of base time)
-      const isOnTime = actualTime <= (route.baseTimeMinutes + 10);
-
-      // Calculate costs and bonuses
-      const fuelCost = this.calculateFuelCost(route);
-      const penalty = isOnTime ? 0 : 50; // ₹50 late delivery penalty
-      const bonus = this.calculateBonus(order.valueRs, isOnTime);
-
-      const assignment: DeliveryAssignment = {
-        orderId: order._id.toString(),
-        driverId: driverId,
-        routeId: route._id.toString(),
-        estimatedDeliveryTime: estimatedTime,
-        actualDeliveryTime: actualTime,
-        isOnTime,
-        orderValue: order.valueRs,
-        fuelCost,
-        bonus,
-        penalty
+      const fatigue = driverFatigue[driverId];
+
+      // Mandatory break before a trip that would run past the continuous driving limit
+      const trip = planTrip(driverId, route, stops.length);
+      if (trip.takesBreak) {
+        fatigue.breaks.push({ startMinute: driverClock[driverId], endMinute: trip.departureMinute });
+        fatigue.continuousDrivingMinutes = 0;
+      }
+      const { departureMinute, trafficBand, handoffMinutes: tripHandoffMinutes } = trip;
+      fatigue.peakSlowdownFactor = Math.max(fatigue.peakSlowdownFactor, trip.slowdownFactor);
+
+      // The route is driven once per trip; each extra stop adds a handoff
+      const estimatedTime = trip.driveMinutes;
+      const actualTime = this.simulateActualDeliveryTime(estimatedTime, random);
+
+      // One trip's fuel is shared equally by its stops
+      const tripFuelCost = this.calculateFuelCost(route, rules, availableDriver.vehicleId);
+      const fuelCost: FuelCostBreakdown = {
+        baseCost: tripFuelCost.baseCost / stops.length,
+        trafficSurcharge: tripFuelCost.trafficSurcharge / stops.length,
+        total: tripFuelCost.total / stops.length
       };
 
-      assignments.push(assignment);
+      let completionMinute = departureMinute;
+      stops.forEach((stop, stopIndex) => {
+        const handoffMinutes = stopIndex * rules.stopServiceMinutes;
+        const arrivalMinute = stopIndex === 0
+          ? departureMinute + actualTime
+          : completionMinute + rules.stopServiceMinutes;
+
+        // Judge lateness against the end of the order's window, or its delivery time
+        const deadlineMinute = toSimulationMinute(stop.deliveryWindowEnd ?? stop.deliveryTimestamp, startMinute);
+        const windowStartMinute = this.getWindowStartMinute(stop.deliveryWindowStart, deadlineMinute, startMinute);
+
+        // Arriving before the window opens means waiting for it
+        completionMinute = Math.max(arrivalMinute, windowStartMinute ?? arrivalMinute);
+        const isOnTime = completionMinute <= deadlineMinute + rules.lateGraceMinutes;
+
+        // Calculate penalties and bonuses
+        const slaClass: SlaClass = stop.slaClass ?? 'Standard';
+        const penalty = isOnTime ? 0 : this.getLatePenalty(slaClass, rules);
+        const bonus = this.calculateBonus(stop.valueRs, isOnTime, rules);
+
+        assignments.push({
+          orderId: stop._id.toString(),
+          driverId: driverId,
+          driverName: availableDriver.name,
+          routeId: route._id.toString(),
+          routeName: route.name,
+          estimatedDeliveryTime: estimatedTime + handoffMinutes,
+          actualDeliveryTime: completionMinute - departureMinute,
+          startMinute: departureMinute,
+          endMinute: completionMinute,
+          deadlineMinute,
+          windowStartMinute,
+          slaClass,
+          tripNumber,
+          stopNumber: stopIndex + 1,
+          trafficBand: trafficBand.name,
+          trafficLevel: route.trafficLevel as TrafficLevel,
+          isOnTime,
+          orderValue: stop.valueRs,
+          fuelBaseCost: fuelCost.baseCost,
+          fuelTrafficSurcharge: fuelCost.trafficSurcharge,
+          fuelCost: fuelCost.total,
+          bonus,
+          penalty,
+          profit: stop.valueRs + bonus - penalty - fuelCost.total
+        });
+      });
       
-      // Update driver workload
-      driverWorkload[driverId] += actualTime / 60; // Convert minutes to hours
+      // Update driver workload and fatigue, and advance their clock to the next departure.
+      // The workload takes the whole trip; fatigue and the daily limit only the driving
+      // and handoffs, not waits for delivery windows.
+      const tripMinutes = completionMinute - departureMinute;
+      const drivenMinutes = actualTime + tripHandoffMinutes;
+      if (fatigue.dailyLimitReachedMinute === null
+        && dailyDrivingHours[driverId] + drivenMinutes / 60 >= rules.dailyDrivingLimitHours) {
+        // Crossed part-way through the trip, which is still finished
+        fatigue.dailyLimitReachedMinute = Math.round(departureMinute + (rules.dailyDrivingLimitHours - dailyDrivingHours[driverId]) * 60);
+      }
+      driverWorkload[driverId] += tripMinutes / 60; // Convert minutes to hours
+      dailyDrivingHours[driverId] += drivenMinutes / 60;
+      fatigue.drivingMinutes += drivenMinutes;
+      fatigue.continuousDrivingMinutes += drivenMinutes;
+      driverClock[driverId] = completionMinute;
+      driverDeliveries[driverId] += stops.length;
     });
 
-    return assignments;
+    return {
+      assignments,
+      unassignedOrders,
+      driverFatigue: drivers.map(driver => {
+        const fatigue = driverFatigue[driver._id.toString()];
+        return {
+          ...fatigue,
+          shiftHours: Math.round(driverWorkload[driver._id.toString()] * 100) / 100,
+          drivingMinutes: Math.round(fatigue.drivingMinutes),
+          continuousDrivingMinutes: Math.round(fatigue.continuousDrivingMinutes),
+          peakSlowdownFactor: Math.round(fatigue.peakSlowdownFactor * 100) / 100
+        };
+      })
+    };
+  }
+
+  // Replay each driver's deliveries and breaks on the clock. A driver with hours left sits
+  // idle until the last delivery of the run ends; one who reached the cap is off shift.
+  private buildDriverTimelines(
+    drivers: SimulationData['drivers'],
+    assignments: DeliveryAssignment[],
+    driverFatigue: DriverFatigue[],
+    params: SimulationParams
+  ): DriverTimeline[] {
+    const startMinute = parseClockTime(params.routeStartTime);
+    const runEndMinute = assignments.reduce((latest, assignment) => Math.max(latest, assignment.endMinute), startMinute);
+
+    return drivers.map(driver => {
+      const driverId = String(driver._id);
+      const segments: TimelineSegment[] = [];
+      let clock = startMinute;
+      let workloadHours = driver.currentShiftHours;
+      let capReachedMinute = workloadHours >= params.maxHoursPerDriver ? startMinute : null;
+      const breaks = driverFatigue.find(fatigue => fatigue.driverId === driverId)?.breaks ?? [];
+
+      assignments
+        .filter(assignment => assignment.driverId === driverId)
+        .forEach(assignment => {
+          // A break is taken straight after the previous trip
+          const rest = breaks.find(period => period.startMinute === clock && period.endMinute <= assignment.startMinute);
+          if (rest) {
+            segments.push({ type: 'break', startMinute: rest.startMinute, endMinute: rest.endMinute });
+            clock = rest.endMinute;
+          }
+          if (assignment.startMinute > clock) {
+            segments.push({ type: 'idle', startMinute: clock, endMinute: assignment.startMinute });
+          }
+          // Later stops of a trip start where the previous stop ended
+          const segmentStart = Math.max(assignment.startMinute, clock);
+          segments.push({
+            type: 'delivery',
+            startMinute: segmentStart,
+            endMinute: assignment.endMinute,
+            orderId: assignment.orderId,
+            routeName: assignment.routeName,
+            isOnTime: assignment.isOnTime
+          });
+
+          // The cap is usually crossed part-way through a delivery, which is still finished
+          const hoursAfter = workloadHours + (assignment.endMinute - segmentStart) / 60;
+          if (capReachedMinute === null && hoursAfter >= params.maxHoursPerDriver) {
+            capReachedMinute = Math.round(segmentStart + (params.maxHoursPerDriver - workloadHours) * 60);
+          }
+          workloadHours = hoursAfter;
+          clock = assignment.endMinute;
+        });
+
+      if (capReachedMinute === null && clock < runEndMinute) {
+        segments.push({ type: 'idle', startMinute: clock, endMinute: runEndMinute });
+      }
+
+      const minutesOf = (type: TimelineSegment['type']) => segments
+        .filter(segment => segment.type === type)
+        .reduce((sum, segment) => sum + segment.endMinute - segment.startMinute, 0);
+
+      return {
+        driverId,
+        driverName: driver.name,
+        startingHours: driver.currentShiftHours,
+        segments,
+        workMinutes: minutesOf('delivery'),
+        idleMinutes: minutesOf('idle'),
+        capReachedMinute
+      };
+    });
+  }
+
+  private getTrafficBand(minute: number, bands: TrafficBand[]): TrafficBand {
+    const hour = Math.floor((minute % MINUTES_PER_DAY) / 60);
+    return bands.find(band =>
+      band.startHour < band.endHour
+        ? hour >= band.startHour && hour < band.endHour
+        : hour >= band.startHour || hour < band.endHour
+    ) ?? NEUTRAL_TRAFFIC_BAND;
   }
 
-  private simulateActualDeliveryTime(estimatedTime: number): number {
+  // Placed on the same simulated day as the deadline, so a window never opens after it
+  // closes; a window already open when the run starts opens at the start
+  private getWindowStartMinute(windowStart: Date | undefined, deadlineMinute: number, startMinute: number): number | null {
+    if (!windowStart) {
+      return null;
+    }
+    const minute = toSimulationMinute(windowStart, startMinute);
+    return Math.max(startMinute, minute > deadlineMinute ? minute - MINUTES_PER_DAY : minute);
+  }
+
+  private getLatePenalty(slaClass: SlaClass, rules: BusinessRules): number {
+    switch (slaClass) {
+      case 'Express':
+        return rules.expressLatePenaltyRs;
+      case 'Economy':
+        return rules.economyLatePenaltyRs;
+      default:
+        return rules.latePenaltyRs;
+    }
+  }
+
+  private simulateActualDeliveryTime(estimatedTime: number, random: RandomGenerator): number {
     // Add some randomness to simulate real-world delivery variations (±20%)
     const variation = 0.2;
-    const randomFactor = 1 + (Math.random() - 0.5) * variation;
+    const randomFactor = 1 + (random() - 0.5) * variation;
     return Math.round(estimatedTime * randomFactor);
   }
 
-  private calculateFuelCost(route: any): number {
-    const baseCost = route.distanceKm * 5; // ₹5 per km
-    const trafficSurcharge = route.trafficLevel === 'High' ? route.distanceKm * 2 : 0; // ₹2/km for high traffic
-    return baseCost + trafficSurcharge;
+  // Whether a vehicle can hold these orders at once; drivers without a vehicle can carry anything
+  private canCarry(vehicle: IVehicle | null, orders: { weightKg?: number; parcels?: number }[]): boolean {
+    if (!vehicle) {
+      return true;
+    }
+    const weightKg = orders.reduce((sum, order) => sum + (order.weightKg ?? 0), 0);
+    const parcels = orders.reduce((sum, order) => sum + (order.parcels ?? 1), 0);
+    return weightKg <= vehicle.capacityKg && parcels <= vehicle.capacityParcels;
+  }
+
+  // A vehicle's own cost per km replaces the rule set's base rate; the traffic surcharge still applies
+  private calculateFuelCost(route: IRoute, rules: BusinessRules, vehicle: IVehicle | null): FuelCostBreakdown {
+    const baseCost = route.distanceKm * (vehicle?.fuelCostPerKm ?? rules.fuelBaseRatePerKm);
+    const trafficSurcharge = route.trafficLevel === 'High' ? route.distanceKm * rules.fuelHighTrafficSurchargePerKm : 0;
+    return { baseCost, trafficSurcharge, total: baseCost + trafficSurcharge };
   }
 
-  private calculateBonus(orderValue: number, isOnTime: boolean): number {
-    // High-value bonus: >₹1000 and on-time -> +10% bonus
-    if (orderValue > 1000 && isOnTime) {
-      return orderValue * 0.1;
+  private calculateBonus(orderValue: number, isOnTime: boolean, rules: BusinessRules): number {
+    // High-value bonus: on-time orders above the threshold earn a share of their value
+    if (orderValue > rules.highValueThresholdRs && isOnTime) {
+      return orderValue * rules.highValueBonusRate;
     }
     return 0;
   }
 
-  private calculateResults(assignments: DeliveryAssignment[]): SimulationResult {
+  private calculateResults(
+    assignments: DeliveryAssignment[],
+    unassignedOrders: UnassignedOrder[],
+    driverCount: number,
+    params: SimulationParams
+  ): Omit<SimulationResult, 'driverTimelines' | 'driverFatigue' | 'excludedDrivers' | 'ruleSet'> {
     let totalProfit = 0;
     let onTimeDeliveries = 0;
     let lateDeliveries = 0;
-    let totalBaseFuelCost = 0;
-    let totalTrafficSurcharge = 0;
+    const fuelCostBreakdown = emptyFuelCost();
+    const fuelCostByTrafficLevel: Record<TrafficLevel, FuelCostBreakdown> = {
+      Low: emptyFuelCost(),
+      Medium: emptyFuelCost(),
+      High: emptyFuelCost()
+    };
+    const fuelCostByRoute = new Map<string, RouteFuelCost>();
+    const trips = new Map<number, DeliveryAssignment[]>();
 
     assignments.forEach(assignment => {
-      // Calculate profit: order value + bonus - penalty - fuel cost
-      const deliveryProfit = assignment.orderValue + assignment.bonus - assignment.penalty - assignment.fuelCost;
-      totalProfit += deliveryProfit;
+      totalProfit += assignment.profit;
+
+      if (!trips.has(assignment.tripNumber)) {
+        trips.set(assignment.tripNumber, []);
+      }
+      trips.get(assignment.tripNumber)!.push(assignment);
 
       // Count deliveries
       if (assignment.isOnTime) {
@@ -178,25 +952,91 @@ export class SimulationEngine {
         lateDeliveries++;
       }
 
-      // Accumulate fuel costs (we need to break down base vs surcharge)
-      // This is an approximation since we don't store the breakdown in assignment
-      totalBaseFuelCost += assignment.fuelCost * 0.7; // Approximate 70% as base cost
-      totalTrafficSurcharge += assignment.fuelCost * 0.3; // Approximate 30% as traffic surcharge
+      // Accumulate fuel costs overall, per traffic level and per route
+      if (!fuelCostByRoute.has(assignment.routeId)) {
+        fuelCostByRoute.set(assignment.routeId, {
+          routeId: assignment.routeId,
+          routeName: assignment.routeName,
+          trafficLevel: assignment.trafficLevel,
+          deliveries: 0,
+          ...emptyFuelCost()
+        });
+      }
+      const routeFuelCost = fuelCostByRoute.get(assignment.routeId)!;
+      routeFuelCost.deliveries++;
+
+      [fuelCostBreakdown, fuelCostByTrafficLevel[assignment.trafficLevel], routeFuelCost].forEach(bucket => {
+        bucket.baseCost += assignment.fuelBaseCost;
+        bucket.trafficSurcharge += assignment.fuelTrafficSurcharge;
+        bucket.total += assignment.fuelCost;
+      });
     });
 
-    const totalDeliveries = onTimeDeliveries + lateDeliveries;
+    // Unassigned orders count as missed, so a short-staffed run can't score well
+    const totalDeliveries = onTimeDeliveries + lateDeliveries + unassignedOrders.length;
     const efficiencyScore = totalDeliveries > 0 ? (onTimeDeliveries / totalDeliveries) * 100 : 0;
 
+    const lostRevenue = unassignedOrders.reduce((sum, order) => sum + order.orderValue, 0);
+    const uncoveredHours = unassignedOrders.reduce((sum, order) => sum + order.estimatedDeliveryTime, 0) / 60;
+    const driversNeeded = driverCount + Math.ceil(uncoveredHours / params.maxHoursPerDriver);
+
+    // Unbatched, every stop would pay the whole trip's fuel and drive the route itself
+    let fuelSaved = 0;
+    let minutesSaved = 0;
+    trips.forEach(stops => {
+      const tripFuelCost = stops.reduce((sum, stop) => sum + stop.fuelCost, 0);
+      fuelSaved += tripFuelCost * (stops.length - 1);
+      minutesSaved += stops.length * stops[0].actualDeliveryTime - stops[stops.length - 1].actualDeliveryTime;
+    });
+
     return {
       totalProfit: Math.round(totalProfit * 100) / 100, // Round to 2 decimal places
       efficiencyScore: Math.round(efficiencyScore * 10) / 10, // Round to 1 decimal place
       onTimeDeliveries,
       lateDeliveries,
-      fuelCostBreakdown: {
-        baseCost: Math.round(totalBaseFuelCost * 100) / 100,
-        trafficSurcharge: Math.round(totalTrafficSurcharge * 100) / 100,
-        total: Math.round((totalBaseFuelCost + totalTrafficSurcharge) * 100) / 100
-      }
+      unassignedDeliveries: unassignedOrders.length,
+      lostRevenue: Math.round(lostRevenue * 100) / 100,
+      driversNeeded,
+      fuelCostBreakdown: roundFuelCost(fuelCostBreakdown),
+      fuelCostByTrafficLevel: {
+        Low: roundFuelCost(fuelCostByTrafficLevel.Low),
+        Medium: roundFuelCost(fuelCostByTrafficLevel.Medium),
+        High: roundFuelCost(fuelCostByTrafficLevel.High)
+      },
+      fuelCostByRoute: [...fuelCostByRoute.values()]
+        .map(routeFuelCost => ({ ...routeFuelCost, ...roundFuelCost(routeFuelCost) }))
+        .sort((a, b) => b.total - a.total),
+      tripStats: {
+        trips: trips.size,
+        averageStopsPerTrip: trips.size > 0 ? Math.round((assignments.length / trips.size) * 100) / 100 : 0,
+        fuelSaved: Math.round(fuelSaved * 100) / 100,
+        minutesSaved: Math.round(minutesSaved)
+      },
+      assignments,
+      unassignedOrders
     };
   }
-}
\ No newline at end of file
+
+  // Mean fuel cost per route across a batch; a route missing from a run counts as zero for it
+  private averageRouteFuelCosts(runs: SimulationResult[]): RouteFuelCost[] {
+    const routes = new Map<string, RouteFuelCost>();
+    runs.forEach(run => run.fuelCostByRoute.forEach(routeFuelCost => {
+      if (!routes.has(routeFuelCost.routeId)) {
+        routes.set(routeFuelCost.routeId, { ...routeFuelCost });
+      }
+    }));
+
+    return [...routes.values()]
+      .map(route => {
+        const perRun = runs.map(run =>
+          run.fuelCostByRoute.find(routeFuelCost => routeFuelCost.routeId === route.routeId)
+        );
+        return {
+          ...route,
+          deliveries: Math.round(mean(perRun.map(routeFuelCost => routeFuelCost?.deliveries ?? 0))),
+          ...averageFuelCost(perRun.map(routeFuelCost => routeFuelCost ?? emptyFuelCost()))
+        };
+      })
+      .sort((a, b) => b.total - a.total);
+  }
+}
@@ -0,0 +1,162 @@
+import { EventEmitter } from 'events';
+import SimulationJob, { ISimulationJob } from '../models/SimulationJob.js';
+import SimulationResult from '../models/SimulationResult.js';
+import { SimulationCancelledError, SimulationEngine, SimulationParams } from './simulationEngine.js';
+
+export interface SimulationJobInput {
+  simulationParams: Required<Omit<SimulationParams, 'ruleSetId'>> & Pick<SimulationParams, 'ruleSetId'>;
+  iterations?: number;
+  createdBy?: string;
+}
+
+type JobListener = (job: Record<string, unknown>) => void;
+
+// In-process queue: jobs run one at a time, in the order they were submitted
+const queue: string[] = [];
+const runningJobs = new Map<string, AbortController>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+let isProcessing = false;
+
+const engine = new SimulationEngine();
+
+// Progress is streamed on every update but only written to the database this often
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+const publish = (job: ISimulationJob) => {
+  jobEvents.emit(String(job._id), job.toJSON());
+};
+
+export const subscribeToJob = (jobId: string, listener: JobListener): (() => void) => {
+  jobEvents.on(jobId, listener);
+  return () => jobEvents.off(jobId, listener);
+};
+
+const runJob = async (jobId: string, controller: AbortController) => {
+  const job = await SimulationJob.findById(jobId);
+  if (!job || job.status !== 'queued') {
+    return;
+  }
+
+  job.status = 'running';
+  job.startedAt = new Date();
+  await job.save();
+  publish(job);
+
+  let lastSavedAt = Date.now();
+  const onProgress = (completed: number, total: number) => {
+    job.progress = { completed, total };
+    publish(job);
+    if (Date.now() - lastSavedAt >= PROGRESS_SAVE_INTERVAL_MS) {
+      lastSavedAt = Date.now();
+      SimulationJob.updateOne({ _id: job._id }, { progress: job.progress })
+        .catch(error => console.error('Error saving simulation job progress:', error));
+    }
+  };
+
+  try {
+    const { ruleSetId, ...storedParams } = job.toObject().simulationParams;
+    const params = { ...storedParams, ruleSetId: ruleSetId ? String(ruleSetId) : undefined };
+    const options = { onProgress, signal: controller.signal };
+    const result = job.mode === 'monte-carlo'
+      ? await engine.runMonteCarlo(params, job.iterations!, options)
+      : await engine.runSimulation(params, options);
+
+    const simulationResult = new SimulationResult({
+      ...result,
+      mode: job.mode,
+      simulationParams: params,
+      timestamp: new Date()
+    });
+    await simulationResult.save();
+
+    job.status = 'completed';
+    job.resultId = simulationResult._id as ISimulationJob['resultId'];
+  } catch (error) {
+    if (error instanceof SimulationCancelledError) {
+      job.status = 'cancelled';
+    } else {
+      console.error('Simulation job error:', error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  job.finishedAt = new Date();
+  await job.save();
+  publish(job);
+};
+
+const processQueue = async () => {
+  if (isProcessing) {
+    return;
+  }
+
+  isProcessing = true;
+  try {
+    while (queue.length > 0) {
+      const jobId = queue.shift()!;
+      // Registered before the job loads, so a cancel can never slip between the two
+      const controller = new AbortController();
+      runningJobs.set(jobId, controller);
+      try {
+        await runJob(jobId, controller);
+      } catch (error) {
+        console.error('Error running simulation job:', error);
+      } finally {
+        runningJobs.delete(jobId);
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+};
+
+export const enqueueSimulationJob = async (input: SimulationJobInput): Promise<ISimulationJob> => {
+  const job = new SimulationJob({
+    mode: input.iterations ? 'monte-carlo' : 'single',
+    simulationParams: input.simulationParams,
+    iterations: input.iterations,
+    progress: { completed: 0, total: input.iterations ?? 1 },
+    createdBy: input.createdBy
+  });
+  await job.save();
+
+  queue.push(String(job._id));
+  void processQueue();
+  return job;
+};
+
+// Queued jobs are dropped from the queue; a running job stops before its next iteration
+export const cancelSimulationJob = async (job: ISimulationJob): Promise<ISimulationJob> => {
+  const jobId = String(job._id);
+
+  const controller = runningJobs.get(jobId);
+  if (controller) {
+    controller.abort();
+    return job;
+  }
+
+  const index = queue.indexOf(jobId);
+  if (index !== -1) {
+    queue.splice(index, 1);
+  }
+  job.status = 'cancelled';
+  job.finishedAt = new Date();
+  await job.save();
+  publish(job);
+  return job;
+};
+
+// Jobs only live in this process: anything mid-run when the server stopped has
+// failed, while jobs still waiting their turn are queued again.
+export const recoverSimulationJobs = async (): Promise<void> => {
+  await SimulationJob.updateMany(
+    { status: 'running' },
+    { status: 'failed', error: 'Interrupted by a server restart', finishedAt: new Date() }
+  );
+
+  const pending = await SimulationJob.find({ status: 'queued' }).sort({ createdAt: 1 }).select('_id');
+  pending.forEach(job => queue.push(String(job._id)));
+  void processQueue();
+};
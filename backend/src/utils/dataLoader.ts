@@ -1,39 +1,23 @@
 import fs from 'fs';
 import path from 'path';
-import csv from 'csv-parser';
 import { fileURLToPath } from 'url';
 import Driver from '../models/Driver.js';
 import Route from '../models/Route.js';
 import Order from '../models/Order.js';
 import User from '../models/User.js';
+import { ImportEntity, importCsv } from '../services/csvImport.js';
+import { getActiveRuleSet } from '../services/ruleSets.js';
 
-const __filename = fileURLToPath(import.meta.URL);
+const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-interface CSVDriver {
-  name: string;
-  currentShiftHours: string;
-  pastWeekHours: string;
-}
-
-interface CSVRoute {
-  name: string;
-  distanceKm: string;
-  trafficLevel: string;
-  baseTimeMinutes: string;
-}
-
-interface CSVOrder {
-  valueRs: string;
-  routeName: string;
-  deliveryDate: string;
-  status?: string;
-}
-
 export const loadInitialData = async (): Promise<void> => {
   try {
     // Create default admin user
     await createDefaultUser();
+
+    // Make sure simulations have a rule set to run under
+    await getActiveRuleSet();
     
     // Check if data already exists
     const driverCount = await Driver.countDocuments();
@@ -53,17 +37,17 @@ export const loadInitialData = async (): Promise<void> => {
     
     // Load drivers
     if (driverCount === 0) {
-      await loadDriversFromCSV(path.join(csvDataPath, 'drivers.csv'));
+      await loadFromCSV('drivers', path.join(csvDataPath, 'drivers.csv'));
     }
     
     // Load routes
     if (routeCount === 0) {
-      await loadRoutesFromCSV(path.join(csvDataPath, 'routes.csv'));
+      await loadFromCSV('routes', path.join(csvDataPath, 'routes.csv'));
     }
     
     // Load orders
     if (orderCount === 0) {
-      await loadOrdersFromCSV(path.join(csvDataPath, 'orders.csv'));
+      await loadFromCSV('orders', path.join(csvDataPath, 'orders.csv'));
     }
     
     console.log('✅ Initial data loaded successfully');
@@ -122,17 +106,17 @@ Shopping Complex,14.7,High,50
 Medical District,7.2,Medium,28`;
 
   // Sample orders data
-  const ordersCSV = `valueRs,routeName,deliveryDate,status
-1250.00,Downtown to Mall,2024-01-15T10:30:00Z,Pending
-750.50,Airport Route,2024-01-15T14:15:00Z,Pending
-2100.75,Suburban Loop,2024-01-15T09:00:00Z,In Progress
-890.25,Industrial Zone,2024-01-15T16:45:00Z,Pending
-1500.00,City Center Express,2024-01-15T11:20:00Z,Delivered
-675.80,University District,2024-01-15T13:30:00Z,Pending
-3200.50,Business Park,2024-01-15T08:45:00Z,In Progress
-450.25,Residential Area,2024-01-15T15:10:00Z,Late
-1800.90,Shopping Complex,2024-01-15T12:00:00Z,Pending
-925.75,Medical District,2024-01-15T17:30:00Z,Pending`;
+  const ordersCSV = `externalRef,valueRs,routeName,deliveryDate,status
+ORD-001,1250.00,Downtown to Mall,2024-01-15T10:30:00Z,Pending
+ORD-002,750.50,Airport Route,2024-01-15T14:15:00Z,Pending
+ORD-003,2100.75,Suburban Loop,2024-01-15T09:00:00Z,In Progress
+ORD-004,890.25,Industrial Zone,2024-01-15T16:45:00Z,Pending
+ORD-005,1500.00,City Center Express,2024-01-15T11:20:00Z,Delivered
+ORD-006,675.80,University District,2024-01-15T13:30:00Z,Pending
+ORD-007,3200.50,Business Park,2024-01-15T08:45:00Z,In Progress
+ORD-008,450.25,Residential Area,2024-01-15T15:10:00Z,Late
+ORD-009,1800.90,Shopping Complex,2024-01-15T12:00:00Z,Pending
+ORD-010,925.75,Medical District,2024-01-15T17:30:00Z,Pending`;
 
   const driversPath = path.join(csvDataPath, 'drivers.csv');
   const routesPath = path.join(csvDataPath, 'routes.csv');
@@ -149,100 +133,19 @@ Medical District,7.2,Medium,28`;
   }
 };
 
-const loadDriversFromCSV = (filePath: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const drivers: CSVDriver[] = [];
-    
-    fs.createReadStream(filePath)
-      .pipe(csv())
-      .on('data', (data: CSVDriver) => {
-        drivers.push(data);
-      })
-      .on('end', async () => {
-        try {
-          for (const driverData of drivers) {
-            const driver = new Driver({
-              name: driverData.name,
-              currentShiftHours: parseFloat(driverData.currentShiftHours),
-              pastWeekHours: parseFloat(driverData.pastWeekHours)
-            });
-            await driver.save();
-          }
-          console.log(`✅ Loaded ${drivers.length} drivers from CSV`);
-          resolve();
-        } catch (error) {
-          reject(error);
-        }
-      })
-      .on('error', reject);
-  });
-};
-
-const loadRoutesFromCSV = (filePath: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const routes: CSVRoute[] = [];
-    
-    fs.createReadStream(filePath)
-      .pipe(csv())
-      .on('data', (data: CSVRoute) => {
-        routes.push(data);
-      })
-      .on('end', async () => {
-        try {
-          for (const routeData of routes) {
-            const route = new Route({
-              name: routeData.name,
-              distanceKm: parseFloat(routeData.distanceKm),
-              trafficLevel: routeData.trafficLevel as 'Low' | 'Medium' | 'High',
-              baseTimeMinutes: parseInt(routeData.baseTimeMinutes)
-            });
-            await route.save();
-          }
-          console.log(`✅ Loaded ${routes.length} routes from CSV`);
-          resolve();
-        } catch (error) {
-          reject(error);
-        }
-      })
-      .on('error', reject);
-  });
+// Seed files go through the same validation as uploads; a file with any bad row
+// loads nothing and its errors are logged. Collections are empty here, so every
+// row is inserted.
+const loadFromCSV = async (entity: ImportEntity, filePath: string): Promise<void> => {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  const report = await importCsv(entity, text, { mode: 'insert', dryRun: false, importedBy: 'system' });
+
+  if (report.rowsWithErrors > 0) {
+    console.error(`❌ ${entity}.csv has ${report.rowsWithErrors} invalid rows, nothing loaded`);
+    report.rows
+      .filter(row => row.errors.length > 0)
+      .forEach(row => console.error(`   Row ${row.row}: ${row.errors.join('; ')}`));
+    return;
+  }
+  console.log(`✅ Loaded ${report.summary.created} ${entity} from CSV`);
 };
-
-const loadOrdersFromCSV = (filePath: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const orders: CSVOrder[] = [];
-    
-    fs.createReadStream(filePath)
-      .pipe(csv())
-      .on('data', (data: CSVOrder) => {
-        orders.push(data);
-      })
-      .on('end', async () => {
-        try {
-          const routes = await Route.find();
-          const routeMap = new Map(routes.map(route => [route.name, route._id]));
-
-          for (const orderData of orders) {
-            const routeId = routeMap.get(orderData.routeName);
-            if (!routeId) {
-              console.warn(`Route "${orderData.routeName}" not found, skipping order`);
-              continue;
-            }
-
-            const order = new Order({
-              valueRs: parseFloat(orderData.valueRs),
-              routeId: routeId,
-              deliveryTimestamp: new Date(orderData.deliveryDate),
-              status: orderData.status || 'Pending'
-            });
-            await order.save();
-          }
-          console.log(`✅ Loaded ${orders.length} orders from CSV`);
-          resolve();
-        } catch (error) {
-          reject(error);
-        }
-      })
-      .on('error', reject);
-  });
-};
\ No newline at end of file
@@ -0,0 +1,15 @@
+export const EARTH_RADIUS_KM = 6378.1;
+
+// GeoJSON positions are [longitude, latitude]
+export type Position = [number, number];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two positions
+export const haversineKm = ([lng1, lat1]: Position, [lng2, lat2]: Position): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
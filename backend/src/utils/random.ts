@@ -0,0 +1,18 @@
+export type RandomGenerator = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+// Pick a fresh seed for runs that did not ask for one, so they can still be replayed
+export const generateSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// Mulberry32 PRNG: small, fast and fully determined by its 32-bit seed
+export const createRandom = (seed: number): RandomGenerator => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
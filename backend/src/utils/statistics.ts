@@ -0,0 +1,50 @@
+export interface DistributionStats {
+  mean: number;
+  stddev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Population standard deviation
+export const stddev = (values: number[]): number => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - avg) ** 2)));
+};
+
+// Percentile with linear interpolation between closest ranks; expects sorted input
+export const percentile = (sortedValues: number[], p: number): number => {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+};
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const summarize = (values: number[], decimals = 2): DistributionStats => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: round(mean(values), decimals),
+    stddev: round(stddev(values), decimals),
+    min: round(sorted[0] ?? 0, decimals),
+    max: round(sorted[sorted.length - 1] ?? 0, decimals),
+    p5: round(percentile(sorted, 5), decimals),
+    p50: round(percentile(sorted, 50), decimals),
+    p95: round(percentile(sorted, 95), decimals)
+  };
+};
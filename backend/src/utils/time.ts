@@ -0,0 +1,22 @@
+export const MINUTES_PER_DAY = 24 * 60;
+
+// 'HH:mm' -> minutes since midnight
+export const parseClockTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes since midnight (server local time) of a timestamp
+export const minuteOfDay = (date: Date): number => {
+  const d = new Date(date);
+  return d.getHours() * 60 + d.getMinutes();
+};
+
+// A simulated day starts at the route start time and its clock keeps counting
+// past midnight. A deadline is placed at the first occurrence of its time of
+// day at or after the start, so an 08:30 deadline in a 22:00 shift falls on
+// the following morning.
+export const toSimulationMinute = (date: Date, startMinute: number): number => {
+  const minute = minuteOfDay(date);
+  return minute < startMinute ? minute + MINUTES_PER_DAY : minute;
+};
@@ -7,9 +7,17 @@ import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import Simulation from './pages/Simulation';
 import Drivers from './pages/Drivers';
+import Vehicles from './pages/Vehicles';
+import Schedules from './pages/Schedules';
 import Routes from './pages/Routes';
 import Orders from './pages/Orders';
+import OrderDetail from './pages/OrderDetail';
 import History from './pages/History';
+import Rules from './pages/Rules';
+import Compare from './pages/Compare';
+import Sweep from './pages/Sweep';
+import RunDetail from './pages/RunDetail';
+import Import from './pages/Import';
 
 function App() {
   return (
@@ -28,10 +36,18 @@ function App() {
                     <Routes>
                       <Route path="/dashboard" element={<Dashboard />} />
                       <Route path="/simulation" element={<Simulation />} />
+                      <Route path="/sweep" element={<Sweep />} />
                       <Route path="/drivers" element={<Drivers />} />
+                      <Route path="/vehicles" element={<Vehicles />} />
+                      <Route path="/schedules" element={<Schedules />} />
                       <Route path="/routes" element={<Routes />} />
                       <Route path="/orders" element={<Orders />} />
+                      <Route path="/orders/:id" element={<OrderDetail />} />
                       <Route path="/history" element={<History />} />
+                      <Route path="/history/:id" element={<RunDetail />} />
+                      <Route path="/compare" element={<Compare />} />
+                      <Route path="/rules" element={<Rules />} />
+                      <Route path="/import" element={<Import />} />
                       <Route path="*" element={<Navigate to="/dashboard" replace />} />
                     </Routes>
                   </main>
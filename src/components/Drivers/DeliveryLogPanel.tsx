@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { driversAPI, getApiErrorMessage } from '../../services/api';
+import { DeliveryLogEntry, Driver, DriverHours } from '../../types';
+import Button from '../UI/Button';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface DeliveryLogPanelProps {
+  driver: Driver;
+  onClose: () => void;
+  onHoursChange: (hours: DriverHours) => void;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const durationLabel = (delivery: DeliveryLogEntry) => {
+  const minutes = Math.round((new Date(delivery.completedAt).getTime() - new Date(delivery.startedAt).getTime()) / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const DeliveryLogPanel: React.FC<DeliveryLogPanelProps> = ({ driver, onClose, onHoursChange }) => {
+  const [hours, setHours] = useState<DriverHours | null>(null);
+  const [deliveries, setDeliveries] = useState<DeliveryLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [startedAt, setStartedAt] = useState('');
+  const [completedAt, setCompletedAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [driverHours, log] = await Promise.all([
+        driversAPI.getHours(driver._id!),
+        driversAPI.getDeliveries(driver._id!)
+      ]);
+      setHours(driverHours);
+      setDeliveries(log);
+      onHoursChange(driverHours);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to fetch delivery log'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [driver._id, onHoursChange]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleLog = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startedAt || !completedAt) {
+      toast.error('Enter when the delivery started and finished');
+      return;
+    }
+    if (new Date(completedAt) < new Date(startedAt)) {
+      toast.error('A delivery cannot finish before it starts');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await driversAPI.logDelivery(driver._id!, { startedAt: new Date(startedAt), completedAt: new Date(completedAt) });
+      toast.success('Delivery logged');
+      setStartedAt('');
+      setCompletedAt('');
+      await refresh();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to log delivery'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (deliveryId: string) => {
+    if (!confirm('Remove this delivery from the log?')) {
+      return;
+    }
+
+    try {
+      await driversAPI.deleteDelivery(driver._id!, deliveryId);
+      await refresh();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to remove delivery'));
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-xl shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto space-y-5">
+        <h3 className="text-lg font-semibold text-gray-900">{driver.name}'s Hours</h3>
+
+        {isLoading || !hours ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Last 24 hours</p>
+                <p className="text-xl font-semibold text-gray-900">{hours.currentShiftHours.toFixed(1)}h</p>
+                <p className="text-xs text-gray-500">{hours.deliveriesLast24h} deliveries</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Last 7 days</p>
+                <p className="text-xl font-semibold text-gray-900">{hours.pastWeekHours.toFixed(1)}h</p>
+                <p className="text-xs text-gray-500">{hours.deliveriesLast7d} deliveries</p>
+              </div>
+            </div>
+            {hours.source === 'manual' && (
+              <p className="text-xs text-amber-700">
+                No deliveries logged yet, so the hours entered on the driver are used. Logging a delivery switches this driver to logged hours.
+              </p>
+            )}
+
+            <form onSubmit={handleLog} className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Log a Completed Delivery</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Started</label>
+                  <input type="datetime-local" value={startedAt} onChange={e => setStartedAt(e.target.value)} className={inputClass} required />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Finished</label>
+                  <input type="datetime-local" value={completedAt} onChange={e => setCompletedAt(e.target.value)} className={inputClass} required />
+                </div>
+              </div>
+              <Button type="submit" size="sm" isLoading={isSaving} className="flex items-center space-x-1">
+                <Plus className="h-4 w-4" />
+                <span>Log Delivery</span>
+              </Button>
+            </form>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Recent Deliveries</p>
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing logged yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {deliveries.map(delivery => (
+                    <li key={delivery._id} className="flex items-center justify-between py-1.5">
+                      <span className="text-gray-700">
+                        {formatDateTime(delivery.startedAt)} → {formatDateTime(delivery.completedAt)}
+                        <span className="text-gray-400"> · {durationLabel(delivery)}</span>
+                      </span>
+                      <button
+                        onClick={() => handleRemove(delivery._id)}
+                        className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+
+        <Button type="button" variant="secondary" onClick={onClose} className="w-full">
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryLogPanel;
@@ -5,10 +5,15 @@ import {
   Truck, 
   BarChart3, 
   Play, 
+  Grid3x3, 
   Users, 
+  CalendarDays, 
+  Car, 
   Route, 
   Package, 
   History, 
+  SlidersHorizontal,
+  Upload,
   LogOut 
 } from 'lucide-react';
 
@@ -19,10 +24,15 @@ const Navbar: React.FC = () => {
   const navItems = [
     { path: '/dashboard', label: 'Dashboard', icon: BarChart3 },
     { path: '/simulation', label: 'Simulation', icon: Play },
+    { path: '/sweep', label: 'Sweep', icon: Grid3x3 },
     { path: '/drivers', label: 'Drivers', icon: Users },
+    { path: '/schedules', label: 'Schedules', icon: CalendarDays },
+    { path: '/vehicles', label: 'Vehicles', icon: Car },
     { path: '/routes', label: 'Routes', icon: Route },
     { path: '/orders', label: 'Orders', icon: Package },
     { path: '/history', label: 'History', icon: History },
+    { path: '/rules', label: 'Rules', icon: SlidersHorizontal },
+    { path: '/import', label: 'Import', icon: Upload },
   ];
 
   const isActive = (path: string) => location.pathname === path;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { routesAPI, getApiErrorMessage } from '../../services/api';
+import { Dependants, Route } from '../../types';
+import Button from '../UI/Button';
+import toast from 'react-hot-toast';
+
+interface DeleteRouteDialogProps {
+  route: Route;
+  dependants: Dependants;
+  routes: Route[];
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+// A route that orders still use can only go once those orders are moved or deleted
+const DeleteRouteDialog: React.FC<DeleteRouteDialogProps> = ({ route, dependants, routes, onClose, onDeleted }) => {
+  const otherRoutes = routes.filter(candidate => candidate._id !== route._id);
+  const [action, setAction] = useState<'reassign' | 'cascade'>(otherRoutes.length > 0 ? 'reassign' : 'cascade');
+  const [reassignTo, setReassignTo] = useState(otherRoutes[0]?._id ?? '');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const orderLabel = `${dependants.count} order${dependants.count === 1 ? '' : 's'}`;
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await routesAPI.delete(route._id!, action === 'cascade' ? { cascade: true } : { reassignTo });
+      toast.success(action === 'cascade'
+        ? `Route and its ${orderLabel} deleted`
+        : `Route deleted; ${orderLabel} moved to ${otherRoutes.find(candidate => candidate._id === reassignTo)?.name}`);
+      onDeleted();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to delete route'));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-xl shadow-xl max-w-md w-full mx-4 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Delete {route.name}</h3>
+        <p className="text-sm text-gray-600">
+          {orderLabel} use this route. Choose what happens to {dependants.count === 1 ? 'it' : 'them'} before the route is deleted.
+        </p>
+
+        <ul className="text-sm text-gray-600 divide-y divide-gray-100 max-h-40 overflow-y-auto border rounded-lg px-3">
+          {dependants.items.map((order, index) => (
+            <li key={index} className="py-1.5 flex justify-between">
+              <span>{(order.externalRef as string | null) ?? 'No reference'}</span>
+              <span className="text-gray-400">₹{Number(order.valueRs).toFixed(2)} · {order.status as string}</span>
+            </li>
+          ))}
+          {dependants.count > dependants.items.length && (
+            <li className="py-1.5 text-gray-400">and {dependants.count - dependants.items.length} more</li>
+          )}
+        </ul>
+
+        <div className="space-y-2 text-sm">
+          <label className={`flex items-center space-x-2 ${otherRoutes.length === 0 ? 'opacity-50' : ''}`}>
+            <input
+              type="radio"
+              checked={action === 'reassign'}
+              onChange={() => setAction('reassign')}
+              disabled={otherRoutes.length === 0}
+            />
+            <span>Move the orders to</span>
+            <select
+              value={reassignTo}
+              onChange={e => setReassignTo(e.target.value)}
+              disabled={action !== 'reassign'}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {otherRoutes.map(candidate => (
+                <option key={candidate._id} value={candidate._id}>{candidate.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={action === 'cascade'} onChange={() => setAction('cascade')} />
+            <span className="text-red-700">Delete the orders as well</span>
+          </label>
+        </div>
+
+        <div className="flex space-x-3 pt-2">
+          <Button variant="danger" onClick={handleDelete} isLoading={isDeleting} className="flex-1">
+            Delete Route
+          </Button>
+          <Button variant="secondary" onClick={onClose} className="flex-1">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteRouteDialog;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Position, Route } from '../../types';
+
+export interface SearchArea {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+interface RouteMapProps {
+  routes: Route[];
+  highlightedIds?: Set<string>;
+  searchArea?: SearchArea | null;
+}
+
+const WIDTH = 800;
+const HEIGHT = 400;
+const PADDING = 30;
+const KM_PER_DEGREE_LAT = 111.32;
+
+const TRAFFIC_COLORS: Record<Route['trafficLevel'], string> = {
+  Low: '#16a34a',
+  Medium: '#ca8a04',
+  High: '#dc2626'
+};
+
+// Start, waypoints and end in travel order; empty when the route has no coordinates
+const routePath = (route: Route): Position[] =>
+  route.startLocation && route.endLocation
+    ? [route.startLocation.coordinates, ...(route.waypoints?.coordinates ?? []), route.endLocation.coordinates]
+    : [];
+
+// Equirectangular projection fitted to the mapped routes, with longitude squeezed by
+// cos(latitude) so distances look right at city scale
+const RouteMap: React.FC<RouteMapProps> = ({ routes, highlightedIds, searchArea }) => {
+  const mapped = routes.filter(route => routePath(route).length > 0);
+  const positions = mapped.flatMap(routePath);
+
+  if (searchArea) {
+    const latSpan = searchArea.radiusKm / KM_PER_DEGREE_LAT;
+    const lngSpan = latSpan / Math.cos((searchArea.lat * Math.PI) / 180);
+    positions.push([searchArea.lng - lngSpan, searchArea.lat - latSpan], [searchArea.lng + lngSpan, searchArea.lat + latSpan]);
+  }
+
+  if (positions.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-48 bg-gray-50 rounded-lg text-sm text-gray-500">
+        Add start and end coordinates to a route to see it on the map.
+      </div>
+    );
+  }
+
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const lngScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+  // Keep a minimum extent so a single point still gets a sensible zoom
+  const spanX = Math.max((maxLng - minLng) * lngScale, 0.01);
+  const spanY = Math.max(maxLat - minLat, 0.01);
+  const scale = Math.min((WIDTH - 2 * PADDING) / spanX, (HEIGHT - 2 * PADDING) / spanY);
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (HEIGHT - spanY * scale) / 2;
+
+  const project = ([lng, lat]: Position) => ({
+    x: offsetX + (lng - minLng) * lngScale * scale,
+    y: HEIGHT - offsetY - (lat - minLat) * scale
+  });
+
+  // Graticule at the smallest round step that keeps it to a handful of lines
+  const step = [0.01, 0.05, 0.1, 0.5, 1, 5].find(candidate => spanY / candidate <= 8) ?? 10;
+  const gridLats: number[] = [];
+  for (let lat = Math.ceil(minLat / step) * step; lat <= maxLat; lat += step) {
+    gridLats.push(lat);
+  }
+  const gridLngs: number[] = [];
+  for (let lng = Math.ceil(minLng / step) * step; lng <= maxLng; lng += step) {
+    gridLngs.push(lng);
+  }
+
+  const isDimmed = (route: Route) => highlightedIds !== undefined && !highlightedIds.has(route._id!);
+  const unmappedCount = routes.length - mapped.length;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-slate-50 rounded-lg border">
+        {gridLats.map(lat => {
+          const { y } = project([minLng, lat]);
+          return <line key={`lat-${lat}`} x1={0} x2={WIDTH} y1={y} y2={y} stroke="#e2e8f0" />;
+        })}
+        {gridLngs.map(lng => {
+          const { x } = project([lng, minLat]);
+          return <line key={`lng-${lng}`} x1={x} x2={x} y1={0} y2={HEIGHT} stroke="#e2e8f0" />;
+        })}
+
+        {searchArea && (() => {
+          const center = project([searchArea.lng, searchArea.lat]);
+          const radius = (searchArea.radiusKm / KM_PER_DEGREE_LAT) * scale;
+          return (
+            <g>
+              <circle cx={center.x} cy={center.y} r={radius} fill="#3b82f6" fillOpacity={0.08} stroke="#3b82f6" strokeDasharray="4 4" />
+              <circle cx={center.x} cy={center.y} r={3} fill="#3b82f6" />
+            </g>
+          );
+        })()}
+
+        {mapped.map(route => {
+          const points = routePath(route).map(project);
+          const start = points[0];
+          const end = points[points.length - 1];
+          const color = TRAFFIC_COLORS[route.trafficLevel];
+          return (
+            <g key={route._id} opacity={isDimmed(route) ? 0.2 : 1}>
+              <title>{`${route.name}: ${route.distanceKm} km, ${route.trafficLevel} traffic`}</title>
+              <polyline
+                points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={3}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+              {points.slice(1, -1).map((point, index) => (
+                <circle key={index} cx={point.x} cy={point.y} r={2.5} fill="white" stroke={color} />
+              ))}
+              <circle cx={start.x} cy={start.y} r={5} fill={color} stroke="white" strokeWidth={1.5} />
+              <rect x={end.x - 4.5} y={end.y - 4.5} width={9} height={9} fill="white" stroke={color} strokeWidth={2} />
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+        {Object.entries(TRAFFIC_COLORS).map(([level, color]) => (
+          <span key={level} className="flex items-center space-x-1">
+            <span className="w-3 h-1 rounded" style={{ backgroundColor: color }} />
+            <span>{level} traffic</span>
+          </span>
+        ))}
+        <span>● start · ■ end</span>
+        {unmappedCount > 0 && (
+          <span>{unmappedCount} route{unmappedCount === 1 ? '' : 's'} without coordinates not shown</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RouteMap;
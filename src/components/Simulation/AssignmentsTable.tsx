@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { simulationAPI } from '../../services/api';
+import { DeliveryAssignment } from '../../types';
+import LoadingSpinner from '../UI/LoadingSpinner';
+import { formatClockMinute } from '../../utils/time';
+
+interface AssignmentsTableProps {
+  simulationId: string;
+}
+
+const AssignmentsTable: React.FC<AssignmentsTableProps> = ({ simulationId }) => {
+  const [assignments, setAssignments] = useState<DeliveryAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    const fetchAssignments = async () => {
+      setIsLoading(true);
+      setHasError(false);
+      try {
+        const data = await simulationAPI.getAssignments(simulationId);
+        setAssignments(data);
+      } catch {
+        setHasError(true);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAssignments();
+  }, [simulationId]);
+
+  // Stops per trip, so batched deliveries can be labelled
+  const tripStops = new Map<number, number>();
+  assignments.forEach(assignment => {
+    if (assignment.tripNumber !== undefined) {
+      tripStops.set(assignment.tripNumber, (tripStops.get(assignment.tripNumber) ?? 0) + 1);
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (hasError) {
+    return <p className="text-sm text-red-600 py-4 text-center">Failed to load delivery assignments</p>;
+  }
+
+  if (assignments.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No delivery assignments were recorded for this run.</p>;
+  }
+
+  const losingDeliveries = assignments.filter(assignment => assignment.profit < 0).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        <span>{assignments.length} deliveries</span>
+        <span className="text-green-600">{assignments.filter(a => a.isOnTime).length} on time</span>
+        <span className="text-red-600">{assignments.filter(a => !a.isOnTime).length} late</span>
+        {losingDeliveries > 0 && (
+          <span className="text-red-600 font-medium">{losingDeliveries} delivered at a loss</span>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="text-left px-4 py-2 font-medium text-gray-700">Driver</th>
+              <th className="text-left px-4 py-2 font-medium text-gray-700">Route</th>
+              <th className="text-left px-4 py-2 font-medium text-gray-700">Departs → Arrives</th>
+              <th className="text-left px-4 py-2 font-medium text-gray-700">Deadline</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Est. / Actual</th>
+              <th className="text-left px-4 py-2 font-medium text-gray-700">Status</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Value</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Bonus</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Penalty</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Fuel</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Profit</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {assignments.map((assignment) => (
+              <tr key={assignment.orderId}>
+                <td className="px-4 py-2 text-gray-900">{assignment.driverName}</td>
+                <td className="px-4 py-2 text-gray-600">
+                  <div>{assignment.routeName}</div>
+                  <div className="text-xs text-gray-400">
+                    {assignment.trafficBand}
+                    {assignment.tripNumber !== undefined && (tripStops.get(assignment.tripNumber) ?? 0) > 1 && (
+                      <> · trip {assignment.tripNumber}, stop {assignment.stopNumber}</>
+                    )}
+                  </div>
+                </td>
+                <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                  {formatClockMinute(assignment.startMinute)} → {formatClockMinute(assignment.endMinute)}
+                </td>
+                <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                  {assignment.windowStartMinute != null
+                    ? `${formatClockMinute(assignment.windowStartMinute)}–${formatClockMinute(assignment.deadlineMinute)}`
+                    : formatClockMinute(assignment.deadlineMinute)}
+                  {assignment.slaClass && assignment.slaClass !== 'Standard' && (
+                    <div className="text-xs text-gray-400">{assignment.slaClass}</div>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-600">
+                  {Math.round(assignment.estimatedDeliveryTime)} / {assignment.actualDeliveryTime} min
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
+                    assignment.isOnTime ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                  }`}>
+                    {assignment.isOnTime ? 'On Time' : 'Late'}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-right text-gray-900">₹{assignment.orderValue.toFixed(2)}</td>
+                <td className="px-4 py-2 text-right text-green-600">₹{assignment.bonus.toFixed(2)}</td>
+                <td className="px-4 py-2 text-right text-red-600">₹{assignment.penalty.toFixed(2)}</td>
+                <td className="px-4 py-2 text-right text-amber-600">
+                  <div>₹{assignment.fuelCost.toFixed(2)}</div>
+                  {!!assignment.fuelTrafficSurcharge && (
+                    <div className="text-xs text-gray-400">
+                      incl. ₹{assignment.fuelTrafficSurcharge.toFixed(2)} surcharge
+                    </div>
+                  )}
+                </td>
+                <td className={`px-4 py-2 text-right font-medium ${
+                  assignment.profit < 0 ? 'text-red-600' : 'text-gray-900'
+                }`}>
+                  ₹{assignment.profit.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentsTable;
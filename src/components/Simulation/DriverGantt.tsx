@@ -0,0 +1,101 @@
+import React from 'react';
+import { DriverTimeline } from '../../types';
+import { formatClockMinute } from '../../utils/time';
+
+interface DriverGanttProps {
+  timelines: DriverTimeline[];
+  startMinute: number;
+  maxHoursPerDriver: number;
+}
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1)}h`;
+
+const DriverGantt: React.FC<DriverGanttProps> = ({ timelines, startMinute, maxHoursPerDriver }) => {
+  const endMinute = Math.max(
+    startMinute + 60,
+    ...timelines.flatMap(timeline => timeline.segments.map(segment => segment.endMinute))
+  );
+  const span = endMinute - startMinute;
+  const position = (minute: number) => `${((minute - startMinute) / span) * 100}%`;
+
+  // One tick per hour, spaced out so long runs stay readable
+  const hourStep = Math.max(1, Math.ceil(span / 60 / 12));
+  const ticks: number[] = [];
+  for (let minute = Math.ceil(startMinute / 60) * 60; minute <= endMinute; minute += hourStep * 60) {
+    ticks.push(minute);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex">
+        <div className="w-48 shrink-0" />
+        <div className="relative flex-1 h-5 text-xs text-gray-500">
+          {ticks.map(minute => (
+            <span key={minute} className="absolute -translate-x-1/2" style={{ left: position(minute) }}>
+              {formatClockMinute(minute)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {timelines.map(timeline => {
+        const isIdle = timeline.workMinutes === 0 || timeline.idleMinutes > timeline.workMinutes;
+        return (
+          <div key={timeline.driverId} className="flex items-center">
+            <div className="w-48 shrink-0 pr-4">
+              <p className="text-sm font-medium text-gray-900 truncate">{timeline.driverName}</p>
+              <p className={`text-xs ${
+                timeline.capReachedMinute !== null ? 'text-amber-600' : isIdle ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                {formatHours(timeline.workMinutes)} driving, {formatHours(timeline.idleMinutes)} idle
+              </p>
+            </div>
+            <div className="relative flex-1 h-8 bg-gray-50 rounded">
+              {ticks.map(minute => (
+                <div key={minute} className="absolute inset-y-0 border-l border-gray-200" style={{ left: position(minute) }} />
+              ))}
+              {timeline.segments.map((segment, index) => (
+                <div
+                  key={index}
+                  title={segment.type === 'delivery'
+                    ? `${segment.routeName}: ${formatClockMinute(segment.startMinute)}–${formatClockMinute(segment.endMinute)}, ${segment.isOnTime ? 'on time' : 'late'}`
+                    : `${segment.type === 'break' ? 'Break' : 'Idle'} ${formatClockMinute(segment.startMinute)}–${formatClockMinute(segment.endMinute)}`}
+                  className={`absolute inset-y-1 rounded-sm ${
+                    segment.type === 'idle'
+                      ? 'bg-gray-200'
+                      : segment.type === 'break'
+                        ? 'bg-blue-200 border-r border-white'
+                        : segment.isOnTime ? 'bg-green-500 border-r border-white' : 'bg-red-500 border-r border-white'
+                  }`}
+                  style={{
+                    left: position(segment.startMinute),
+                    width: position(startMinute + segment.endMinute - segment.startMinute)
+                  }}
+                />
+              ))}
+              {timeline.capReachedMinute !== null && (
+                <div
+                  title={`Reached ${maxHoursPerDriver}h at ${formatClockMinute(timeline.capReachedMinute)}${
+                    timeline.startingHours > 0 ? ` (started with ${timeline.startingHours}h worked)` : ''
+                  }`}
+                  className="absolute -inset-y-1 w-0.5 bg-amber-500"
+                  style={{ left: position(timeline.capReachedMinute) }}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center space-x-4 pl-48 text-xs text-gray-500">
+        <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-sm bg-green-500" /><span>On time</span></span>
+        <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-sm bg-red-500" /><span>Late</span></span>
+        <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-sm bg-gray-200" /><span>Idle</span></span>
+        <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded-sm bg-blue-200" /><span>Break</span></span>
+        <span className="flex items-center space-x-1"><span className="w-0.5 h-3 bg-amber-500" /><span>Hit {maxHoursPerDriver}h cap</span></span>
+      </div>
+    </div>
+  );
+};
+
+export default DriverGantt;
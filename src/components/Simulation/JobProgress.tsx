@@ -0,0 +1,61 @@
+import React from 'react';
+import { XCircle } from 'lucide-react';
+import { SimulationJob, SimulationJobStatus } from '../../types';
+import Button from '../UI/Button';
+
+interface JobProgressProps {
+  job: SimulationJob;
+  onCancel: () => void;
+  isCancelling: boolean;
+}
+
+const STATUS_LABELS: Record<SimulationJobStatus, string> = {
+  queued: 'Waiting for earlier simulations to finish…',
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const JobProgress: React.FC<JobProgressProps> = ({ job, onCancel, isCancelling }) => {
+  const { completed, total } = job.progress;
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const isActive = job.status === 'queued' || job.status === 'running';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{STATUS_LABELS[job.status]}</p>
+          {job.mode === 'monte-carlo' && (
+            <p className="text-xs text-gray-500">{completed} of {total} iterations</p>
+          )}
+        </div>
+        {isActive && (
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={onCancel}
+            isLoading={isCancelling}
+            className="flex items-center space-x-1"
+          >
+            <XCircle className="h-4 w-4" />
+            <span>Cancel</span>
+          </Button>
+        )}
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${
+            job.status === 'failed' || job.status === 'cancelled' ? 'bg-gray-400' : 'bg-blue-600'
+          } ${job.status === 'queued' ? 'animate-pulse' : ''}`}
+          style={{ width: `${job.status === 'queued' ? 100 : percent}%` }}
+        />
+      </div>
+      {job.status === 'running' && <p className="text-xs text-gray-500 text-right">{percent}%</p>}
+    </div>
+  );
+};
+
+export default JobProgress;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { MonteCarloMetric, MonteCarloSummary } from '../../types';
+
+interface MonteCarloResultsProps {
+  summary: MonteCarloSummary;
+}
+
+const METRICS: { key: MonteCarloMetric; label: string; format: (value: number) => string }[] = [
+  { key: 'totalProfit', label: 'Total Profit', format: (value) => `₹${value.toFixed(2)}` },
+  { key: 'efficiencyScore', label: 'Efficiency Score', format: (value) => `${value.toFixed(1)}%` },
+  { key: 'lateDeliveries', label: 'Late Deliveries', format: (value) => value.toFixed(1) }
+];
+
+// Bucket samples into equal-width bins (square-root rule, capped at 20 bins)
+const buildHistogram = (samples: number[], format: (value: number) => string) => {
+  if (samples.length === 0) {
+    return [];
+  }
+
+  const min = Math.min(...samples);
+  const max = Math.max(...samples);
+  if (min === max) {
+    return [{ label: format(min), from: min, count: samples.length }];
+  }
+
+  const binCount = Math.min(20, Math.ceil(Math.sqrt(samples.length)));
+  const binWidth = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    label: format(min + binWidth * (i + 0.5)),
+    from: min + binWidth * i,
+    count: 0
+  }));
+
+  samples.forEach(value => {
+    const index = Math.min(binCount - 1, Math.floor((value - min) / binWidth));
+    bins[index].count++;
+  });
+
+  return bins;
+};
+
+const MonteCarloResults: React.FC<MonteCarloResultsProps> = ({ summary }) => {
+  const [selectedMetric, setSelectedMetric] = useState<MonteCarloMetric>('totalProfit');
+
+  const metric = METRICS.find(m => m.key === selectedMetric)!;
+  const stats = summary.distributions[selectedMetric];
+  const histogram = buildHistogram(summary.samples?.[selectedMetric] ?? [], metric.format);
+
+  // Snap the percentile markers to the bin that contains them
+  const binLabelFor = (value: number) =>
+    [...histogram].reverse().find(bin => bin.from <= value)?.label ?? histogram[0]?.label;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Monte Carlo Results
+        </h3>
+        <span className="text-sm text-gray-500">{summary.iterations} iterations</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="text-left px-4 py-2 font-medium text-gray-700">Metric</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Mean</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">Std Dev</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">P5</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">P50</th>
+              <th className="text-right px-4 py-2 font-medium text-gray-700">P95</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {METRICS.map(({ key, label, format }) => {
+              const row = summary.distributions[key];
+              return (
+                <tr key={key}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{label}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{format(row.mean)}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{format(row.stddev)}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{format(row.p5)}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{format(row.p50)}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{format(row.p95)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <div className="flex space-x-2 mb-4">
+          {METRICS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setSelectedMetric(key)}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                selectedMetric === key
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {histogram.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No samples were stored for this run.</p>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogram}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis allowDecimals={false} />
+                <Tooltip formatter={(value) => [value, 'Iterations']} />
+                <Bar dataKey="count" fill="#3B82F6" />
+                <ReferenceLine x={binLabelFor(stats.p5)} stroke="#EF4444" strokeDasharray="4 4" label="P5" />
+                <ReferenceLine x={binLabelFor(stats.p50)} stroke="#10B981" strokeDasharray="4 4" label="P50" />
+                <ReferenceLine x={binLabelFor(stats.p95)} stroke="#EF4444" strokeDasharray="4 4" label="P95" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MonteCarloResults;
@@ -0,0 +1,174 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, UserX } from 'lucide-react';
+import { DriverExclusionReason, SimulationResult, UnassignedReason } from '../../types';
+
+interface SimulationResultsProps {
+  result: SimulationResult;
+  showDetailsLink?: boolean;
+}
+
+const REASON_LABELS: Record<UnassignedReason, string> = {
+  hours_cap: 'Drivers out of hours',
+  no_drivers: 'No driver available',
+  over_capacity: 'Too heavy or bulky for any vehicle',
+  daily_limit: 'Drivers at the daily driving limit'
+};
+
+const EXCLUSION_LABELS: Record<DriverExclusionReason, string> = {
+  on_leave: 'On leave',
+  day_off: 'Day off',
+  outside_hours: 'Outside working hours',
+  not_selected: 'Not needed'
+};
+
+const SimulationResults: React.FC<SimulationResultsProps> = ({ result, showDetailsLink = false }) => {
+  const unassignedOrders = result.unassignedOrders ?? [];
+  const unassignedDeliveries = result.unassignedDeliveries ?? unassignedOrders.length;
+  const driversUsed = result.simulationParams.numberOfDrivers;
+  const driversNeeded = result.driversNeeded ?? driversUsed;
+  const isBatched = (result.simulationParams.maxStopsPerTrip ?? 1) > 1;
+  const unavailableDrivers = (result.excludedDrivers ?? []).filter(driver => driver.reason !== 'not_selected');
+  const surplusDrivers = (result.excludedDrivers ?? []).length - unavailableDrivers.length;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Simulation Results
+        </h3>
+        <div className="flex items-center space-x-4">
+          {showDetailsLink && result._id && (
+            <Link to={`/history/${result._id}`} className="text-sm text-blue-600 hover:text-blue-800">
+              Driver Timelines
+            </Link>
+          )}
+          <Link to="/dashboard" className="text-sm text-blue-600 hover:text-blue-800">
+            View on Dashboard
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Total Profit</p>
+          <p className="text-lg font-semibold text-gray-900">₹{result.totalProfit.toFixed(2)}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Efficiency Score</p>
+          <p className="text-lg font-semibold text-gray-900">{result.efficiencyScore.toFixed(1)}%</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Deliveries</p>
+          <p className="text-lg font-semibold text-gray-900">
+            <span className="text-green-600">{result.onTimeDeliveries}</span>
+            {' / '}
+            <span className="text-red-600">{result.lateDeliveries}</span>
+            {' / '}
+            <span className="text-gray-500">{unassignedDeliveries}</span>
+          </p>
+          <p className="text-xs text-gray-500">on time / late / unassigned</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Lost Revenue</p>
+          <p className={`text-lg font-semibold ${result.lostRevenue ? 'text-red-600' : 'text-gray-900'}`}>
+            ₹{(result.lostRevenue ?? 0).toFixed(2)}
+          </p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Drivers Needed</p>
+          <p className={`text-lg font-semibold ${driversNeeded > driversUsed ? 'text-amber-600' : 'text-gray-900'}`}>
+            {driversNeeded}
+          </p>
+          <p className="text-xs text-gray-500">to cover all orders ({driversUsed} requested)</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Fuel Cost</p>
+          <p className="text-lg font-semibold text-gray-900">₹{result.fuelCostBreakdown.total.toFixed(2)}</p>
+        </div>
+      </div>
+
+      {isBatched && result.tripStats && (
+        <div className="p-4 bg-blue-50 rounded-lg text-sm text-blue-900">
+          <p>
+            {result.tripStats.trips} trip{result.tripStats.trips === 1 ? '' : 's'}, averaging
+            {' '}{result.tripStats.averageStopsPerTrip.toFixed(1)} stops (up to {result.simulationParams.maxStopsPerTrip} allowed)
+          </p>
+          <p className="text-xs text-blue-700 mt-1">
+            Compared with one trip per order: ₹{result.tripStats.fuelSaved.toFixed(2)} less fuel and
+            {' '}{result.tripStats.minutesSaved} driving minutes saved
+          </p>
+        </div>
+      )}
+
+      {unassignedOrders.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2 text-amber-700">
+            <AlertTriangle className="h-4 w-4" />
+            <span className="text-sm font-medium">
+              {unassignedOrders.length} order{unassignedOrders.length === 1 ? '' : 's'} could not be assigned
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="text-left px-4 py-2 font-medium text-gray-700">Route</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-700">Value</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-700">Est. Time</th>
+                  <th className="text-left px-4 py-2 font-medium text-gray-700">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {unassignedOrders.map((order) => (
+                  <tr key={order.orderId}>
+                    <td className="px-4 py-2 text-gray-900">{order.routeName}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">₹{order.orderValue.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{order.estimatedDeliveryTime} min</td>
+                    <td className="px-4 py-2 text-gray-600">{REASON_LABELS[order.reason]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {(unavailableDrivers.length > 0 || surplusDrivers > 0) && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2 text-gray-700">
+            <UserX className="h-4 w-4" />
+            <span className="text-sm font-medium">
+              {unavailableDrivers.length} driver{unavailableDrivers.length === 1 ? ' was' : 's were'} unavailable at {result.simulationParams.routeStartTime}
+              {surplusDrivers > 0 && `; ${surplusDrivers} more ${surplusDrivers === 1 ? 'was' : 'were'} available but not needed`}
+            </span>
+          </div>
+          {unavailableDrivers.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="text-left px-4 py-2 font-medium text-gray-700">Driver</th>
+                    <th className="text-left px-4 py-2 font-medium text-gray-700">Reason</th>
+                    <th className="text-left px-4 py-2 font-medium text-gray-700">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {unavailableDrivers.map((driver) => (
+                    <tr key={driver.driverId}>
+                      <td className="px-4 py-2 text-gray-900">{driver.driverName}</td>
+                      <td className="px-4 py-2 text-gray-600">{EXCLUSION_LABELS[driver.reason]}</td>
+                      <td className="px-4 py-2 text-gray-500">{driver.detail}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimulationResults;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { exportAPI, getApiErrorMessage } from '../../services/api';
+import { ExportCollection, ExportFormat, ListParams } from '../../types';
+import { saveFile } from '../../utils/download';
+import Button from './Button';
+import toast from 'react-hot-toast';
+
+interface ExportButtonProps {
+  collection: ExportCollection;
+  // The filters applied to the list on the page, so the file matches what is shown
+  params?: ListParams;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' }
+];
+
+const ExportButton: React.FC<ExportButtonProps> = ({ collection, params }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      const blob = await exportAPI.download(collection, format, params);
+      saveFile(blob, `${collection}-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, `Failed to export ${collection}`));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="secondary"
+        isLoading={isExporting}
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center space-x-2"
+      >
+        <Download className="h-4 w-4" />
+        <span>Export</span>
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-40 bg-white rounded-lg shadow-lg border z-10 py-1">
+          {FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleExport(option.value)}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportButton;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Page } from '../../types';
+
+interface PaginationProps {
+  page: Page<unknown>;
+  onPageChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, onPageChange }) => {
+  const first = page.total === 0 ? 0 : (page.page - 1) * page.limit + 1;
+  const last = Math.min(page.page * page.limit, page.total);
+
+  return (
+    <div className="flex items-center justify-between px-6 py-3 border-t text-sm text-gray-600">
+      <span>Showing {first}–{last} of {page.total}</span>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => onPageChange(page.page - 1)}
+          disabled={page.page <= 1}
+          className="p-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span>Page {page.page} of {Math.max(page.totalPages, 1)}</span>
+        <button
+          onClick={() => onPageChange(page.page + 1)}
+          disabled={page.page >= page.totalPages}
+          className="p-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
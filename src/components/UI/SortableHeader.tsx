@@ -0,0 +1,31 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+
+interface SortableHeaderProps {
+  label: string;
+  field: string;
+  // The list's current sort: a field name, descending when it starts with '-'
+  sort: string;
+  onSortChange: (sort: string) => void;
+}
+
+// A column header that sorts by its field, ascending first and then descending
+const SortableHeader: React.FC<SortableHeaderProps> = ({ label, field, sort, onSortChange }) => {
+  const direction = sort === field ? 'asc' : sort === `-${field}` ? 'desc' : null;
+  const Icon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+
+  return (
+    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+      <button
+        type="button"
+        onClick={() => onSortChange(direction === 'asc' ? `-${field}` : field)}
+        className="inline-flex items-center space-x-1 hover:text-blue-600"
+      >
+        <span>{label}</span>
+        <Icon className={`h-3.5 w-3.5 ${direction ? 'text-blue-600' : 'text-gray-400'}`} />
+      </button>
+    </th>
+  );
+};
+
+export default SortableHeader;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { GitCompare, ArrowLeft } from 'lucide-react';
+import { simulationAPI, getApiErrorMessage } from '../services/api';
+import { AssignmentStrategyName, BreakdownRow, ComparedKpi, SimulationComparison } from '../types';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import { strategyLabel } from '../utils/strategies';
+import toast, { Toaster } from 'react-hot-toast';
+
+const KPI_LABELS: Record<ComparedKpi, { label: string; format: (value: number) => string; lowerIsBetter?: boolean }> = {
+  totalProfit: { label: 'Total Profit', format: (value) => `₹${value.toFixed(2)}` },
+  efficiencyScore: { label: 'Efficiency Score', format: (value) => `${value.toFixed(1)}%` },
+  fuelCost: { label: 'Fuel Cost', format: (value) => `₹${value.toFixed(2)}`, lowerIsBetter: true },
+  onTimeDeliveries: { label: 'On-Time Deliveries', format: (value) => String(value) },
+  lateDeliveries: { label: 'Late Deliveries', format: (value) => String(value), lowerIsBetter: true },
+  unassignedDeliveries: { label: 'Unassigned Orders', format: (value) => String(value), lowerIsBetter: true }
+};
+
+const PARAMETER_LABELS: Record<string, string> = {
+  mode: 'Mode',
+  numberOfDrivers: 'Drivers',
+  routeStartTime: 'Start Time',
+  maxHoursPerDriver: 'Max Hours',
+  strategy: 'Strategy',
+  maxStopsPerTrip: 'Stops per Trip',
+  seed: 'Seed',
+  ruleSetVersion: 'Rules Version'
+};
+
+const formatDelta = (delta: number, format: (value: number) => string) =>
+  `${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${format(Math.abs(delta))}`;
+
+const deltaClass = (delta: number, lowerIsBetter?: boolean) => {
+  if (delta === 0) {
+    return 'text-gray-400';
+  }
+  return (delta > 0) !== !!lowerIsBetter ? 'text-green-600' : 'text-red-600';
+};
+
+const Compare: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [comparison, setComparison] = useState<SimulationComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const ids = searchParams.get('ids') ?? '';
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      setIsLoading(true);
+      try {
+        const data = await simulationAPI.compare(ids.split(',').filter(Boolean));
+        setComparison(data);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Failed to compare simulations'));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [ids]);
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatParameter = (parameter: string, value: string | number | null) => {
+    if (value === null) {
+      return '—';
+    }
+    if (parameter === 'strategy') {
+      return strategyLabel(value as AssignmentStrategyName);
+    }
+    if (parameter === 'mode') {
+      return value === 'monte-carlo' ? 'Monte Carlo' : 'Single';
+    }
+    if (parameter === 'ruleSetVersion') {
+      return `v${value}`;
+    }
+    return String(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <Toaster position="top-right" />
+        <p className="text-gray-500">These simulations could not be compared.</p>
+        <Link to="/history" className="text-blue-600 hover:text-blue-800 text-sm">Back to History</Link>
+      </div>
+    );
+  }
+
+  const runHeaders = comparison.runs.map((run, index) => (
+    <th key={run._id} className="text-right px-4 py-2 font-medium text-gray-700">
+      <div>{index === 0 ? 'Baseline' : `Run ${index + 1}`}</div>
+      <div className="text-xs font-normal text-gray-500">{formatDate(run.timestamp)}</div>
+    </th>
+  ));
+
+  const renderBreakdown = (title: string, rows: BreakdownRow[]) => (
+    <div className="bg-white p-6 rounded-xl shadow-sm border">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No per-order assignments were recorded for these runs.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left px-4 py-2 font-medium text-gray-700">Name</th>
+                {runHeaders}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(row => (
+                <tr key={row.id}>
+                  <td className="px-4 py-2 text-gray-900">{row.name}</td>
+                  {row.runs.map((stats, index) => (
+                    <td key={index} className="px-4 py-2 text-right">
+                      {stats ? (
+                        <>
+                          <div className="text-gray-900">₹{stats.profit.toFixed(2)}</div>
+                          <div className="text-xs text-gray-500">
+                            {stats.deliveries} deliveries, {stats.lateDeliveries} late
+                          </div>
+                          {index > 0 && row.profitDeltas[index] !== null && (
+                            <div className={`text-xs ${deltaClass(row.profitDeltas[index]!)}`}>
+                              {formatDelta(row.profitDeltas[index]!, (value) => `₹${value.toFixed(2)}`)}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <GitCompare className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold text-gray-900">Compare Simulations</h1>
+        </div>
+        <Link to="/history" className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to History</span>
+        </Link>
+      </div>
+
+      {/* Parameters */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Parameters</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left px-4 py-2 font-medium text-gray-700">Parameter</th>
+                {runHeaders}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {comparison.parameters.map(({ parameter, values, differs }) => (
+                <tr key={parameter} className={differs ? 'bg-amber-50' : ''}>
+                  <td className="px-4 py-2 font-medium text-gray-900">{PARAMETER_LABELS[parameter] ?? parameter}</td>
+                  {values.map((value, index) => (
+                    <td key={index} className={`px-4 py-2 text-right ${differs ? 'text-amber-800 font-medium' : 'text-gray-600'}`}>
+                      {formatParameter(parameter, value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* KPI Deltas */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Results</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left px-4 py-2 font-medium text-gray-700">Metric</th>
+                {runHeaders}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {comparison.kpis.map(({ metric, values, deltas }) => {
+                const { label, format, lowerIsBetter } = KPI_LABELS[metric];
+                return (
+                  <tr key={metric}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{label}</td>
+                    {values.map((value, index) => (
+                      <td key={index} className="px-4 py-2 text-right">
+                        <div className="text-gray-900">{format(value)}</div>
+                        {index > 0 && (
+                          <div className={`text-xs ${deltaClass(deltas[index], lowerIsBetter)}`}>
+                            {formatDelta(deltas[index], format)}
+                          </div>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {renderBreakdown('Drivers', comparison.drivers)}
+      {renderBreakdown('Routes', comparison.routes)}
+    </div>
+  );
+};
+
+export default Compare;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { TrendingUp, Clock, DollarSign, Gauge } from 'lucide-react';
 import { simulationAPI } from '../services/api';
 import { KPIData } from '../types';
@@ -43,15 +43,24 @@ const Dashboard: React.FC = () => {
 
   const deliveryData = [
     { name: 'On Time', value: kpiData.onTimeDeliveries, color: '#10B981' },
-    { name: 'Late', value: kpiData.lateDeliveries, color: '#EF4444' }
+    { name: 'Late', value: kpiData.lateDeliveries, color: '#EF4444' },
+    ...(kpiData.unassignedDeliveries
+      ? [{ name: 'Unassigned', value: kpiData.unassignedDeliveries, color: '#9CA3AF' }]
+      : [])
   ];
 
-  const fuelCostData = [
-    { name: 'Base Cost', value: kpiData.fuelCostBreakdown.baseCost },
-    { name: 'Traffic Surcharge', value: kpiData.fuelCostBreakdown.trafficSurcharge }
-  ];
+  // Runs recorded before the per-level breakdown existed only carry the overall split
+  const fuelCostData = kpiData.fuelCostByTrafficLevel
+    ? (['Low', 'Medium', 'High'] as const).map(level => ({
+        name: `${level} Traffic`,
+        ...kpiData.fuelCostByTrafficLevel![level]
+      }))
+    : [{ name: 'All Routes', ...kpiData.fuelCostBreakdown }];
+
+  const MAX_ROUTES_CHARTED = 10;
+  const routeFuelCostData = (kpiData.fuelCostByRoute ?? []).slice(0, MAX_ROUTES_CHARTED);
 
-  const COLORS = ['#10B981', '#EF4444'];
+  const COLORS = ['#10B981', '#EF4444', '#9CA3AF'];
 
   return (
     <div className="space-y-6">
@@ -169,14 +178,45 @@ const Dashboard: React.FC = () => {
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
                 <YAxis />
-                <Tooltip formatter={(value) => [`₹${value}`, 'Cost']} />
-                <Bar dataKey="value" fill="#3B82F6" />
+                <Tooltip formatter={(value, name) => [`₹${value}`, name]} />
+                <Legend />
+                <Bar dataKey="baseCost" name="Base Cost" stackId="fuel" fill="#3B82F6" />
+                <Bar dataKey="trafficSurcharge" name="Traffic Surcharge" stackId="fuel" fill="#F59E0B" />
               </BarChart>
             </ResponsiveContainer>
           </div>
         </div>
       </div>
 
+      {/* Fuel Cost by Route Chart */}
+      {routeFuelCostData.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Fuel Cost by Route
+            </h3>
+            {kpiData.fuelCostByRoute!.length > MAX_ROUTES_CHARTED && (
+              <span className="text-sm text-gray-500">
+                Top {MAX_ROUTES_CHARTED} of {kpiData.fuelCostByRoute!.length} routes
+              </span>
+            )}
+          </div>
+          <div style={{ height: Math.max(160, routeFuelCostData.length * 40) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={routeFuelCostData} layout="vertical" margin={{ left: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" />
+                <YAxis type="category" dataKey="routeName" width={120} />
+                <Tooltip formatter={(value, name) => [`₹${value}`, name]} />
+                <Legend />
+                <Bar dataKey="baseCost" name="Base Cost" stackId="fuel" fill="#3B82F6" />
+                <Bar dataKey="trafficSurcharge" name="Traffic Surcharge" stackId="fuel" fill="#F59E0B" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
       {/* Summary Stats */}
       <div className="bg-white p-6 rounded-xl shadow-sm border">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Summary</h3>
@@ -1,42 +1,72 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Users } from 'lucide-react';
-import { driversAPI } from '../services/api';
-import { Driver } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, Users, Clock, Search } from 'lucide-react';
+import { driversAPI, vehiclesAPI, getApiErrorMessage } from '../services/api';
+import { Driver, DriverHours, ListParams, Page, Vehicle } from '../types';
 import Button from '../components/UI/Button';
+import ExportButton from '../components/UI/ExportButton';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import Pagination from '../components/UI/Pagination';
+import SortableHeader from '../components/UI/SortableHeader';
+import DeliveryLogPanel from '../components/Drivers/DeliveryLogPanel';
 import toast, { Toaster } from 'react-hot-toast';
 
 const Drivers: React.FC = () => {
-  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [drivers, setDrivers] = useState<Page<Driver> | null>(null);
+  const [params, setParams] = useState<ListParams>({ page: 1, sort: '-createdAt' });
+  const [searchText, setSearchText] = useState('');
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [hours, setHours] = useState<Map<string, DriverHours>>(new Map());
+  const [logDriver, setLogDriver] = useState<Driver | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingDriver, setEditingDriver] = useState<Driver | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     currentShiftHours: 0,
-    pastWeekHours: 0
+    pastWeekHours: 0,
+    vehicleId: ''
   });
 
-  useEffect(() => {
-    fetchDrivers();
-  }, []);
-
-  const fetchDrivers = async () => {
+  const fetchDrivers = useCallback(async () => {
     try {
-      const data = await driversAPI.getAll();
+      const [data, driverHours] = await Promise.all([driversAPI.list(params), driversAPI.getAllHours()]);
+      // Deleting the last driver on a page leaves it empty, so step back to the new last page
+      if (data.items.length === 0 && data.page > 1) {
+        setParams(prev => ({ ...prev, page: Math.max(data.totalPages, 1) }));
+        return;
+      }
       setDrivers(data);
+      setHours(new Map(driverHours.map(entry => [entry.driverId, entry])));
     } catch (error) {
       toast.error('Failed to fetch drivers');
     } finally {
       setIsLoading(false);
     }
+  }, [params]);
+
+  useEffect(() => {
+    fetchDrivers();
+  }, [fetchDrivers]);
+
+  useEffect(() => {
+    fetchVehicles();
+  }, []);
+
+  const fetchVehicles = async () => {
+    try {
+      const data = await vehiclesAPI.getAll();
+      setVehicles(data);
+    } catch {
+      toast.error('Failed to fetch vehicles');
+    }
   };
 
   const resetForm = () => {
     setFormData({
       name: '',
       currentShiftHours: 0,
-      pastWeekHours: 0
+      pastWeekHours: 0,
+      vehicleId: ''
     });
     setEditingDriver(null);
     setShowForm(false);
@@ -56,11 +86,13 @@ const Drivers: React.FC = () => {
     }
 
     try {
+      const driverData = { ...formData, vehicleId: formData.vehicleId || null };
+
       if (editingDriver) {
-        await driversAPI.update(editingDriver._id!, formData);
+        await driversAPI.update(editingDriver._id!, driverData);
         toast.success('Driver updated successfully');
       } else {
-        await driversAPI.create(formData);
+        await driversAPI.create(driverData);
         toast.success('Driver created successfully');
       }
       
@@ -76,26 +108,46 @@ const Drivers: React.FC = () => {
     setFormData({
       name: driver.name,
       currentShiftHours: driver.currentShiftHours,
-      pastWeekHours: driver.pastWeekHours
+      pastWeekHours: driver.pastWeekHours,
+      vehicleId: driver.vehicleId ?? ''
     });
     setShowForm(true);
   };
 
+  // Logged deliveries are the driver's hours history, so deleting them is confirmed separately
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this driver?')) {
-      return;
-    }
-
     try {
-      await driversAPI.delete(id);
+      const dependants = await driversAPI.getDependants(id);
+      const message = dependants.count > 0
+        ? `This driver has ${dependants.count} logged deliver${dependants.count === 1 ? 'y' : 'ies'}. Delete the driver and their delivery log?`
+        : 'Are you sure you want to delete this driver?';
+      if (!confirm(message)) {
+        return;
+      }
+
+      await driversAPI.delete(id, { cascade: dependants.count > 0 });
       toast.success('Driver deleted successfully');
       fetchDrivers();
     } catch (error) {
-      toast.error('Failed to delete driver');
+      toast.error(getApiErrorMessage(error, 'Failed to delete driver'));
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Any new filter or sort starts again from the first page
+  const updateParams = (changes: ListParams) => {
+    setParams(prev => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ search: searchText.trim() || undefined });
+  };
+
+  const handleHoursChange = useCallback((driverHours: DriverHours) => {
+    setHours(prev => new Map(prev).set(driverHours.driverId, driverHours));
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -103,7 +155,7 @@ const Drivers: React.FC = () => {
     }));
   };
 
-  if (isLoading) {
+  if (isLoading || !drivers) {
     return (
       <div className="flex items-center justify-center h-64">
         <LoadingSpinner size="lg" />
@@ -120,13 +172,16 @@ const Drivers: React.FC = () => {
           <Users className="h-6 w-6 text-blue-600" />
           <h1 className="text-2xl font-bold text-gray-900">Drivers Management</h1>
         </div>
-        <Button 
-          onClick={() => setShowForm(true)}
-          className="flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add Driver</span>
-        </Button>
+        <div className="flex items-center space-x-3">
+          <ExportButton collection="drivers" params={params} />
+          <Button 
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Driver</span>
+          </Button>
+        </div>
       </div>
 
       {/* Driver Form Modal */}
@@ -154,7 +209,7 @@ const Drivers: React.FC = () => {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Current Shift Hours
+                  Current Shift Hours (manual)
                 </label>
                 <input
                   type="number"
@@ -169,7 +224,7 @@ const Drivers: React.FC = () => {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Past Week Hours
+                  Past Week Hours (manual)
                 </label>
                 <input
                   type="number"
@@ -180,6 +235,26 @@ const Drivers: React.FC = () => {
                   step="0.5"
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
+                <p className="text-xs text-gray-500 mt-1">Only used until the driver's first delivery is logged; after that, hours come from the delivery log</p>
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Vehicle
+                </label>
+                <select
+                  name="vehicleId"
+                  value={formData.vehicleId}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No vehicle</option>
+                  {vehicles.map(vehicle => (
+                    <option key={vehicle._id} value={vehicle._id}>
+                      {vehicle.name} ({vehicle.type}, {vehicle.capacityKg}kg)
+                    </option>
+                  ))}
+                </select>
               </div>
               
               <div className="flex space-x-3 pt-4">
@@ -200,83 +275,129 @@ const Drivers: React.FC = () => {
         </div>
       )}
 
+      {logDriver && (
+        <DeliveryLogPanel
+          driver={logDriver}
+          onClose={() => setLogDriver(null)}
+          onHoursChange={handleHoursChange}
+        />
+      )}
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="bg-white p-4 rounded-xl shadow-sm border flex items-center space-x-3">
+        <Search className="h-4 w-4 text-gray-500" />
+        <input
+          type="text"
+          value={searchText}
+          onChange={e => setSearchText(e.target.value)}
+          maxLength={100}
+          placeholder="Search by name"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        />
+        <Button type="submit" size="sm" variant="secondary">Search</Button>
+      </form>
+
       {/* Drivers List */}
       <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
-        {drivers.length === 0 ? (
+        {drivers.total === 0 ? (
           <div className="text-center py-12">
             <Users className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-500">No drivers found. Add your first driver to get started.</p>
+            <p className="text-gray-500">
+              {params.search ? `No drivers match "${params.search}".` : 'No drivers found. Add your first driver to get started.'}
+            </p>
           </div>
         ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b">
-                <tr>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Name
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Current Shift
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Past Week Hours
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Status
-                  </th>
-                  <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {drivers.map((driver) => (
-                  <tr key={driver._id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4">
-                      <div className="font-medium text-gray-900">{driver.name}</div>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {driver.currentShiftHours.toFixed(1)}h
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {driver.pastWeekHours.toFixed(1)}h
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
-                        driver.currentShiftHours > 8
-                          ? 'bg-red-100 text-red-800'
-                          : driver.pastWeekHours > 40
-                          ? 'bg-yellow-100 text-yellow-800'
-                          : 'bg-green-100 text-green-800'
-                      }`}>
-                        {driver.currentShiftHours > 8
-                          ? 'Overtime'
-                          : driver.pastWeekHours > 40
-                          ? 'High Workload'
-                          : 'Available'}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 text-right">
-                      <div className="flex items-center justify-end space-x-2">
-                        <button
-                          onClick={() => handleEdit(driver)}
-                          className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(driver._id!)}
-                          className="p-1 text-red-600 hover:text-red-800 transition-colors"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      </div>
-                    </td>
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <SortableHeader label="Name" field="name" sort={params.sort!} onSortChange={sort => updateParams({ sort })} />
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Last 24h
+                    </th>
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Last 7 Days
+                    </th>
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Vehicle
+                    </th>
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Status
+                    </th>
+                    <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">
+                      Actions
+                    </th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {drivers.items.map((driver) => {
+                    const driverHours = hours.get(driver._id!);
+                    const currentShiftHours = driverHours?.currentShiftHours ?? driver.currentShiftHours;
+                    const pastWeekHours = driverHours?.pastWeekHours ?? driver.pastWeekHours;
+                    const isManual = driverHours?.source !== 'log';
+                    return (
+                      <tr key={driver._id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-900">{driver.name}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {currentShiftHours.toFixed(1)}h
+                          {isManual && <span className="ml-1 text-xs text-gray-400">manual</span>}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {pastWeekHours.toFixed(1)}h
+                          {isManual && <span className="ml-1 text-xs text-gray-400">manual</span>}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {vehicles.find(vehicle => vehicle._id === driver.vehicleId)?.name ?? '—'}
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                            currentShiftHours > 8
+                              ? 'bg-red-100 text-red-800'
+                              : pastWeekHours > 40
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : 'bg-green-100 text-green-800'
+                          }`}>
+                            {currentShiftHours > 8
+                              ? 'Overtime'
+                              : pastWeekHours > 40
+                              ? 'High Workload'
+                              : 'Available'}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => setLogDriver(driver)}
+                              title="Hours and delivery log"
+                              className="p-1 text-gray-600 hover:text-gray-800 transition-colors"
+                            >
+                              <Clock className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleEdit(driver)}
+                              className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(driver._id!)}
+                              className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <Pagination page={drivers} onPageChange={page => setParams(prev => ({ ...prev, page }))} />
+          </>
         )}
       </div>
     </div>
@@ -1,30 +1,50 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { History as HistoryIcon, TrendingUp, Calendar } from 'lucide-react';
-import { simulationAPI } from '../services/api';
-import { SimulationResult } from '../types';
+import { Link, useNavigate } from 'react-router-dom';
+import { History as HistoryIcon, TrendingUp, Calendar, ChevronDown, ChevronRight, RotateCcw, Shuffle, GitCompare, GanttChart } from 'lucide-react';
+import { simulationAPI, getApiErrorMessage } from '../services/api';
+import { AssignmentStrategyName, SimulationHistoryParams, SimulationResult } from '../types';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import ExportButton from '../components/UI/ExportButton';
+import AssignmentsTable from '../components/Simulation/AssignmentsTable';
+import { STRATEGY_OPTIONS, strategyLabel } from '../utils/strategies';
 import toast, { Toaster } from 'react-hot-toast';
 
+const MAX_COMPARED_RUNS = 4;
+const RECENT_RUNS_SHOWN = 10;
+// The history list endpoint's largest page
+const HISTORY_PAGE_SIZE = 100;
+
 const History: React.FC = () => {
+  const navigate = useNavigate();
   const [history, setHistory] = useState<SimulationResult[]>([]);
+  const [totalRuns, setTotalRuns] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedTimeframe, setSelectedTimeframe] = useState<'all' | 'week' | 'month'>('all');
+  const [expandedSimulationId, setExpandedSimulationId] = useState<string | null>(null);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  const [selectedStrategy, setSelectedStrategy] = useState<AssignmentStrategyName | ''>('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showAllRuns, setShowAllRuns] = useState(false);
 
-  useEffect(() => {
-    fetchHistory();
-  }, []);
+  const historyParams: SimulationHistoryParams = { strategy: selectedStrategy || undefined, sort: '-timestamp' };
 
-  const fetchHistory = async () => {
+  const fetchHistory = useCallback(async () => {
     try {
-      const data = await simulationAPI.getHistory();
-      setHistory(data.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+      // The charts and totals cover the most recent runs, one full page of them
+      const data = await simulationAPI.getHistory({ strategy: selectedStrategy || undefined, sort: '-timestamp', limit: HISTORY_PAGE_SIZE });
+      setHistory(data.items);
+      setTotalRuns(data.total);
     } catch (error: any) {
       toast.error('Failed to fetch simulation history');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [selectedStrategy]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
 
   const filterHistoryByTimeframe = (data: SimulationResult[]) => {
     const now = new Date();
@@ -60,6 +80,52 @@ const History: React.FC = () => {
 
   const chartData = formatChartData(filteredHistory);
 
+  const toggleExpanded = (id: string) => {
+    setExpandedSimulationId(prev => (prev === id ? null : id));
+  };
+
+  const toggleCompared = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) {
+        return prev.filter(selectedId => selectedId !== id);
+      }
+      if (prev.length >= MAX_COMPARED_RUNS) {
+        toast.error(`Compare at most ${MAX_COMPARED_RUNS} runs at a time`);
+        return prev;
+      }
+      return [...prev, id];
+    });
+  };
+
+  const handleRerun = async (simulation: SimulationResult) => {
+    setRerunningId(simulation._id!);
+    try {
+      const { numberOfDrivers, routeStartTime, maxHoursPerDriver, seed, strategy, maxStopsPerTrip, asOf } = simulation.simulationParams;
+      // Pin the rule set version the run used, so publishing new rules does not change the replay
+      const params = { numberOfDrivers, routeStartTime, maxHoursPerDriver, seed, strategy, maxStopsPerTrip, asOf, ruleSetId: simulation.ruleSet?.ruleSetId };
+      const result = simulation.monteCarlo
+        ? await simulationAPI.runMonteCarlo({ ...params, iterations: simulation.monteCarlo.iterations })
+        : await simulationAPI.run(params);
+
+      const isReproduced = result.totalProfit === simulation.totalProfit
+        && result.onTimeDeliveries === simulation.onTimeDeliveries
+        && result.lateDeliveries === simulation.lateDeliveries;
+
+      if (isReproduced) {
+        toast.success('Re-run reproduced the original result');
+      } else if (!simulation.ruleSet) {
+        toast('Re-run differs from the original, which predates rule set versions, so the re-run used the active rules', { icon: '⚠️' });
+      } else {
+        toast('Re-run differs from the original: drivers, routes or orders have changed since', { icon: '⚠️' });
+      }
+      fetchHistory();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Re-run failed'));
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -88,25 +154,48 @@ const History: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Simulation History</h1>
         </div>
         
-        {/* Timeframe Filter */}
-        <div className="flex items-center space-x-2">
-          <Calendar className="h-4 w-4 text-gray-500" />
-          <select
-            value={selectedTimeframe}
-            onChange={(e) => setSelectedTimeframe(e.target.value as 'all' | 'week' | 'month')}
-            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-          >
-            <option value="all">All Time</option>
-            <option value="week">Past Week</option>
-            <option value="month">Past Month</option>
-          </select>
+        <div className="flex items-center space-x-4">
+          {/* Strategy Filter */}
+          <div className="flex items-center space-x-2">
+            <Shuffle className="h-4 w-4 text-gray-500" />
+            <select
+              value={selectedStrategy}
+              onChange={(e) => setSelectedStrategy(e.target.value as AssignmentStrategyName | '')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              <option value="">All Strategies</option>
+              {STRATEGY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Timeframe Filter */}
+          <div className="flex items-center space-x-2">
+            <Calendar className="h-4 w-4 text-gray-500" />
+            <select
+              value={selectedTimeframe}
+              onChange={(e) => setSelectedTimeframe(e.target.value as 'all' | 'week' | 'month')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              <option value="all">All Time</option>
+              <option value="week">Past Week</option>
+              <option value="month">Past Month</option>
+            </select>
+          </div>
+
+          <ExportButton collection="simulations" params={historyParams} />
         </div>
       </div>
 
       {history.length === 0 ? (
         <div className="text-center py-12">
           <HistoryIcon className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-          <p className="text-gray-500">No simulation history found. Run a simulation to see results here.</p>
+          <p className="text-gray-500">
+            {selectedStrategy
+              ? `No runs used the ${strategyLabel(selectedStrategy)} strategy.`
+              : 'No simulation history found. Run a simulation to see results here.'}
+          </p>
         </div>
       ) : (
         <>
@@ -117,6 +206,9 @@ const History: React.FC = () => {
                 <div>
                   <p className="text-sm font-medium text-gray-600">Total Simulations</p>
                   <p className="text-2xl font-bold text-gray-900">{filteredHistory.length}</p>
+                  {totalRuns > history.length && (
+                    <p className="text-xs text-gray-500">Latest {history.length} of {totalRuns} runs</p>
+                  )}
                 </div>
                 <div className="p-3 bg-blue-100 rounded-full">
                   <TrendingUp className="h-6 w-6 text-blue-600" />
@@ -241,48 +333,142 @@ const History: React.FC = () => {
 
           {/* History Table */}
           <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
-            <div className="px-6 py-4 border-b">
-              <h3 className="text-lg font-semibold text-gray-900">Recent Simulations</h3>
+            <div className="px-6 py-4 border-b flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Recent Simulations</h3>
+                <p className="text-sm text-gray-500">
+                  Select a run to see which driver delivered each order, or tick 2-{MAX_COMPARED_RUNS} runs to compare them
+                </p>
+              </div>
+              <button
+                onClick={() => navigate(`/compare?ids=${compareIds.join(',')}`)}
+                disabled={compareIds.length < 2}
+                className="flex items-center space-x-1 px-3 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <GitCompare className="h-4 w-4" />
+                <span>Compare ({compareIds.length})</span>
+              </button>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="w-10 px-6 py-3" />
+                    <th className="w-10 px-2 py-3" />
                     <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Date</th>
                     <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Drivers</th>
                     <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Start Time</th>
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Strategy</th>
                     <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Profit</th>
                     <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Efficiency</th>
                     <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Deliveries</th>
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Seed</th>
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Rules</th>
+                    <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {filteredHistory.slice(0, 10).map((simulation) => (
-                    <tr key={simulation._id} className="hover:bg-gray-50">
-                      <td className="px-6 py-4 text-sm text-gray-900">
-                        {formatDate(simulation.timestamp)}
-                      </td>
-                      <td className="px-6 py-4 text-sm text-gray-600">
-                        {simulation.simulationParams.numberOfDrivers}
-                      </td>
-                      <td className="px-6 py-4 text-sm text-gray-600">
-                        {simulation.simulationParams.routeStartTime}
-                      </td>
-                      <td className="px-6 py-4 text-sm font-medium text-green-600">
-                        ₹{simulation.totalProfit.toFixed(2)}
-                      </td>
-                      <td className="px-6 py-4 text-sm text-blue-600">
-                        {simulation.efficiencyScore.toFixed(1)}%
-                      </td>
-                      <td className="px-6 py-4 text-sm text-gray-600">
-                        <span className="text-green-600">{simulation.onTimeDeliveries}</span> / 
-                        <span className="text-red-600 ml-1">{simulation.lateDeliveries}</span>
-                      </td>
-                    </tr>
+                  {(showAllRuns ? filteredHistory : filteredHistory.slice(0, RECENT_RUNS_SHOWN)).map((simulation) => (
+                    <React.Fragment key={simulation._id}>
+                      <tr
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => toggleExpanded(simulation._id!)}
+                      >
+                        <td className="px-6 py-4 text-gray-400">
+                          {expandedSimulationId === simulation._id
+                            ? <ChevronDown className="h-4 w-4" />
+                            : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="px-2 py-4" onClick={(e) => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            checked={compareIds.includes(simulation._id!)}
+                            onChange={() => toggleCompared(simulation._id!)}
+                            aria-label="Select for comparison"
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {formatDate(simulation.timestamp)}
+                          {simulation.monteCarlo && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
+                              Monte Carlo ×{simulation.monteCarlo.iterations}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {simulation.simulationParams.numberOfDrivers}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {simulation.simulationParams.routeStartTime}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {strategyLabel(simulation.simulationParams.strategy)}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-medium text-green-600">
+                          ₹{simulation.totalProfit.toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-blue-600">
+                          {simulation.efficiencyScore.toFixed(1)}%
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          <span className="text-green-600">{simulation.onTimeDeliveries}</span> / 
+                          <span className="text-red-600 ml-1">{simulation.lateDeliveries}</span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 font-mono">
+                          {simulation.simulationParams.seed ?? '—'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600" title={simulation.ruleSet?.name}>
+                          {simulation.ruleSet ? `v${simulation.ruleSet.version}` : '—'}
+                        </td>
+                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                          <Link
+                            to={`/history/${simulation._id}`}
+                            onClick={(e) => e.stopPropagation()}
+                            title="Open run details and driver timelines"
+                            className="inline-flex items-center space-x-1 px-2 py-1 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+                          >
+                            <GanttChart className="h-4 w-4" />
+                            <span>Details</span>
+                          </Link>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRerun(simulation);
+                            }}
+                            disabled={simulation.simulationParams.seed === undefined || rerunningId !== null}
+                            title={simulation.simulationParams.seed === undefined
+                              ? 'This run has no recorded seed'
+                              : 'Re-run with the same seed'}
+                            className="inline-flex items-center space-x-1 px-2 py-1 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+                          >
+                            <RotateCcw className={`h-4 w-4 ${rerunningId === simulation._id ? 'animate-spin' : ''}`} />
+                            <span>Re-run</span>
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedSimulationId === simulation._id && (
+                        <tr>
+                          <td colSpan={12} className="px-6 py-4 bg-gray-50">
+                            <AssignmentsTable simulationId={simulation._id!} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
             </div>
+            {filteredHistory.length > RECENT_RUNS_SHOWN && (
+              <div className="px-6 py-3 border-t text-center">
+                <button
+                  onClick={() => setShowAllRuns(prev => !prev)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  {showAllRuns ? `Show the latest ${RECENT_RUNS_SHOWN}` : `Show all ${filteredHistory.length} runs`}
+                </button>
+              </div>
+            )}
           </div>
         </>
       )}
@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Upload, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { importAPI, getApiErrorMessage } from '../services/api';
+import { ImportEntity, ImportField, ImportMode, ImportReport, ImportRowAction } from '../types';
+import Button from '../components/UI/Button';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import { readCsvHeader, remapCsvHeader } from '../utils/csv';
+import toast, { Toaster } from 'react-hot-toast';
+
+const ENTITY_OPTIONS: { value: ImportEntity; label: string; path: string }[] = [
+  { value: 'drivers', label: 'Drivers', path: '/drivers' },
+  { value: 'routes', label: 'Routes', path: '/routes' },
+  { value: 'orders', label: 'Orders', path: '/orders' }
+];
+
+const MODE_OPTIONS: { value: ImportMode; label: string; description: string }[] = [
+  { value: 'insert', label: 'Insert only', description: 'Every row is added as a new record' },
+  { value: 'upsert', label: 'Upsert', description: 'Rows matching an existing record by key update it; the rest are added' },
+  { value: 'sync', label: 'Full sync', description: 'As upsert, and records whose key is not in the file are deleted; records without a key are kept' }
+];
+
+const ACTION_STYLES: Record<ImportRowAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600' }
+};
+
+// Rows shown in the preview; the counts above it always cover the whole file
+const PREVIEW_ROWS = 200;
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Match each field to the column with the same name, ignoring case and punctuation
+const autoMap = (fields: ImportField[], columns: string[]): Record<string, string> =>
+  Object.fromEntries(fields.map(field => [
+    field.name,
+    columns.find(column => normalize(column) === normalize(field.name)) ?? ''
+  ]));
+
+const Import: React.FC = () => {
+  const [fields, setFields] = useState<Record<ImportEntity, ImportField[]> | null>(null);
+  const [entity, setEntity] = useState<ImportEntity>('drivers');
+  const [mode, setMode] = useState<ImportMode>('insert');
+  const [fileName, setFileName] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    const fetchFields = async () => {
+      try {
+        setFields(await importAPI.getFields());
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Failed to fetch import fields'));
+      }
+    };
+
+    fetchFields();
+  }, []);
+
+  const entityFields = fields?.[entity] ?? [];
+  const keyField = entityFields.find(field => field.key);
+
+  const handleEntityChange = (value: ImportEntity) => {
+    setEntity(value);
+    setMapping(fields ? autoMap(fields[value], columns) : {});
+    setReport(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const text = await file.text();
+    const header = readCsvHeader(text);
+    setFileName(file.name);
+    setCsvText(text);
+    setColumns(header);
+    setMapping(autoMap(entityFields, header));
+    setReport(null);
+  };
+
+  const handleModeChange = (value: ImportMode) => {
+    setMode(value);
+    setReport(null);
+  };
+
+  const handleMappingChange = (field: string, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column }));
+    setReport(null);
+  };
+
+  // The file as the server expects it: the header renamed to the mapped field names
+  const buildUpload = (): string | null => {
+    const missing = entityFields.filter(field => field.required && !mapping[field.name]);
+    if (missing.length > 0) {
+      toast.error(`Map a column to ${missing.map(field => field.name).join(', ')}`);
+      return null;
+    }
+    if (mode !== 'insert' && keyField && !mapping[keyField.name]) {
+      toast.error(`Map a column to ${keyField.name} to match rows to existing ${entity}`);
+      return null;
+    }
+
+    const mapped = Object.values(mapping).filter(Boolean);
+    if (new Set(mapped).size !== mapped.length) {
+      toast.error('Each column can only be mapped to one field');
+      return null;
+    }
+
+    const columnFields = columns.map(column =>
+      Object.keys(mapping).find(field => mapping[field] === column) ?? '');
+    return remapCsvHeader(csvText, columnFields);
+  };
+
+  const handlePreview = async () => {
+    const upload = buildUpload();
+    if (upload === null) {
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      setReport(await importAPI.upload(entity, upload, mode, true));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to check the file'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const upload = buildUpload();
+    if (upload === null) {
+      return;
+    }
+    if (report && report.summary.deleted > 0
+      && !confirm(`This deletes ${report.summary.deleted} ${entity} that are not in the file. Continue?`)) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const { summary } = await importAPI.upload(entity, upload, mode, false);
+      toast.success(`${summary.created} created, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.deleted} deleted`);
+      setFileName('');
+      setCsvText('');
+      setColumns([]);
+      setMapping({});
+      setReport(null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Import failed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!fields) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Toaster position="top-right" />
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+  const entityPath = ENTITY_OPTIONS.find(option => option.value === entity)!.path;
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center space-x-3">
+        <Upload className="h-6 w-6 text-blue-600" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import CSV</h1>
+          <p className="text-gray-600 text-sm">Check a file row by row before anything is saved</p>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">1. Choose a File</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Import</label>
+            <select value={entity} onChange={e => handleEntityChange(e.target.value as ImportEntity)} className={selectClass}>
+              {ENTITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">CSV File</label>
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="block w-full text-sm text-gray-700" />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+            <select value={mode} onChange={e => handleModeChange(e.target.value as ImportMode)} className={selectClass}>
+              {MODE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {MODE_OPTIONS.find(option => option.value === mode)!.description}
+              {mode !== 'insert' && keyField && `. Rows are matched on ${keyField.name}; blank cells keep the current value.`}
+            </p>
+          </div>
+        </div>
+        {entity === 'orders' && (
+          <p className="text-xs text-gray-500">Orders refer to routes by name, so import routes first.</p>
+        )}
+      </div>
+
+      {columns.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">2. Map Columns</h3>
+            <p className="text-sm text-gray-500">
+              {fileName}: {columns.length} columns. Columns with matching names are mapped for you; unmapped columns are ignored.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {entityFields.map(field => (
+              <div key={field.name}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.name}{field.required && <span className="text-red-500"> *</span>}
+                  {field.key && <span className="ml-1 text-xs font-normal text-gray-500">(key)</span>}
+                </label>
+                <select
+                  value={mapping[field.name] ?? ''}
+                  onChange={e => handleMappingChange(field.name, e.target.value)}
+                  className={selectClass}
+                >
+                  <option value="">{field.required ? 'Select a column' : 'Not imported'}</option>
+                  {columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handlePreview} isLoading={isChecking}>
+            Check File
+          </Button>
+        </div>
+      )}
+
+      {report && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">3. Preview</h3>
+            <Button
+              variant="success"
+              onClick={handleImport}
+              isLoading={isImporting}
+              disabled={report.rowsWithErrors > 0 || report.blockedDeletions.length > 0}
+            >
+              {mode === 'insert' ? `Import ${report.totalRows} ${entity}` : `Apply ${MODE_OPTIONS.find(option => option.value === mode)!.label}`}
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="flex items-center space-x-1 text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              <span>{report.validRows} of {report.totalRows} rows valid</span>
+            </span>
+            {report.rowsWithErrors > 0 && (
+              <span className="flex items-center space-x-1 text-red-700">
+                <AlertCircle className="h-4 w-4" />
+                <span>{report.rowsWithErrors} with errors. Fix them in the file and check again; nothing is imported until every row is valid</span>
+              </span>
+            )}
+            {report.rowsWithWarnings > 0 && (
+              <span className="flex items-center space-x-1 text-amber-700">
+                <AlertTriangle className="h-4 w-4" />
+                <span>{report.rowsWithWarnings} with warnings</span>
+              </span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {([
+              ['Created', report.summary.created],
+              ['Updated', report.summary.updated],
+              ['Unchanged', report.summary.unchanged],
+              ['Deleted', report.summary.deleted]
+            ] as const).map(([label, count]) => (
+              <div key={label} className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="text-xl font-semibold text-gray-900">{count}</p>
+              </div>
+            ))}
+          </div>
+          {report.toDelete.length > 0 && (
+            <p className="text-sm text-red-700">
+              Not in the file, so deleted by the sync: {report.toDelete.join(', ')}
+            </p>
+          )}
+          {report.blockedDeletions.length > 0 && (
+            <div className="text-sm text-red-700">
+              <p className="flex items-center space-x-1">
+                <AlertCircle className="h-4 w-4" />
+                <span>Nothing is imported while the sync would delete records still in use. Add them to the file, or delete or reassign what uses them first:</span>
+              </p>
+              <ul className="list-disc ml-9 mt-1">
+                {report.blockedDeletions.map((reason, index) => (
+                  <li key={index}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Imported {entity} appear on the <Link to={entityPath} className="text-blue-600 hover:text-blue-800">{entity} page</Link>.
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="text-left px-3 py-2 font-medium text-gray-700">Row</th>
+                  <th className="text-left px-3 py-2 font-medium text-gray-700">Action</th>
+                  {entityFields.filter(field => mapping[field.name]).map(field => (
+                    <th key={field.name} className="text-left px-3 py-2 font-medium text-gray-700">{field.name}</th>
+                  ))}
+                  <th className="text-left px-3 py-2 font-medium text-gray-700">Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.rows.slice(0, PREVIEW_ROWS).map(row => (
+                  <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : row.warnings.length > 0 ? 'bg-amber-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                    <td className="px-3 py-2">
+                      {row.action && (
+                        <span
+                          title={row.changedFields ? `Changes ${row.changedFields.join(', ')}` : undefined}
+                          className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${ACTION_STYLES[row.action].className}`}
+                        >
+                          {ACTION_STYLES[row.action].label}
+                        </span>
+                      )}
+                    </td>
+                    {entityFields.filter(field => mapping[field.name]).map(field => (
+                      <td key={field.name} className="px-3 py-2 text-gray-900">{row.values[field.name]}</td>
+                    ))}
+                    <td className="px-3 py-2">
+                      {row.errors.map((message, index) => (
+                        <p key={index} className="text-red-700">{message}</p>
+                      ))}
+                      {row.warnings.map((message, index) => (
+                        <p key={index} className="text-amber-700">{message}</p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {report.rows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500">Showing the first {PREVIEW_ROWS} of {report.rows.length} rows.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Import;
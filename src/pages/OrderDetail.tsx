@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Package } from 'lucide-react';
+import { ordersAPI, getApiErrorMessage } from '../services/api';
+import { OrderStatus, OrderWithRoute } from '../types';
+import Button from '../components/UI/Button';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_TRANSITIONS } from '../utils/orderStatus';
+import toast, { Toaster } from 'react-hot-toast';
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const OrderDetail: React.FC = () => {
+  const { id = '' } = useParams();
+  const [order, setOrder] = useState<OrderWithRoute | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [note, setNote] = useState('');
+  const [pendingStatus, setPendingStatus] = useState<OrderStatus | null>(null);
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      setIsLoading(true);
+      try {
+        setOrder(await ordersAPI.getById(id));
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Failed to fetch order'));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOrder();
+  }, [id]);
+
+  const handleStatusChange = async (status: OrderStatus) => {
+    setPendingStatus(status);
+    try {
+      setOrder(await ordersAPI.changeStatus(id, status, note.trim() || undefined));
+      setNote('');
+      toast.success(`Order marked ${status}`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to change order status'));
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <Toaster position="top-right" />
+        <p className="text-gray-500">This order could not be loaded.</p>
+        <Link to="/orders" className="text-blue-600 hover:text-blue-800 text-sm">Back to Orders</Link>
+      </div>
+    );
+  }
+
+  const nextStatuses = ORDER_STATUS_TRANSITIONS[order.status];
+  // Newest change first
+  const history = [...(order.statusHistory ?? [])].reverse();
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Package className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Order ₹{order.valueRs.toFixed(2)}</h1>
+            <p className="text-gray-600 text-sm">
+              {order.externalRef ? `${order.externalRef} · ` : ''}{order.routeId?.name ?? 'Unknown Route'} · due {formatDate(order.deliveryTimestamp)} · {order.slaClass ?? 'Standard'}
+            </p>
+          </div>
+        </div>
+        <Link to="/orders" className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to Orders</span>
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border space-y-4">
+        <div className="flex items-center space-x-3">
+          <h3 className="text-lg font-semibold text-gray-900">Status</h3>
+          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${ORDER_STATUS_COLORS[order.status]}`}>
+            {order.status}
+          </span>
+        </div>
+
+        {nextStatuses.length === 0 ? (
+          <p className="text-sm text-gray-500">{order.status} is a final status; this order can no longer change.</p>
+        ) : (
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              maxLength={500}
+              placeholder="Note for the history (optional)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+            <div className="flex flex-wrap gap-2">
+              {nextStatuses.map(status => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={status === 'Pending' ? 'secondary' : 'primary'}
+                  isLoading={pendingStatus === status}
+                  disabled={pendingStatus !== null}
+                  onClick={() => handleStatusChange(status)}
+                >
+                  {status === 'Pending' ? 'Return to Pending' : `Mark ${status}`}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Status History</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">No status changes have been recorded for this order.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+            {history.map((change, index) => (
+              <li key={index} className="ml-5">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white bg-blue-500" />
+                <p className="text-sm font-medium text-gray-900">
+                  {change.from ? `${change.from} → ` : 'Created as '}
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${ORDER_STATUS_COLORS[change.to]}`}>
+                    {change.to}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">{formatDate(change.changedAt)} by {change.changedBy}</p>
+                {change.note && <p className="text-sm text-gray-600 mt-1">{change.note}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetail;
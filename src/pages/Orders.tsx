@@ -1,38 +1,84 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Package } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Edit, Trash2, Package, History, Filter } from 'lucide-react';
 import { ordersAPI, routesAPI } from '../services/api';
-import { Order, Route } from '../types';
+import { OrderListParams, OrderStatus, OrderWithRoute, Page, Route, SlaClass } from '../types';
+import { ORDER_STATUSES, ORDER_STATUS_COLORS, ORDER_STATUS_TRANSITIONS } from '../utils/orderStatus';
 import Button from '../components/UI/Button';
+import ExportButton from '../components/UI/ExportButton';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import Pagination from '../components/UI/Pagination';
+import SortableHeader from '../components/UI/SortableHeader';
+import { optionalNumber, optionalText } from '../utils/listParams';
 import toast, { Toaster } from 'react-hot-toast';
 
+const SLA_CLASSES: SlaClass[] = ['Express', 'Standard', 'Economy'];
+
+const SLA_COLORS: Record<SlaClass, string> = {
+  Express: 'bg-orange-100 text-orange-800',
+  Standard: 'bg-gray-100 text-gray-800',
+  Economy: 'bg-teal-100 text-teal-800'
+};
+
+const emptyFilters = {
+  search: '',
+  status: '' as OrderStatus | '',
+  slaClass: '' as SlaClass | '',
+  routeId: '',
+  minValueRs: '',
+  maxValueRs: '',
+  deliveryFrom: '',
+  deliveryTo: ''
+};
+
+// Date inputs give a local calendar day; the range covers the whole of each end day
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00`).toISOString() : undefined);
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
 const Orders: React.FC = () => {
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [orders, setOrders] = useState<Page<OrderWithRoute> | null>(null);
+  const [params, setParams] = useState<OrderListParams>({ page: 1, sort: '-createdAt' });
+  const [filters, setFilters] = useState(emptyFilters);
   const [routes, setRoutes] = useState<Route[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [editingOrder, setEditingOrder] = useState<OrderWithRoute | null>(null);
   const [formData, setFormData] = useState({
+    externalRef: '',
     valueRs: 0,
     routeId: '',
     deliveryTimestamp: '',
-    status: 'Pending' as 'Pending' | 'In Progress' | 'Delivered' | 'Late'
+    deliveryWindowStart: '',
+    deliveryWindowEnd: '',
+    slaClass: 'Standard' as SlaClass,
+    weightKg: 0,
+    parcels: 1,
+    status: 'Pending' as OrderStatus
   });
 
-  useEffect(() => {
-    Promise.all([fetchOrders(), fetchRoutes()]);
-  }, []);
-
-  const fetchOrders = async () => {
+  const fetchOrders = useCallback(async () => {
     try {
-      const data = await ordersAPI.getAll();
+      const data = await ordersAPI.list(params);
+      // Deleting the last order on a page leaves it empty, so step back to the new last page
+      if (data.items.length === 0 && data.page > 1) {
+        setParams(prev => ({ ...prev, page: Math.max(data.totalPages, 1) }));
+        return;
+      }
       setOrders(data);
     } catch (error) {
       toast.error('Failed to fetch orders');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [params]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  useEffect(() => {
+    fetchRoutes();
+  }, []);
 
   const fetchRoutes = async () => {
     try {
@@ -45,9 +91,15 @@ const Orders: React.FC = () => {
 
   const resetForm = () => {
     setFormData({
+      externalRef: '',
       valueRs: 0,
       routeId: '',
       deliveryTimestamp: '',
+      deliveryWindowStart: '',
+      deliveryWindowEnd: '',
+      slaClass: 'Standard',
+      weightKg: 0,
+      parcels: 1,
       status: 'Pending'
     });
     setEditingOrder(null);
@@ -72,10 +124,22 @@ const Orders: React.FC = () => {
       return;
     }
 
+    if (formData.deliveryWindowStart && formData.deliveryWindowEnd
+      && new Date(formData.deliveryWindowEnd) < new Date(formData.deliveryWindowStart)) {
+      toast.error('Delivery window cannot end before it starts');
+      return;
+    }
+
     try {
       const orderData = {
         ...formData,
-        deliveryTimestamp: new Date(formData.deliveryTimestamp)
+        externalRef: formData.externalRef.trim() || null,
+        deliveryTimestamp: new Date(formData.deliveryTimestamp),
+        deliveryWindowStart: formData.deliveryWindowStart ? new Date(formData.deliveryWindowStart) : null,
+        // A blank end is left out, except to clear the end an order already has
+        deliveryWindowEnd: formData.deliveryWindowEnd
+          ? new Date(formData.deliveryWindowEnd)
+          : editingOrder?.deliveryWindowEnd ? null : undefined
       };
 
       if (editingOrder) {
@@ -93,12 +157,18 @@ const Orders: React.FC = () => {
     }
   };
 
-  const handleEdit = (order: Order) => {
+  const handleEdit = (order: OrderWithRoute) => {
     setEditingOrder(order);
     setFormData({
+      externalRef: order.externalRef ?? '',
       valueRs: order.valueRs,
-      routeId: order.routeId,
+      routeId: order.routeId?._id ?? '',
       deliveryTimestamp: new Date(order.deliveryTimestamp).toISOString().slice(0, 16),
+      deliveryWindowStart: order.deliveryWindowStart ? new Date(order.deliveryWindowStart).toISOString().slice(0, 16) : '',
+      deliveryWindowEnd: order.deliveryWindowEnd ? new Date(order.deliveryWindowEnd).toISOString().slice(0, 16) : '',
+      slaClass: order.slaClass ?? 'Standard',
+      weightKg: order.weightKg ?? 0,
+      parcels: order.parcels ?? 1,
       status: order.status
     });
     setShowForm(true);
@@ -118,27 +188,49 @@ const Orders: React.FC = () => {
     }
   };
 
+  // Any new filter or sort starts again from the first page
+  const updateParams = (changes: OrderListParams) => {
+    setParams(prev => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({
+      search: optionalText(filters.search),
+      status: filters.status || undefined,
+      slaClass: filters.slaClass || undefined,
+      routeId: filters.routeId || undefined,
+      minValueRs: optionalNumber(filters.minValueRs),
+      maxValueRs: optionalNumber(filters.maxValueRs),
+      deliveryFrom: startOfDay(filters.deliveryFrom),
+      deliveryTo: endOfDay(filters.deliveryTo)
+    });
+  };
+
+  const handleClearFilters = () => {
+    setFilters(emptyFilters);
+    setParams(prev => ({ page: 1, sort: prev.sort }));
+  };
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'valueRs' ? parseFloat(value) || 0 : value
+      [name]: ['valueRs', 'weightKg', 'parcels'].includes(name) ? parseFloat(value) || 0 : value
     }));
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Delivered': return 'bg-green-100 text-green-800';
-      case 'In Progress': return 'bg-blue-100 text-blue-800';
-      case 'Late': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
+  // An existing order can only keep its status or move to an allowed next one
+  const statusOptions = editingOrder
+    ? [editingOrder.status, ...ORDER_STATUS_TRANSITIONS[editingOrder.status]]
+    : ORDER_STATUSES;
 
-  const getRouteName = (routeId: string) => {
-    const route = routes.find(r => r._id === routeId);
-    return route ? route.name : 'Unknown Route';
-  };
+  const isFiltered = Object.entries(params).some(([key, value]) => !['page', 'sort'].includes(key) && value !== undefined);
 
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -150,7 +242,7 @@ const Orders: React.FC = () => {
     });
   };
 
-  if (isLoading) {
+  if (isLoading || !orders) {
     return (
       <div className="flex items-center justify-center h-64">
         <LoadingSpinner size="lg" />
@@ -167,13 +259,16 @@ const Orders: React.FC = () => {
           <Package className="h-6 w-6 text-blue-600" />
           <h1 className="text-2xl font-bold text-gray-900">Orders Management</h1>
         </div>
-        <Button 
-          onClick={() => setShowForm(true)}
-          className="flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add Order</span>
-        </Button>
+        <div className="flex items-center space-x-3">
+          <ExportButton collection="orders" params={params} />
+          <Button 
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Order</span>
+          </Button>
+        </div>
       </div>
 
       {/* Order Form Modal */}
@@ -201,6 +296,21 @@ const Orders: React.FC = () => {
                 />
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  External Reference
+                </label>
+                <input
+                  type="text"
+                  name="externalRef"
+                  value={formData.externalRef}
+                  onChange={handleChange}
+                  maxLength={100}
+                  placeholder="Optional, e.g. the order number in your shop system"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Route
@@ -234,6 +344,81 @@ const Orders: React.FC = () => {
                   required
                 />
               </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Window Opens
+                  </label>
+                  <input
+                    type="datetime-local"
+                    name="deliveryWindowStart"
+                    value={formData.deliveryWindowStart}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Window Closes
+                  </label>
+                  <input
+                    type="datetime-local"
+                    name="deliveryWindowEnd"
+                    value={formData.deliveryWindowEnd}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 -mt-2">Optional. Without a closing time, lateness is judged against the delivery time.</p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  SLA Class
+                </label>
+                <select
+                  name="slaClass"
+                  value={formData.slaClass}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {SLA_CLASSES.map(slaClass => (
+                    <option key={slaClass} value={slaClass}>{slaClass}</option>
+                  ))}
+                </select>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Weight (kg)
+                  </label>
+                  <input
+                    type="number"
+                    name="weightKg"
+                    value={formData.weightKg}
+                    onChange={handleChange}
+                    min="0"
+                    step="0.1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Parcels
+                  </label>
+                  <input
+                    type="number"
+                    name="parcels"
+                    value={formData.parcels}
+                    onChange={handleChange}
+                    min="1"
+                    step="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -245,10 +430,9 @@ const Orders: React.FC = () => {
                   onChange={handleChange}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value="Pending">Pending</option>
-                  <option value="In Progress">In Progress</option>
-                  <option value="Delivered">Delivered</option>
-                  <option value="Late">Late</option>
+                  {statusOptions.map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
                 </select>
               </div>
               
@@ -270,85 +454,181 @@ const Orders: React.FC = () => {
         </div>
       )}
 
+      {/* Filters */}
+      <form onSubmit={handleApplyFilters} className="bg-white p-4 rounded-xl shadow-sm border">
+        <div className="flex items-center space-x-2 mb-3">
+          <Filter className="h-4 w-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-900">Filter Orders</h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Search</label>
+            <input
+              type="text"
+              name="search"
+              value={filters.search}
+              onChange={handleFilterChange}
+              maxLength={100}
+              placeholder="External reference or route"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Status</label>
+            <select name="status" value={filters.status} onChange={handleFilterChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm">
+              <option value="">Any</option>
+              {ORDER_STATUSES.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">SLA Class</label>
+            <select name="slaClass" value={filters.slaClass} onChange={handleFilterChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm">
+              <option value="">Any</option>
+              {SLA_CLASSES.map(slaClass => (
+                <option key={slaClass} value={slaClass}>{slaClass}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Route</label>
+            <select name="routeId" value={filters.routeId} onChange={handleFilterChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm">
+              <option value="">Any</option>
+              {routes.map(route => (
+                <option key={route._id} value={route._id}>{route.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Value (₹)</label>
+            <div className="flex items-center space-x-1">
+              <input type="number" name="minValueRs" min="0" value={filters.minValueRs} onChange={handleFilterChange} placeholder="Min" className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm" />
+              <input type="number" name="maxValueRs" min="0" value={filters.maxValueRs} onChange={handleFilterChange} placeholder="Max" className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Delivery From</label>
+            <input type="date" name="deliveryFrom" value={filters.deliveryFrom} onChange={handleFilterChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Delivery To</label>
+            <input type="date" name="deliveryTo" value={filters.deliveryTo} onChange={handleFilterChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm" />
+          </div>
+          <div className="flex space-x-2">
+            <Button type="submit" size="sm">Apply</Button>
+            <Button type="button" size="sm" variant="secondary" onClick={handleClearFilters}>Clear</Button>
+          </div>
+        </div>
+      </form>
+
       {/* Orders List */}
       <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
-        {orders.length === 0 ? (
+        {orders.total === 0 ? (
           <div className="text-center py-12">
             <Package className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-500">No orders found. Add your first order to get started.</p>
+            <p className="text-gray-500">
+              {isFiltered ? 'No orders match these filters.' : 'No orders found. Add your first order to get started.'}
+            </p>
           </div>
         ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b">
-                <tr>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Order Value
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Route
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Delivery Time
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Status
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Priority
-                  </th>
-                  <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {orders.map((order) => (
-                  <tr key={order._id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4">
-                      <div className="font-medium text-gray-900">₹{order.valueRs.toFixed(2)}</div>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {getRouteName(order.routeId)}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {formatDate(order.deliveryTimestamp)}
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(order.status)}`}>
-                        {order.status}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
-                        order.valueRs > 1000 
-                          ? 'bg-purple-100 text-purple-800' 
-                          : 'bg-gray-100 text-gray-800'
-                      }`}>
-                        {order.valueRs > 1000 ? 'High Value' : 'Standard'}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 text-right">
-                      <div className="flex items-center justify-end space-x-2">
-                        <button
-                          onClick={() => handleEdit(order)}
-                          className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(order._id!)}
-                          className="p-1 text-red-600 hover:text-red-800 transition-colors"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      </div>
-                    </td>
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <SortableHeader label="Order Value" field="valueRs" sort={params.sort!} onSortChange={sort => updateParams({ sort })} />
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Route
+                    </th>
+                    <SortableHeader label="Delivery Time" field="deliveryTimestamp" sort={params.sort!} onSortChange={sort => updateParams({ sort })} />
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      SLA
+                    </th>
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Load
+                    </th>
+                    <SortableHeader label="Status" field="status" sort={params.sort!} onSortChange={sort => updateParams({ sort })} />
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Priority
+                    </th>
+                    <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">
+                      Actions
+                    </th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {orders.items.map((order) => (
+                    <tr key={order._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="font-medium text-gray-900">₹{order.valueRs.toFixed(2)}</div>
+                        {order.externalRef && <div className="text-xs text-gray-400">{order.externalRef}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {order.routeId?.name ?? 'Unknown Route'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        <div>{formatDate(order.deliveryTimestamp)}</div>
+                        {(order.deliveryWindowStart || order.deliveryWindowEnd) && (
+                          <div className="text-xs text-gray-400">
+                            Window {order.deliveryWindowStart ? formatDate(order.deliveryWindowStart) : '…'}
+                            {' – '}
+                            {order.deliveryWindowEnd ? formatDate(order.deliveryWindowEnd) : '…'}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${SLA_COLORS[order.slaClass ?? 'Standard']}`}>
+                          {order.slaClass ?? 'Standard'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {order.weightKg ?? 0} kg · {order.parcels ?? 1} parcel{(order.parcels ?? 1) === 1 ? '' : 's'}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${ORDER_STATUS_COLORS[order.status]}`}>
+                          {order.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                          order.valueRs > 1000 
+                            ? 'bg-purple-100 text-purple-800' 
+                            : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {order.valueRs > 1000 ? 'High Value' : 'Standard'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Link
+                            to={`/orders/${order._id}`}
+                            title="Status history"
+                            className="p-1 text-gray-600 hover:text-gray-800 transition-colors"
+                          >
+                            <History className="h-4 w-4" />
+                          </Link>
+                          <button
+                            onClick={() => handleEdit(order)}
+                            className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(order._id!)}
+                            className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pagination page={orders} onPageChange={page => setParams(prev => ({ ...prev, page }))} />
+          </>
         )}
       </div>
     </div>
@@ -1,45 +1,141 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Route as RouteIcon, Navigation } from 'lucide-react';
-import { routesAPI } from '../services/api';
-import { Route } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, Route as RouteIcon, Navigation, MapPin, X, Filter } from 'lucide-react';
+import { routesAPI, rulesAPI, getApiErrorMessage } from '../services/api';
+import { BusinessRules, Dependants, GeoPoint, NearbyRoute, Page, Position, Route, RouteListParams, TrafficLevel } from '../types';
 import Button from '../components/UI/Button';
+import ExportButton from '../components/UI/ExportButton';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import Pagination from '../components/UI/Pagination';
+import SortableHeader from '../components/UI/SortableHeader';
+import RouteMap, { SearchArea } from '../components/Routes/RouteMap';
+import DeleteRouteDialog from '../components/Routes/DeleteRouteDialog';
+import { optionalNumber, optionalText } from '../utils/listParams';
 import toast, { Toaster } from 'react-hot-toast';
 
+const emptyForm = {
+  name: '',
+  distanceKm: 0,
+  trafficLevel: 'Low' as 'Low' | 'Medium' | 'High',
+  baseTimeMinutes: 0,
+  startLat: '',
+  startLng: '',
+  endLat: '',
+  endLng: '',
+  waypoints: ''
+};
+
+const emptyFilters = {
+  search: '',
+  trafficLevel: '' as TrafficLevel | '',
+  minDistanceKm: '',
+  maxDistanceKm: ''
+};
+
+const isValidPosition = ([lng, lat]: Position) =>
+  Number.isFinite(lng) && Number.isFinite(lat) && lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90;
+
+// Both fields blank means no point; anything else must be a valid latitude/longitude pair
+const toGeoPoint = (lat: string, lng: string): GeoPoint | null | undefined => {
+  if (!lat.trim() && !lng.trim()) {
+    return null;
+  }
+  const coordinates: Position = [parseFloat(lng), parseFloat(lat)];
+  return isValidPosition(coordinates) ? { type: 'Point', coordinates } : undefined;
+};
+
+// One "lat, lng" pair per line
+const parseWaypoints = (text: string): Position[] | undefined => {
+  const positions = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [lat, lng] = line.split(',').map(part => parseFloat(part));
+      return [lng, lat] as Position;
+    });
+  return positions.every(isValidPosition) ? positions : undefined;
+};
+
 const Routes: React.FC = () => {
+  // Every route is drawn on the map; the table shows one page of the filtered list
   const [routes, setRoutes] = useState<Route[]>([]);
+  const [routePage, setRoutePage] = useState<Page<Route> | null>(null);
+  const [params, setParams] = useState<RouteListParams>({ page: 1, sort: '-createdAt' });
+  const [filters, setFilters] = useState(emptyFilters);
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingRoute, setEditingRoute] = useState<Route | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    distanceKm: 0,
-    trafficLevel: 'Low' as 'Low' | 'Medium' | 'High',
-    baseTimeMinutes: 0
-  });
+  const [rules, setRules] = useState<BusinessRules | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [nearQuery, setNearQuery] = useState({ lat: '', lng: '', radiusKm: '5' });
+  const [nearbyRoutes, setNearbyRoutes] = useState<NearbyRoute[] | null>(null);
+  const [searchArea, setSearchArea] = useState<SearchArea | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [routeToDelete, setRouteToDelete] = useState<{ route: Route; dependants: Dependants } | null>(null);
+
+  const fetchRoutePage = useCallback(async () => {
+    try {
+      const data = await routesAPI.list(params);
+      // Deleting the last route on a page leaves it empty, so step back to the new last page
+      if (data.items.length === 0 && data.page > 1) {
+        setParams(prev => ({ ...prev, page: Math.max(data.totalPages, 1) }));
+        return;
+      }
+      setRoutePage(data);
+    } catch (error) {
+      toast.error('Failed to fetch routes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params]);
+
+  useEffect(() => {
+    fetchRoutePage();
+  }, [fetchRoutePage]);
 
   useEffect(() => {
     fetchRoutes();
+    rulesAPI.getActive()
+      .then(ruleSet => setRules(ruleSet.rules))
+      .catch(() => toast.error('Failed to fetch fuel rates'));
   }, []);
 
   const fetchRoutes = async () => {
     try {
       const data = await routesAPI.getAll();
       setRoutes(data);
-    } catch (error) {
+    } catch {
       toast.error('Failed to fetch routes');
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const resetForm = () => {
-    setFormData({
-      name: '',
-      distanceKm: 0,
-      trafficLevel: 'Low',
-      baseTimeMinutes: 0
+  const refresh = () => {
+    fetchRoutes();
+    fetchRoutePage();
+  };
+
+  // Any new filter or sort starts again from the first page
+  const updateParams = (changes: RouteListParams) => {
+    setParams(prev => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({
+      search: optionalText(filters.search),
+      trafficLevel: filters.trafficLevel || undefined,
+      minDistanceKm: optionalNumber(filters.minDistanceKm),
+      maxDistanceKm: optionalNumber(filters.maxDistanceKm)
     });
+  };
+
+  const handleClearFilters = () => {
+    setFilters(emptyFilters);
+    updateParams({ search: undefined, trafficLevel: undefined, minDistanceKm: undefined, maxDistanceKm: undefined });
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
     setEditingRoute(null);
     setShowForm(false);
   };
@@ -62,16 +158,50 @@ const Routes: React.FC = () => {
       return;
     }
 
+    const startLocation = toGeoPoint(formData.startLat, formData.startLng);
+    const endLocation = toGeoPoint(formData.endLat, formData.endLng);
+    const waypoints = parseWaypoints(formData.waypoints);
+
+    if (startLocation === undefined || endLocation === undefined) {
+      toast.error('Enter a latitude (-90 to 90) and longitude (-180 to 180), or leave both blank');
+      return;
+    }
+
+    if (!startLocation !== !endLocation) {
+      toast.error('A route needs both a start and an end point, or neither');
+      return;
+    }
+
+    if (waypoints === undefined) {
+      toast.error('Each waypoint must be a "latitude, longitude" pair on its own line');
+      return;
+    }
+
+    if (waypoints.length > 0 && !startLocation) {
+      toast.error('Waypoints need a start and end point');
+      return;
+    }
+
+    const routeData = {
+      name: formData.name,
+      distanceKm: formData.distanceKm,
+      trafficLevel: formData.trafficLevel,
+      baseTimeMinutes: formData.baseTimeMinutes,
+      startLocation,
+      endLocation,
+      waypoints: waypoints.length > 0 ? { type: 'MultiPoint' as const, coordinates: waypoints } : null
+    };
+
     try {
       if (editingRoute) {
-        await routesAPI.update(editingRoute._id!, formData);
+        await routesAPI.update(editingRoute._id!, routeData);
         toast.success('Route updated successfully');
       } else {
-        await routesAPI.create(formData);
+        await routesAPI.create(routeData);
         toast.success('Route created successfully');
       }
       
-      fetchRoutes();
+      refresh();
       resetForm();
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Operation failed');
@@ -84,26 +214,75 @@ const Routes: React.FC = () => {
       name: route.name,
       distanceKm: route.distanceKm,
       trafficLevel: route.trafficLevel,
-      baseTimeMinutes: route.baseTimeMinutes
+      baseTimeMinutes: route.baseTimeMinutes,
+      startLat: route.startLocation ? String(route.startLocation.coordinates[1]) : '',
+      startLng: route.startLocation ? String(route.startLocation.coordinates[0]) : '',
+      endLat: route.endLocation ? String(route.endLocation.coordinates[1]) : '',
+      endLng: route.endLocation ? String(route.endLocation.coordinates[0]) : '',
+      waypoints: (route.waypoints?.coordinates ?? []).map(([lng, lat]) => `${lat}, ${lng}`).join('\n')
     });
     setShowForm(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this route?')) {
+  const handleFindNearby = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lat = parseFloat(nearQuery.lat);
+    const lng = parseFloat(nearQuery.lng);
+    const radiusKm = parseFloat(nearQuery.radiusKm);
+
+    if (!isValidPosition([lng, lat])) {
+      toast.error('Enter a latitude (-90 to 90) and longitude (-180 to 180)');
+      return;
+    }
+
+    if (!(radiusKm > 0)) {
+      toast.error('Radius must be greater than 0');
       return;
     }
 
+    setIsSearching(true);
+    try {
+      setNearbyRoutes(await routesAPI.getNear(lat, lng, radiusKm));
+      setSearchArea({ lat, lng, radiusKm });
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to find nearby routes'));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const clearNearby = () => {
+    setNearbyRoutes(null);
+    setSearchArea(null);
+  };
+
+  // A route without orders is deleted after a plain confirmation; otherwise the
+  // dialog shows its orders and asks whether to move or delete them
+  const handleDelete = async (route: Route) => {
     try {
-      await routesAPI.delete(id);
+      const dependants = await routesAPI.getDependants(route._id!);
+      if (dependants.count > 0) {
+        setRouteToDelete({ route, dependants });
+        return;
+      }
+      if (!confirm('Are you sure you want to delete this route? No orders use it.')) {
+        return;
+      }
+      await routesAPI.delete(route._id!);
       toast.success('Route deleted successfully');
-      fetchRoutes();
+      refresh();
     } catch (error) {
-      toast.error('Failed to delete route');
+      toast.error(getApiErrorMessage(error, 'Failed to delete route'));
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleDeleted = () => {
+    setRouteToDelete(null);
+    refresh();
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -121,13 +300,13 @@ const Routes: React.FC = () => {
     }
   };
 
-  const calculateFuelCost = (route: Route) => {
-    const baseCost = route.distanceKm * 5;
-    const trafficSurcharge = route.trafficLevel === 'High' ? route.distanceKm * 2 : 0;
+  const calculateFuelCost = (route: Route, rates: BusinessRules) => {
+    const baseCost = route.distanceKm * rates.fuelBaseRatePerKm;
+    const trafficSurcharge = route.trafficLevel === 'High' ? route.distanceKm * rates.fuelHighTrafficSurchargePerKm : 0;
     return baseCost + trafficSurcharge;
   };
 
-  if (isLoading) {
+  if (isLoading || !routePage) {
     return (
       <div className="flex items-center justify-center h-64">
         <LoadingSpinner size="lg" />
@@ -144,19 +323,22 @@ const Routes: React.FC = () => {
           <Navigation className="h-6 w-6 text-blue-600" />
           <h1 className="text-2xl font-bold text-gray-900">Routes Management</h1>
         </div>
-        <Button 
-          onClick={() => setShowForm(true)}
-          className="flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Add Route</span>
-        </Button>
+        <div className="flex items-center space-x-3">
+          <ExportButton collection="routes" params={params} />
+          <Button 
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Route</span>
+          </Button>
+        </div>
       </div>
 
       {/* Route Form Modal */}
       {showForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-xl shadow-xl max-w-md w-full mx-4">
+          <div className="bg-white p-6 rounded-xl shadow-xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
               {editingRoute ? 'Edit Route' : 'Add New Route'}
             </h3>
@@ -223,6 +405,42 @@ const Routes: React.FC = () => {
                   required
                 />
               </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Start (lat, lng)
+                  </label>
+                  <div className="flex space-x-2">
+                    <input type="number" name="startLat" value={formData.startLat} onChange={handleChange} step="any" placeholder="Lat" className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                    <input type="number" name="startLng" value={formData.startLng} onChange={handleChange} step="any" placeholder="Lng" className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End (lat, lng)
+                  </label>
+                  <div className="flex space-x-2">
+                    <input type="number" name="endLat" value={formData.endLat} onChange={handleChange} step="any" placeholder="Lat" className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                    <input type="number" name="endLng" value={formData.endLng} onChange={handleChange} step="any" placeholder="Lng" className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Waypoints
+                </label>
+                <textarea
+                  name="waypoints"
+                  value={formData.waypoints}
+                  onChange={handleChange}
+                  rows={3}
+                  placeholder={'One "lat, lng" per line, in travel order'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">Coordinates are optional and only used for the map and nearby search</p>
+              </div>
               
               <div className="flex space-x-3 pt-4">
                 <Button type="submit" className="flex-1">
@@ -242,79 +460,209 @@ const Routes: React.FC = () => {
         </div>
       )}
 
+      {/* Coverage Map */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Coverage Map</h3>
+            <p className="text-sm text-gray-500">Find routes that start or end near a point.</p>
+          </div>
+          <form onSubmit={handleFindNearby} className="flex flex-wrap items-end gap-2">
+            <input
+              type="number"
+              value={nearQuery.lat}
+              onChange={e => setNearQuery(prev => ({ ...prev, lat: e.target.value }))}
+              step="any"
+              placeholder="Latitude"
+              className="w-28 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              value={nearQuery.lng}
+              onChange={e => setNearQuery(prev => ({ ...prev, lng: e.target.value }))}
+              step="any"
+              placeholder="Longitude"
+              className="w-28 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              value={nearQuery.radiusKm}
+              onChange={e => setNearQuery(prev => ({ ...prev, radiusKm: e.target.value }))}
+              min="0.1"
+              step="any"
+              title="Radius (km)"
+              className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-500 pb-1.5">km</span>
+            <Button type="submit" size="sm" isLoading={isSearching} className="flex items-center space-x-1">
+              <MapPin className="h-4 w-4" />
+              <span>Find Nearby</span>
+            </Button>
+            {nearbyRoutes && (
+              <Button type="button" size="sm" variant="secondary" onClick={clearNearby} className="flex items-center space-x-1">
+                <X className="h-4 w-4" />
+                <span>Clear</span>
+              </Button>
+            )}
+          </form>
+        </div>
+
+        <RouteMap
+          routes={routes}
+          highlightedIds={nearbyRoutes ? new Set(nearbyRoutes.map(route => route._id!)) : undefined}
+          searchArea={searchArea}
+        />
+
+        {nearbyRoutes && (
+          <p className="text-sm text-gray-600">
+            {nearbyRoutes.length === 0
+              ? 'No routes start or end within that radius.'
+              : nearbyRoutes.map(route => `${route.name} (${route.nearestKm.toFixed(1)} km)`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      {routeToDelete && (
+        <DeleteRouteDialog
+          route={routeToDelete.route}
+          dependants={routeToDelete.dependants}
+          routes={routes}
+          onClose={() => setRouteToDelete(null)}
+          onDeleted={handleDeleted}
+        />
+      )}
+
+      {/* Filters */}
+      <form onSubmit={handleApplyFilters} className="bg-white p-4 rounded-xl shadow-sm border">
+        <div className="flex items-center space-x-2 mb-3">
+          <Filter className="h-4 w-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-900">Filter Routes</h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-xs text-gray-500 mb-1">Name</label>
+            <input
+              type="text"
+              value={filters.search}
+              onChange={e => setFilters(prev => ({ ...prev, search: e.target.value }))}
+              maxLength={100}
+              placeholder="Search by name"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Traffic Level</label>
+            <select
+              value={filters.trafficLevel}
+              onChange={e => setFilters(prev => ({ ...prev, trafficLevel: e.target.value as TrafficLevel | '' }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              <option value="">Any</option>
+              <option value="Low">Low</option>
+              <option value="Medium">Medium</option>
+              <option value="High">High</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Distance (km)</label>
+            <div className="flex items-center space-x-1">
+              <input
+                type="number"
+                min="0"
+                value={filters.minDistanceKm}
+                onChange={e => setFilters(prev => ({ ...prev, minDistanceKm: e.target.value }))}
+                placeholder="Min"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <input
+                type="number"
+                min="0"
+                value={filters.maxDistanceKm}
+                onChange={e => setFilters(prev => ({ ...prev, maxDistanceKm: e.target.value }))}
+                placeholder="Max"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Button type="submit" size="sm">Apply</Button>
+            <Button type="button" size="sm" variant="secondary" onClick={handleClearFilters}>Clear</Button>
+          </div>
+        </div>
+      </form>
+
       {/* Routes List */}
       <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
-        {routes.length === 0 ? (
+        {routePage.total === 0 ? (
           <div className="text-center py-12">
             <RouteIcon className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-500">No routes found. Add your first route to get started.</p>
+            <p className="text-gray-500">
+              {routes.length === 0 ? 'No routes found. Add your first route to get started.' : 'No routes match these filters.'}
+            </p>
           </div>
         ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b">
-                <tr>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Route Name
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Distance
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Traffic Level
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Base Time
-                  </th>
-                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
-                    Est. Fuel Cost
-                  </th>
-                  <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {routes.map((route) => (
-                  <tr key={route._id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4">
-                      <div className="font-medium text-gray-900">{route.name}</div>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {route.distanceKm} km
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getTrafficColor(route.trafficLevel)}`}>
-                        {route.trafficLevel}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {route.baseTimeMinutes} min
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      ₹{calculateFuelCost(route).toFixed(2)}
-                    </td>
-                    <td className="px-6 py-4 text-right">
-                      <div className="flex items-center justify-end space-x-2">
-                        <button
-                          onClick={() => handleEdit(route)}
-                          className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(route._id!)}
-                          className="p-1 text-red-600 hover:text-red-800 transition-colors"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      </div>
-                    </td>
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <SortableHeader label="Route Name" field="name" sort={params.sort!} onSortChange={sort => updateParams({ sort })} />
+                    <SortableHeader label="Distance" field="distanceKm" sort={params.sort!} onSortChange={sort => updateParams({ sort })} />
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Traffic Level
+                    </th>
+                    <SortableHeader label="Base Time" field="baseTimeMinutes" sort={params.sort!} onSortChange={sort => updateParams({ sort })} />
+                    <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                      Est. Fuel Cost
+                    </th>
+                    <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">
+                      Actions
+                    </th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {routePage.items.map((route) => (
+                    <tr key={route._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="font-medium text-gray-900">{route.name}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {route.distanceKm} km
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getTrafficColor(route.trafficLevel)}`}>
+                          {route.trafficLevel}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {route.baseTimeMinutes} min
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {rules ? `₹${calculateFuelCost(route, rules).toFixed(2)}` : '—'}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            onClick={() => handleEdit(route)}
+                            className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(route)}
+                            className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pagination page={routePage} onPageChange={page => setParams(prev => ({ ...prev, page }))} />
+          </>
         )}
       </div>
     </div>
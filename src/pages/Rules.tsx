@@ -0,0 +1,428 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, Plus, Trash2, CheckCircle, Upload } from 'lucide-react';
+import { rulesAPI, getApiErrorMessage } from '../services/api';
+import { BusinessRules, RuleSet, TrafficBand, TrafficLevel } from '../types';
+import Button from '../components/UI/Button';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import toast, { Toaster } from 'react-hot-toast';
+
+type NumericRule = Exclude<keyof BusinessRules, 'trafficBands'>;
+
+const RULE_FIELDS: { section: string; fields: { key: NumericRule; label: string; step: string; percent?: boolean }[] }[] = [
+  {
+    section: 'Penalties & Bonuses',
+    fields: [
+      { key: 'expressLatePenaltyRs', label: 'Late Penalty – Express (₹)', step: '1' },
+      { key: 'latePenaltyRs', label: 'Late Penalty – Standard (₹)', step: '1' },
+      { key: 'economyLatePenaltyRs', label: 'Late Penalty – Economy (₹)', step: '1' },
+      { key: 'lateGraceMinutes', label: 'Late Grace Period (minutes)', step: '1' },
+      { key: 'highValueThresholdRs', label: 'High-Value Threshold (₹)', step: '1' },
+      { key: 'highValueBonusRate', label: 'High-Value Bonus (%)', step: '0.5', percent: true }
+    ]
+  },
+  {
+    section: 'Driver Fatigue',
+    fields: [
+      { key: 'fatigueWeeklyHoursThreshold', label: 'Past Week Hours Threshold', step: '1' },
+      { key: 'fatigueSlowdownFactor', label: 'Slowdown Factor (× travel time)', step: '0.05' },
+      { key: 'fatigueSlowdownPerHour', label: 'In-Shift Slowdown per Hour Since Break (%)', step: '0.5', percent: true },
+      { key: 'maxContinuousDrivingMinutes', label: 'Max Continuous Driving (minutes)', step: '15' },
+      { key: 'breakMinutes', label: 'Mandatory Break (minutes)', step: '5' },
+      { key: 'dailyDrivingLimitHours', label: 'Daily Driving Limit (hours)', step: '0.5' }
+    ]
+  },
+  {
+    section: 'Fuel',
+    fields: [
+      { key: 'fuelBaseRatePerKm', label: 'Base Rate (₹/km)', step: '0.5' },
+      { key: 'fuelHighTrafficSurchargePerKm', label: 'High Traffic Surcharge (₹/km)', step: '0.5' }
+    ]
+  },
+  {
+    section: 'Trips',
+    fields: [
+      { key: 'stopServiceMinutes', label: 'Time per Extra Stop (minutes)', step: '1' }
+    ]
+  }
+];
+
+const TRAFFIC_LEVELS: TrafficLevel[] = ['Low', 'Medium', 'High'];
+
+const Rules: React.FC = () => {
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [activate, setActivate] = useState(true);
+  const [rules, setRules] = useState<BusinessRules | null>(null);
+
+  useEffect(() => {
+    fetchRuleSets();
+  }, []);
+
+  const loadIntoEditor = (ruleSet: RuleSet) => {
+    setName(ruleSet.name);
+    setDescription(ruleSet.description || '');
+    setRules(ruleSet.rules);
+  };
+
+  const fetchRuleSets = async () => {
+    try {
+      const active = await rulesAPI.getActive();
+      const data = await rulesAPI.getAll();
+      setRuleSets(data);
+      setRules(prev => prev ?? active.rules);
+      setName(prev => prev || active.name);
+    } catch {
+      toast.error('Failed to fetch business rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRuleChange = (key: NumericRule, value: string, percent?: boolean) => {
+    const parsed = parseFloat(value) || 0;
+    setRules(prev => prev && { ...prev, [key]: percent ? parsed / 100 : parsed });
+  };
+
+  const updateBand = (index: number, changes: Partial<TrafficBand>) => {
+    setRules(prev => prev && {
+      ...prev,
+      trafficBands: prev.trafficBands.map((band, i) => (i === index ? { ...band, ...changes } : band))
+    });
+  };
+
+  const updateMultiplier = (index: number, level: TrafficLevel, value: string) => {
+    const band = rules!.trafficBands[index];
+    updateBand(index, { multipliers: { ...band.multipliers, [level]: parseFloat(value) || 0 } });
+  };
+
+  const addBand = () => {
+    setRules(prev => prev && {
+      ...prev,
+      trafficBands: [
+        ...prev.trafficBands,
+        { name: 'New Band', startHour: 0, endHour: 1, multipliers: { Low: 1, Medium: 1, High: 1 } }
+      ]
+    });
+  };
+
+  const removeBand = (index: number) => {
+    setRules(prev => prev && {
+      ...prev,
+      trafficBands: prev.trafficBands.filter((_, i) => i !== index)
+    });
+  };
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!rules) {
+      return;
+    }
+
+    if (!name.trim()) {
+      toast.error('Rule set name is required');
+      return;
+    }
+
+    if (rules.trafficBands.length === 0) {
+      toast.error('At least one traffic band is required');
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      const published = await rulesAPI.publish({ name, description, rules, activate });
+      toast.success(`Published rule set version ${published.version}`);
+      fetchRuleSets();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to publish rule set'));
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleActivate = async (ruleSet: RuleSet) => {
+    try {
+      await rulesAPI.activate(ruleSet._id!);
+      toast.success(`Version ${ruleSet.version} is now active`);
+      fetchRuleSets();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to activate rule set'));
+    }
+  };
+
+  const handleDelete = async (ruleSet: RuleSet) => {
+    if (!confirm(`Delete rule set version ${ruleSet.version}? Past simulation results keep their own copy.`)) {
+      return;
+    }
+
+    try {
+      await rulesAPI.delete(ruleSet._id!);
+      toast.success('Rule set deleted successfully');
+      fetchRuleSets();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to delete rule set'));
+    }
+  };
+
+  const formatDate = (date?: Date) => {
+    return date
+      ? new Date(date).toLocaleDateString('en-US', {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit'
+        })
+      : '';
+  };
+
+  if (isLoading || !rules) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const activeRuleSet = ruleSets.find(ruleSet => ruleSet.isActive);
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <SlidersHorizontal className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold text-gray-900">Business Rules</h1>
+        </div>
+        {activeRuleSet && (
+          <span className="inline-flex items-center space-x-1 px-3 py-1 text-sm font-medium rounded-full bg-green-100 text-green-800">
+            <CheckCircle className="h-4 w-4" />
+            <span>Active: v{activeRuleSet.version} · {activeRuleSet.name}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Rule Editor */}
+        <form onSubmit={handlePublish} className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Edit Rules</h3>
+            <p className="text-sm text-gray-500">
+              Published versions are never changed; saving creates the next version.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Change Note</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g., Raised late penalty for Q3"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {RULE_FIELDS.map(({ section, fields }) => (
+            <div key={section}>
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">{section}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {fields.map(({ key, label, step, percent }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={step}
+                      value={percent ? +(rules[key] * 100).toFixed(4) : rules[key]}
+                      onChange={(e) => handleRuleChange(key, e.target.value, percent)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold text-gray-900">Traffic Multipliers by Time of Day</h4>
+              <button
+                type="button"
+                onClick={addBand}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Band</span>
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left px-3 py-2 font-medium text-gray-700">Band</th>
+                    <th className="text-left px-3 py-2 font-medium text-gray-700">From (h)</th>
+                    <th className="text-left px-3 py-2 font-medium text-gray-700">To (h)</th>
+                    {TRAFFIC_LEVELS.map(level => (
+                      <th key={level} className="text-left px-3 py-2 font-medium text-gray-700">{level}</th>
+                    ))}
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rules.trafficBands.map((band, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={band.name}
+                          onChange={(e) => updateBand(index, { name: e.target.value })}
+                          className="w-32 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max="23"
+                          value={band.startHour}
+                          onChange={(e) => updateBand(index, { startHour: parseInt(e.target.value) || 0 })}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max="24"
+                          value={band.endHour}
+                          onChange={(e) => updateBand(index, { endHour: parseInt(e.target.value) || 0 })}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                      {TRAFFIC_LEVELS.map(level => (
+                        <td key={level} className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0.1"
+                            step="0.05"
+                            value={band.multipliers[level]}
+                            onChange={(e) => updateMultiplier(index, level, e.target.value)}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => removeBand(index)}
+                          className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Bands may wrap past midnight (e.g., 20 → 7). Hours not covered by any band use a multiplier of 1.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between pt-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={activate}
+                onChange={(e) => setActivate(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Make active for new simulations</span>
+            </label>
+            <Button type="submit" isLoading={isPublishing} className="flex items-center space-x-2">
+              <Upload className="h-4 w-4" />
+              <span>Publish New Version</span>
+            </Button>
+          </div>
+        </form>
+
+        {/* Version History */}
+        <div className="bg-white rounded-xl shadow-sm border overflow-hidden h-fit">
+          <div className="px-6 py-4 border-b">
+            <h3 className="text-lg font-semibold text-gray-900">Versions</h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {ruleSets.map((ruleSet) => (
+              <li key={ruleSet._id} className="px-6 py-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      v{ruleSet.version} · {ruleSet.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(ruleSet.createdAt)}{ruleSet.createdBy ? ` by ${ruleSet.createdBy}` : ''}
+                    </p>
+                  </div>
+                  {ruleSet.isActive && (
+                    <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                      Active
+                    </span>
+                  )}
+                </div>
+                {ruleSet.description && (
+                  <p className="text-sm text-gray-600">{ruleSet.description}</p>
+                )}
+                <div className="flex items-center space-x-3 text-sm">
+                  <button
+                    onClick={() => loadIntoEditor(ruleSet)}
+                    className="text-blue-600 hover:text-blue-800 transition-colors"
+                  >
+                    Edit as new
+                  </button>
+                  {!ruleSet.isActive && (
+                    <>
+                      <button
+                        onClick={() => handleActivate(ruleSet)}
+                        className="text-green-600 hover:text-green-800 transition-colors"
+                      >
+                        Activate
+                      </button>
+                      <button
+                        onClick={() => handleDelete(ruleSet)}
+                        className="text-red-600 hover:text-red-800 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Rules;
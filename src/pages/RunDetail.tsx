@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, GanttChart } from 'lucide-react';
+import { simulationAPI, getApiErrorMessage } from '../services/api';
+import { SimulationResult } from '../types';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import SimulationResults from '../components/Simulation/SimulationResults';
+import AssignmentsTable from '../components/Simulation/AssignmentsTable';
+import DriverGantt from '../components/Simulation/DriverGantt';
+import { strategyLabel } from '../utils/strategies';
+import { formatClockMinute, parseClockTime } from '../utils/time';
+import toast, { Toaster } from 'react-hot-toast';
+
+const RunDetail: React.FC = () => {
+  const { id = '' } = useParams();
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSimulation = async () => {
+      setIsLoading(true);
+      try {
+        setSimulation(await simulationAPI.getById(id));
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Failed to fetch simulation'));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSimulation();
+  }, [id]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!simulation) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <Toaster position="top-right" />
+        <p className="text-gray-500">This simulation could not be loaded.</p>
+        <Link to="/history" className="text-blue-600 hover:text-blue-800 text-sm">Back to History</Link>
+      </div>
+    );
+  }
+
+  const { numberOfDrivers, routeStartTime, maxHoursPerDriver, strategy, seed } = simulation.simulationParams;
+  const timelines = simulation.driverTimelines ?? [];
+  const fatigue = simulation.driverFatigue ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <GanttChart className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Simulation Run</h1>
+            <p className="text-gray-600 text-sm">
+              {new Date(simulation.timestamp).toLocaleString()} · {numberOfDrivers} drivers from {routeStartTime},
+              {' '}max {maxHoursPerDriver}h · {strategyLabel(strategy)}{seed !== undefined ? ` · seed ${seed}` : ''}
+            </p>
+          </div>
+        </div>
+        <Link to="/history" className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to History</span>
+        </Link>
+      </div>
+
+      <SimulationResults result={simulation} />
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Driver Timelines</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Each row is one driver's day. Blue stretches are mandatory breaks, idle stretches mean hours left unused; the amber line marks where a driver hit the hours cap.
+        </p>
+        {timelines.length > 0 ? (
+          <DriverGantt
+            timelines={timelines}
+            startMinute={parseClockTime(routeStartTime)}
+            maxHoursPerDriver={maxHoursPerDriver}
+          />
+        ) : (
+          <p className="text-sm text-gray-500">
+            {simulation.monteCarlo
+              ? 'Timelines vary per iteration, so none are kept for Monte Carlo runs.'
+              : 'No timelines were recorded for this run.'}
+          </p>
+        )}
+      </div>
+
+      {fatigue.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Driver Fatigue</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Drivers slow down the longer they drive without a break. Shift hours include time worked before the run.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="text-left px-4 py-2 font-medium text-gray-700">Driver</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-700">Driving</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-700">Shift Hours</th>
+                  <th className="text-left px-4 py-2 font-medium text-gray-700">Breaks</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-700">Peak Slowdown</th>
+                  <th className="text-left px-4 py-2 font-medium text-gray-700">Daily Limit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {fatigue.map(driver => (
+                  <tr key={driver.driverId}>
+                    <td className="px-4 py-2 text-gray-900">
+                      {driver.driverName}
+                      {driver.weeklyFatigued && <span className="ml-2 text-xs text-amber-600">tired from past week</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">{(driver.drivingMinutes / 60).toFixed(1)}h</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{driver.shiftHours.toFixed(1)}h</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {driver.breaks.length === 0
+                        ? '—'
+                        : driver.breaks.map(period => `${formatClockMinute(period.startMinute)}–${formatClockMinute(period.endMinute)}`).join(', ')}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {driver.peakSlowdownFactor > 1 ? `+${Math.round((driver.peakSlowdownFactor - 1) * 100)}%` : '—'}
+                    </td>
+                    <td className={`px-4 py-2 ${driver.dailyLimitReachedMinute !== null ? 'text-amber-600' : 'text-gray-400'}`}>
+                      {driver.dailyLimitReachedMinute !== null ? `Reached at ${formatClockMinute(driver.dailyLimitReachedMinute)}` : 'Not reached'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {!simulation.monteCarlo && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Assignments</h3>
+          <AssignmentsTable simulationId={id} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunDetail;
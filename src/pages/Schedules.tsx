@@ -0,0 +1,442 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarDays, Edit, RotateCcw, Plus, Trash2, Search } from 'lucide-react';
+import { driversAPI, schedulesAPI, getApiErrorMessage } from '../services/api';
+import { Driver, DriverAvailability, DriverSchedule, LeavePeriod } from '../types';
+import Button from '../components/UI/Button';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import toast, { Toaster } from 'react-hot-toast';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface DayForm {
+  enabled: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+const defaultDays = (): DayForm[] =>
+  DAY_LABELS.map((_, dayOfWeek) => ({ enabled: dayOfWeek !== 0, startTime: '08:00', endTime: '18:00' }));
+
+// Leave is stored at UTC midnight of the chosen day
+const toDateInput = (date: string) => date.slice(0, 10);
+
+const todayInput = () => {
+  const now = new Date();
+  return [now.getFullYear(), String(now.getMonth() + 1).padStart(2, '0'), String(now.getDate()).padStart(2, '0')].join('-');
+};
+
+const Schedules: React.FC = () => {
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [schedules, setSchedules] = useState<Map<string, DriverSchedule>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingDriver, setEditingDriver] = useState<Driver | null>(null);
+  const [days, setDays] = useState<DayForm[]>(defaultDays);
+  const [preferredStartTime, setPreferredStartTime] = useState('');
+  const [leave, setLeave] = useState<LeavePeriod[]>([]);
+  const [newLeave, setNewLeave] = useState<LeavePeriod>({ startDate: '', endDate: '', reason: '' });
+  const [checkDate, setCheckDate] = useState(todayInput);
+  const [checkTime, setCheckTime] = useState('08:00');
+  const [availability, setAvailability] = useState<DriverAvailability[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [driverData, scheduleData] = await Promise.all([driversAPI.getAll(), schedulesAPI.getAll()]);
+      setDrivers(driverData);
+      setSchedules(new Map(scheduleData.map(schedule => [schedule.driverId, schedule])));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to fetch schedules'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (driver: Driver) => {
+    const schedule = schedules.get(driver._id!);
+    setEditingDriver(driver);
+
+    if (schedule && schedule.weeklyAvailability.length > 0) {
+      setDays(DAY_LABELS.map((_, dayOfWeek) => {
+        const window = schedule.weeklyAvailability.find(entry => entry.dayOfWeek === dayOfWeek);
+        return window
+          ? { enabled: true, startTime: window.startTime, endTime: window.endTime }
+          : { enabled: false, startTime: '08:00', endTime: '18:00' };
+      }));
+    } else {
+      setDays(defaultDays());
+    }
+    setPreferredStartTime(schedule?.preferredStartTime ?? '');
+    setLeave((schedule?.leave ?? []).map(period => ({
+      ...period,
+      startDate: toDateInput(period.startDate),
+      endDate: toDateInput(period.endDate)
+    })));
+    setNewLeave({ startDate: '', endDate: '', reason: '' });
+  };
+
+  const closeForm = () => {
+    setEditingDriver(null);
+  };
+
+  const updateDay = (dayOfWeek: number, changes: Partial<DayForm>) => {
+    setDays(prev => prev.map((day, index) => (index === dayOfWeek ? { ...day, ...changes } : day)));
+  };
+
+  const handleAddLeave = () => {
+    if (!newLeave.startDate || !newLeave.endDate) {
+      toast.error('Choose the first and last day of leave');
+      return;
+    }
+    if (newLeave.endDate < newLeave.startDate) {
+      toast.error('Leave cannot end before it starts');
+      return;
+    }
+    setLeave(prev => [...prev, newLeave].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    setNewLeave({ startDate: '', endDate: '', reason: '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingDriver) {
+      return;
+    }
+
+    const weeklyAvailability = days
+      .map((day, dayOfWeek) => ({ ...day, dayOfWeek }))
+      .filter(day => day.enabled)
+      .map(({ dayOfWeek, startTime, endTime }) => ({ dayOfWeek, startTime, endTime }));
+
+    if (weeklyAvailability.length === 0) {
+      toast.error('Select at least one working day');
+      return;
+    }
+
+    try {
+      const saved = await schedulesAPI.save(editingDriver._id!, {
+        weeklyAvailability,
+        leave,
+        preferredStartTime: preferredStartTime || null
+      });
+      setSchedules(prev => new Map(prev).set(saved.driverId, saved));
+      toast.success('Schedule saved successfully');
+      closeForm();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to save schedule'));
+    }
+  };
+
+  const handleReset = async (driver: Driver) => {
+    if (!confirm(`Remove ${driver.name}'s schedule? They will be treated as available at any time.`)) {
+      return;
+    }
+
+    try {
+      await schedulesAPI.remove(driver._id!);
+      setSchedules(prev => {
+        const next = new Map(prev);
+        next.delete(driver._id!);
+        return next;
+      });
+      toast.success('Schedule removed successfully');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to remove schedule'));
+    }
+  };
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    try {
+      setAvailability(await schedulesAPI.getAvailability(checkTime, checkDate));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to check availability'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const upcomingLeave = (schedule: DriverSchedule | undefined) => {
+    const today = todayInput();
+    return (schedule?.leave ?? []).filter(period => toDateInput(period.endDate) >= today);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const availableCount = availability?.filter(entry => entry.available).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center space-x-3">
+        <CalendarDays className="h-6 w-6 text-blue-600" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Driver Schedules</h1>
+          <p className="text-gray-600 text-sm">Simulations only use drivers available at the route start time. Drivers without a schedule are always available.</p>
+        </div>
+      </div>
+
+      {/* Availability Check */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border space-y-4">
+        <form onSubmit={handleCheck} className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input type="date" value={checkDate} onChange={e => setCheckDate(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Route Start Time</label>
+            <input type="time" value={checkTime} onChange={e => setCheckTime(e.target.value)} className={inputClass} required />
+          </div>
+          <Button type="submit" isLoading={isChecking} className="flex items-center space-x-2">
+            <Search className="h-4 w-4" />
+            <span>Check Availability</span>
+          </Button>
+        </form>
+
+        {availability && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {availableCount} of {availability.length} drivers available on {checkDate} at {checkTime}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {availability.map(entry => (
+                <span
+                  key={entry.driverId}
+                  title={entry.detail}
+                  className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                    entry.available ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500 line-through'
+                  }`}
+                >
+                  {entry.driverName}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Schedule Form Modal */}
+      {editingDriver && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-xl shadow-xl max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingDriver.name}'s Schedule
+            </h3>
+
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Weekly Availability</p>
+                <div className="space-y-2">
+                  {days.map((day, dayOfWeek) => (
+                    <div key={dayOfWeek} className="flex items-center space-x-3">
+                      <label className="flex items-center space-x-2 w-20 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={day.enabled}
+                          onChange={e => updateDay(dayOfWeek, { enabled: e.target.checked })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span>{DAY_LABELS[dayOfWeek]}</span>
+                      </label>
+                      <input
+                        type="time"
+                        value={day.startTime}
+                        onChange={e => updateDay(dayOfWeek, { startTime: e.target.value })}
+                        disabled={!day.enabled}
+                        className={`${inputClass} py-1 text-sm disabled:bg-gray-100`}
+                        required={day.enabled}
+                      />
+                      <span className="text-gray-400">–</span>
+                      <input
+                        type="time"
+                        value={day.endTime}
+                        onChange={e => updateDay(dayOfWeek, { endTime: e.target.value })}
+                        disabled={!day.enabled}
+                        className={`${inputClass} py-1 text-sm disabled:bg-gray-100`}
+                        required={day.enabled}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">An end time before the start time runs past midnight</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Preferred Start Time
+                </label>
+                <input
+                  type="time"
+                  value={preferredStartTime}
+                  onChange={e => setPreferredStartTime(e.target.value)}
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">When more drivers are available than a run needs, the closest preferences are picked first</p>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Leave</p>
+                {leave.length > 0 && (
+                  <ul className="space-y-1 mb-3">
+                    {leave.map((period, index) => (
+                      <li key={index} className="flex items-center justify-between text-sm text-gray-700 bg-gray-50 rounded px-3 py-1.5">
+                        <span>
+                          {period.startDate === period.endDate ? period.startDate : `${period.startDate} to ${period.endDate}`}
+                          {period.reason && <span className="text-gray-500"> · {period.reason}</span>}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setLeave(prev => prev.filter((_, i) => i !== index))}
+                          className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="date"
+                    value={newLeave.startDate}
+                    onChange={e => setNewLeave(prev => ({ ...prev, startDate: e.target.value, endDate: prev.endDate || e.target.value }))}
+                    className={`${inputClass} py-1 text-sm`}
+                  />
+                  <span className="text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={newLeave.endDate}
+                    onChange={e => setNewLeave(prev => ({ ...prev, endDate: e.target.value }))}
+                    className={`${inputClass} py-1 text-sm`}
+                  />
+                  <input
+                    type="text"
+                    value={newLeave.reason}
+                    onChange={e => setNewLeave(prev => ({ ...prev, reason: e.target.value }))}
+                    placeholder="Reason (optional)"
+                    maxLength={200}
+                    className={`${inputClass} py-1 text-sm flex-1 min-w-[8rem]`}
+                  />
+                  <Button type="button" size="sm" variant="secondary" onClick={handleAddLeave} className="flex items-center space-x-1">
+                    <Plus className="h-4 w-4" />
+                    <span>Add</span>
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex space-x-3 pt-2">
+                <Button type="submit" className="flex-1">
+                  Save
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={closeForm}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Schedules List */}
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        {drivers.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarDays className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No drivers found. Add drivers before scheduling them.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Driver</th>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Week</th>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Preferred Start</th>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">Upcoming Leave</th>
+                  <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {drivers.map(driver => {
+                  const schedule = schedules.get(driver._id!);
+                  const windows = schedule?.weeklyAvailability ?? [];
+                  const leaveAhead = upcomingLeave(schedule);
+                  return (
+                    <tr key={driver._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 font-medium text-gray-900">{driver.name}</td>
+                      <td className="px-6 py-4">
+                        {windows.length === 0 ? (
+                          <span className="text-sm text-gray-500">Any time</span>
+                        ) : (
+                          <div className="flex space-x-1">
+                            {DAY_LABELS.map((label, dayOfWeek) => {
+                              const window = windows.find(entry => entry.dayOfWeek === dayOfWeek);
+                              return (
+                                <span
+                                  key={label}
+                                  title={window ? `${window.startTime}–${window.endTime}` : 'Off'}
+                                  className={`inline-flex w-9 justify-center py-0.5 text-xs font-medium rounded ${
+                                    window ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-400'
+                                  }`}
+                                >
+                                  {label}
+                                </span>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{schedule?.preferredStartTime || '—'}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {leaveAhead.length === 0
+                          ? '—'
+                          : leaveAhead.map(period => `${toDateInput(period.startDate)} to ${toDateInput(period.endDate)}`).join(', ')}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            onClick={() => handleEdit(driver)}
+                            className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          {schedule && (
+                            <button
+                              onClick={() => handleReset(driver)}
+                              title="Remove schedule"
+                              className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Schedules;
@@ -1,25 +1,51 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Play, Settings } from 'lucide-react';
-import { simulationAPI } from '../services/api';
-import { SimulationParams } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Play, Settings, Dices } from 'lucide-react';
+import { simulationAPI, rulesAPI, getApiErrorMessage } from '../services/api';
+import { AssignmentStrategyName, MonteCarloSummary, RuleSet, SimulationJob, SimulationParams, SimulationResult } from '../types';
 import Button from '../components/UI/Button';
+import MonteCarloResults from '../components/Simulation/MonteCarloResults';
+import SimulationResults from '../components/Simulation/SimulationResults';
+import JobProgress from '../components/Simulation/JobProgress';
+import { STRATEGY_OPTIONS } from '../utils/strategies';
 import toast, { Toaster } from 'react-hot-toast';
 
 const Simulation: React.FC = () => {
-  const navigate = useNavigate();
   const [params, setParams] = useState<SimulationParams>({
     numberOfDrivers: 5,
     routeStartTime: '09:00',
-    maxHoursPerDriver: 8
+    maxHoursPerDriver: 8,
+    strategy: 'value-greedy',
+    maxStopsPerTrip: 1
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<'single' | 'monte-carlo'>('single');
+  const [iterations, setIterations] = useState(100);
+  const [monteCarloResult, setMonteCarloResult] = useState<MonteCarloSummary | null>(null);
+  const [runResult, setRunResult] = useState<SimulationResult | null>(null);
+  const [activeRuleSet, setActiveRuleSet] = useState<RuleSet | null>(null);
+  const [job, setJob] = useState<SimulationJob | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const jobStream = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    rulesAPI.getActive()
+      .then(setActiveRuleSet)
+      .catch(() => toast.error('Failed to fetch simulation rules'));
+
+    // Stop following a job when leaving the page; the job itself keeps running
+    return () => jobStream.current?.abort();
+  }, []);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
+    if (name === 'seed') {
+      setParams(prev => ({ ...prev, seed: value === '' ? undefined : parseInt(value) }));
+      return;
+    }
     setParams(prev => ({
       ...prev,
-      [name]: name === 'numberOfDrivers' || name === 'maxHoursPerDriver' 
+      [name]: name === 'numberOfDrivers' || name === 'maxHoursPerDriver' || name === 'maxStopsPerTrip'
         ? parseInt(value) || 0 
         : value
     }));
@@ -39,27 +65,90 @@ const Simulation: React.FC = () => {
       return;
     }
 
+    if (params.maxStopsPerTrip !== undefined && (params.maxStopsPerTrip < 1 || params.maxStopsPerTrip > 20)) {
+      toast.error('Stops per trip must be between 1 and 20');
+      return;
+    }
+
     if (!params.routeStartTime) {
       toast.error('Please select a route start time');
       return;
     }
 
+    if (params.seed !== undefined && (!Number.isInteger(params.seed) || params.seed < 0)) {
+      toast.error('Seed must be a non-negative whole number');
+      return;
+    }
+
+    if (mode === 'monte-carlo' && (iterations < 2 || iterations > 1000)) {
+      toast.error('Iterations must be between 2 and 1000');
+      return;
+    }
+
     setIsLoading(true);
+    setRunResult(null);
+    setMonteCarloResult(null);
     try {
-      const result = await simulationAPI.run(params);
-      toast.success('Simulation completed successfully!');
-      
-      // Navigate to dashboard to view results
-      setTimeout(() => {
-        navigate('/dashboard');
-      }, 1000);
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Simulation failed');
+      const queued = await simulationAPI.createJob(mode === 'monte-carlo' ? { ...params, iterations } : params);
+      setJob(queued);
+      await followJob(queued._id);
+    } catch (error) {
+      if (!jobStream.current?.signal.aborted) {
+        toast.error(getApiErrorMessage(error, 'Simulation failed'));
+      }
     } finally {
+      setJob(null);
       setIsLoading(false);
     }
   };
 
+  // Show live progress until the job finishes, then load its result
+  const followJob = async (jobId: string) => {
+    const controller = new AbortController();
+    jobStream.current = controller;
+
+    const latest: { job?: SimulationJob } = {};
+    await simulationAPI.streamJob(jobId, update => {
+      latest.job = update;
+      setJob(update);
+    }, controller.signal);
+
+    switch (latest.job?.status) {
+      case 'completed': {
+        const finished = await simulationAPI.getJob(jobId);
+        const result = finished.resultId as SimulationResult;
+        if (finished.mode === 'monte-carlo') {
+          setMonteCarloResult(result.monteCarlo ?? null);
+          toast.success(`Monte Carlo run of ${finished.iterations} iterations completed`);
+        } else {
+          setRunResult(result);
+          toast.success('Simulation completed successfully!');
+        }
+        break;
+      }
+      case 'failed':
+        toast.error(latest.job.error || 'Simulation failed');
+        break;
+      case 'cancelled':
+        toast('Simulation cancelled');
+        break;
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) {
+      return;
+    }
+    setIsCancelling(true);
+    try {
+      await simulationAPI.cancelJob(job._id);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to cancel simulation'));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const presetConfigurations = [
     {
       name: 'Peak Hours',
@@ -76,7 +165,7 @@ const Simulation: React.FC = () => {
   ];
 
   const applyPreset = (presetParams: SimulationParams) => {
-    setParams(presetParams);
+    setParams(prev => ({ ...presetParams, strategy: prev.strategy, maxStopsPerTrip: prev.maxStopsPerTrip }));
     toast.success('Preset configuration applied');
   };
 
@@ -120,6 +209,54 @@ const Simulation: React.FC = () => {
         </h3>
         
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              Run Mode
+            </span>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { value: 'single', label: 'Single Run', icon: Play },
+                { value: 'monte-carlo', label: 'Monte Carlo', icon: Dices }
+              ] as const).map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={`flex items-center justify-center space-x-2 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                    mode === value
+                      ? 'bg-blue-50 border-blue-500 text-blue-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {mode === 'monte-carlo' && (
+            <div>
+              <label htmlFor="iterations" className="block text-sm font-medium text-gray-700 mb-2">
+                Iterations
+              </label>
+              <input
+                type="number"
+                id="iterations"
+                name="iterations"
+                min="2"
+                max="1000"
+                value={iterations}
+                onChange={(e) => setIterations(parseInt(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Range: 2-1000 repetitions of the assignment pass
+              </p>
+            </div>
+          )}
+
           <div>
             <label htmlFor="numberOfDrivers" className="block text-sm font-medium text-gray-700 mb-2">
               Number of Available Drivers
@@ -154,7 +291,7 @@ const Simulation: React.FC = () => {
               required
             />
             <p className="text-xs text-gray-500 mt-1">
-              When drivers begin their routes
+              When drivers begin their routes; sets the traffic band and which delivery deadlines are reachable
             </p>
           </div>
 
@@ -174,7 +311,66 @@ const Simulation: React.FC = () => {
               required
             />
             <p className="text-xs text-gray-500 mt-1">
-              Range: 1-24 hours (drivers with &gt;8 hours experience 30% speed decrease)
+              Range: 1-24 hours (fatigue slowdown is set by the active rule set)
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="strategy" className="block text-sm font-medium text-gray-700 mb-2">
+              Assignment Strategy
+            </label>
+            <select
+              id="strategy"
+              name="strategy"
+              value={params.strategy}
+              onChange={(e) => setParams(prev => ({ ...prev, strategy: e.target.value as AssignmentStrategyName }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {STRATEGY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {STRATEGY_OPTIONS.find(option => option.value === params.strategy)?.description}
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="maxStopsPerTrip" className="block text-sm font-medium text-gray-700 mb-2">
+              Max Stops per Trip
+            </label>
+            <input
+              type="number"
+              id="maxStopsPerTrip"
+              name="maxStopsPerTrip"
+              min="1"
+              max="20"
+              value={params.maxStopsPerTrip}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Orders on the same route share a trip, up to this many stops and the vehicle's capacity. 1 sends each order on its own trip.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="seed" className="block text-sm font-medium text-gray-700 mb-2">
+              Random Seed (optional)
+            </label>
+            <input
+              type="number"
+              id="seed"
+              name="seed"
+              min="0"
+              step="1"
+              value={params.seed ?? ''}
+              onChange={handleChange}
+              placeholder="Leave blank for a random seed"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Runs with the same seed and data produce identical results
             </p>
           </div>
 
@@ -185,21 +381,44 @@ const Simulation: React.FC = () => {
             size="lg"
           >
             <Play className="h-5 w-5" />
-            <span>Run Simulation</span>
+            <span>{mode === 'monte-carlo' ? 'Run Monte Carlo' : 'Run Simulation'}</span>
           </Button>
         </form>
       </div>
 
+      {job && <JobProgress job={job} onCancel={handleCancel} isCancelling={isCancelling} />}
+
+      {runResult && <SimulationResults result={runResult} showDetailsLink />}
+
+      {monteCarloResult && <MonteCarloResults summary={monteCarloResult} />}
+
       {/* Simulation Rules */}
-      <div className="bg-blue-50 p-6 rounded-xl border border-blue-200">
-        <h4 className="font-semibold text-blue-900 mb-3">Simulation Rules</h4>
-        <ul className="space-y-2 text-sm text-blue-800">
-          <li>• Late Delivery Penalty: ₹50 if delivery exceeds base route time + 10 minutes</li>
-          <li>• Driver Fatigue: Drivers working &gt;8 hours experience 30% speed decrease next day</li>
-          <li>• High-Value Bonus: Orders &gt;₹1000 delivered on-time receive +10% bonus</li>
-          <li>• Fuel Cost: ₹5/km base rate + ₹2/km surcharge for high traffic routes</li>
-        </ul>
-      </div>
+      {activeRuleSet && (
+        <div className="bg-blue-50 p-6 rounded-xl border border-blue-200">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-semibold text-blue-900">Simulation Rules</h4>
+            <Link to="/rules" className="text-sm text-blue-700 hover:text-blue-900">
+              v{activeRuleSet.version} · {activeRuleSet.name}
+            </Link>
+          </div>
+          <ul className="space-y-2 text-sm text-blue-800">
+            <li>• Simulated Clock: each driver sets off at the route start time and works through their deliveries in sequence</li>
+            <li>• Driver Availability: only drivers whose schedule has them working today at the route start time take part; the rest are listed with the reason</li>
+            <li>
+              • Time-of-Day Traffic: {activeRuleSet.rules.trafficBands
+                .map(band => `${band.name} ${String(band.startHour).padStart(2, '0')}:00–${String(band.endHour).padStart(2, '0')}:00`)
+                .join(', ')}
+            </li>
+            <li>• Late Delivery Penalty: ₹{activeRuleSet.rules.expressLatePenaltyRs} Express / ₹{activeRuleSet.rules.latePenaltyRs} Standard / ₹{activeRuleSet.rules.economyLatePenaltyRs} Economy if delivery arrives more than {activeRuleSet.rules.lateGraceMinutes} minutes after the order's window closes (or its delivery time)</li>
+            <li>• Delivery Windows &amp; SLAs: drivers wait for a window to open, and Express orders are assigned before Standard and Economy ones</li>
+            <li>• Driver Fatigue: Drivers with &gt;{activeRuleSet.rules.fatigueWeeklyHoursThreshold} hours in the past week take {Math.round((activeRuleSet.rules.fatigueSlowdownFactor - 1) * 100)}% longer, and every hour driven since a break adds {+(activeRuleSet.rules.fatigueSlowdownPerHour * 100).toFixed(2)}%</li>
+            <li>• Mandatory Breaks: a {activeRuleSet.rules.breakMinutes}-minute break before any trip that would take a driver past {activeRuleSet.rules.maxContinuousDrivingMinutes} minutes of continuous driving, and no new trips after {activeRuleSet.rules.dailyDrivingLimitHours} hours in a day</li>
+            <li>• High-Value Bonus: Orders &gt;₹{activeRuleSet.rules.highValueThresholdRs} delivered on-time receive +{+(activeRuleSet.rules.highValueBonusRate * 100).toFixed(2)}% bonus</li>
+            <li>• Fuel Cost: ₹{activeRuleSet.rules.fuelBaseRatePerKm}/km base rate + ₹{activeRuleSet.rules.fuelHighTrafficSurchargePerKm}/km surcharge for high traffic routes</li>
+            <li>• Batched Trips: one trip's fuel is shared by its stops, and each stop after the first adds {activeRuleSet.rules.stopServiceMinutes} minutes</li>
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { Grid3x3, Play, Target } from 'lucide-react';
+import { simulationAPI, getApiErrorMessage } from '../services/api';
+import { AssignmentStrategyName, SweepCell, SweepResult } from '../types';
+import Button from '../components/UI/Button';
+import { STRATEGY_OPTIONS } from '../utils/strategies';
+import toast, { Toaster } from 'react-hot-toast';
+
+type SweepMetric = 'totalProfit' | 'efficiencyScore';
+
+const METRICS: { key: SweepMetric; label: string; format: (value: number) => string }[] = [
+  { key: 'totalProfit', label: 'Total Profit', format: (value) => `₹${Math.round(value)}` },
+  { key: 'efficiencyScore', label: 'Efficiency Score', format: (value) => `${value.toFixed(1)}%` }
+];
+
+// Keep in step with the server-side limit
+const MAX_SWEEP_CELLS = 400;
+
+const countValues = (min: number, max: number, step: number) =>
+  step > 0 && max >= min ? Math.floor((max - min) / step + 1e-9) + 1 : 0;
+
+// Red (worst) through amber to green (best)
+const heatColor = (value: number, min: number, max: number) => {
+  const ratio = max === min ? 1 : (value - min) / (max - min);
+  return `hsl(${Math.round(ratio * 120)}, 70%, ${85 - ratio * 25}%)`;
+};
+
+const Sweep: React.FC = () => {
+  const [form, setForm] = useState({
+    driversMin: 1,
+    driversMax: 10,
+    driversStep: 1,
+    hoursMin: 4,
+    hoursMax: 12,
+    hoursStep: 1,
+    routeStartTime: '09:00',
+    strategy: 'value-greedy' as AssignmentStrategyName,
+    targetOnTimeRate: 90
+  });
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [metric, setMetric] = useState<SweepMetric>('totalProfit');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const cellCount = countValues(form.driversMin, form.driversMax, form.driversStep)
+    * countValues(form.hoursMin, form.hoursMax, form.hoursStep);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setForm(prev => ({ ...prev, [name]: type === 'number' ? parseFloat(value) || 0 : value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.driversMin > form.driversMax || form.hoursMin > form.hoursMax) {
+      toast.error('Each range needs a minimum no greater than its maximum');
+      return;
+    }
+
+    if (cellCount === 0 || cellCount > MAX_SWEEP_CELLS) {
+      toast.error(`A sweep can cover 1-${MAX_SWEEP_CELLS} configurations; this one covers ${cellCount}`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await simulationAPI.sweep({
+        numberOfDrivers: { min: form.driversMin, max: form.driversMax, step: form.driversStep },
+        maxHoursPerDriver: { min: form.hoursMin, max: form.hoursMax, step: form.hoursStep },
+        routeStartTime: form.routeStartTime,
+        strategy: form.strategy,
+        targetOnTimeRate: form.targetOnTimeRate,
+        seed
+      });
+      setResult(data);
+      toast.success(`Swept ${cellCount} configurations`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Parameter sweep failed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectedMetric = METRICS.find(m => m.key === metric)!;
+  const values = result ? result.cells.flat().map(cell => cell[metric]) : [];
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+
+  const isRecommended = (cell: SweepCell) =>
+    result?.recommended?.numberOfDrivers === cell.numberOfDrivers
+    && result?.recommended?.maxHoursPerDriver === cell.maxHoursPerDriver;
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center space-x-3">
+        <Grid3x3 className="h-6 w-6 text-blue-600" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Parameter Sweep</h1>
+          <p className="text-gray-600 text-sm">
+            Run every combination of driver count and hours cap to find the cheapest staffing that meets your on-time target
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-xl shadow-sm border space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Number of Drivers</legend>
+            <div className="grid grid-cols-3 gap-2">
+              <input type="number" name="driversMin" min="1" max="50" value={form.driversMin} onChange={handleChange} className={inputClass} aria-label="Minimum drivers" />
+              <input type="number" name="driversMax" min="1" max="50" value={form.driversMax} onChange={handleChange} className={inputClass} aria-label="Maximum drivers" />
+              <input type="number" name="driversStep" min="1" value={form.driversStep} onChange={handleChange} className={inputClass} aria-label="Driver step" />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">From, to, step (1-50 drivers)</p>
+          </fieldset>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Max Hours per Driver</legend>
+            <div className="grid grid-cols-3 gap-2">
+              <input type="number" name="hoursMin" min="1" max="24" step="0.5" value={form.hoursMin} onChange={handleChange} className={inputClass} aria-label="Minimum hours" />
+              <input type="number" name="hoursMax" min="1" max="24" step="0.5" value={form.hoursMax} onChange={handleChange} className={inputClass} aria-label="Maximum hours" />
+              <input type="number" name="hoursStep" min="0.5" step="0.5" value={form.hoursStep} onChange={handleChange} className={inputClass} aria-label="Hours step" />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">From, to, step (1-24 hours)</p>
+          </fieldset>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div>
+            <label htmlFor="routeStartTime" className="block text-sm font-medium text-gray-700 mb-2">Route Start Time</label>
+            <input type="time" id="routeStartTime" name="routeStartTime" value={form.routeStartTime} onChange={handleChange} className={inputClass} required />
+          </div>
+          <div>
+            <label htmlFor="strategy" className="block text-sm font-medium text-gray-700 mb-2">Assignment Strategy</label>
+            <select id="strategy" name="strategy" value={form.strategy} onChange={handleChange} className={inputClass}>
+              {STRATEGY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="targetOnTimeRate" className="block text-sm font-medium text-gray-700 mb-2">Target On-Time Rate (%)</label>
+            <input type="number" id="targetOnTimeRate" name="targetOnTimeRate" min="0" max="100" value={form.targetOnTimeRate} onChange={handleChange} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="seed" className="block text-sm font-medium text-gray-700 mb-2">Random Seed (optional)</label>
+            <input
+              type="number"
+              id="seed"
+              min="0"
+              step="1"
+              value={seed ?? ''}
+              onChange={(e) => setSeed(e.target.value === '' ? undefined : parseInt(e.target.value))}
+              placeholder="Random"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className={`text-sm ${cellCount > MAX_SWEEP_CELLS ? 'text-red-600' : 'text-gray-500'}`}>
+            {cellCount} configuration{cellCount === 1 ? '' : 's'} (max {MAX_SWEEP_CELLS})
+          </p>
+          <Button type="submit" isLoading={isLoading} className="flex items-center space-x-2">
+            <Play className="h-4 w-4" />
+            <span>Run Sweep</span>
+          </Button>
+        </div>
+      </form>
+
+      {result && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Results</h3>
+            <div className="flex space-x-2">
+              {METRICS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => setMetric(key)}
+                  className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                    metric === key
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={`flex items-start space-x-2 p-4 rounded-lg text-sm ${
+            result.recommended ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'
+          }`}>
+            <Target className="h-4 w-4 mt-0.5" />
+            <p>
+              {result.recommended
+                ? `Cheapest configuration reaching ${result.targetOnTimeRate}% on time: ${result.recommended.numberOfDrivers} drivers × ${result.recommended.maxHoursPerDriver}h (${result.recommended.driverHours} driver-hours), ${result.recommended.efficiencyScore.toFixed(1)}% on time, ₹${result.recommended.totalProfit.toFixed(2)} profit.`
+                : `No configuration in this sweep reaches ${result.targetOnTimeRate}% on time. Try more drivers or longer hours.`}
+            </p>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium text-gray-500">Drivers \ Hours</th>
+                  {result.maxHoursValues.map(hours => (
+                    <th key={hours} className="px-2 py-1 font-medium text-gray-700">{hours}h</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.cells.map((row, rowIndex) => (
+                  <tr key={result.driverCounts[rowIndex]}>
+                    <th className="px-2 py-1 text-right font-medium text-gray-700">{result.driverCounts[rowIndex]}</th>
+                    {row.map(cell => (
+                      <td
+                        key={cell.maxHoursPerDriver}
+                        title={`${cell.numberOfDrivers} drivers × ${cell.maxHoursPerDriver}h: ₹${cell.totalProfit.toFixed(2)} profit, ${cell.efficiencyScore.toFixed(1)}% on time, ${cell.lateDeliveries} late, ${cell.unassignedDeliveries} unassigned`}
+                        className={`px-2 py-1.5 text-center rounded text-gray-900 ${
+                          isRecommended(cell) ? 'ring-2 ring-blue-600 font-semibold' : ''
+                        } ${cell.efficiencyScore < result.targetOnTimeRate ? 'opacity-60' : ''}`}
+                        style={{ backgroundColor: heatColor(cell[metric], minValue, maxValue) }}
+                      >
+                        {selectedMetric.format(cell[metric])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            Seed {result.seed}. Faded cells miss the on-time target; the outlined cell is the recommendation.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Sweep;
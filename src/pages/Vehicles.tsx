@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Car, Zap } from 'lucide-react';
+import { vehiclesAPI, getApiErrorMessage } from '../services/api';
+import { Vehicle, VehicleType } from '../types';
+import Button from '../components/UI/Button';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import toast, { Toaster } from 'react-hot-toast';
+
+const VEHICLE_TYPES: VehicleType[] = ['Bike', 'Van', 'Truck'];
+
+const emptyForm = {
+  name: '',
+  type: 'Van' as VehicleType,
+  capacityKg: 500,
+  capacityParcels: 50,
+  fuelCostPerKm: 5,
+  isElectric: false
+};
+
+const Vehicles: React.FC = () => {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchVehicles();
+  }, []);
+
+  const fetchVehicles = async () => {
+    try {
+      const data = await vehiclesAPI.getAll();
+      setVehicles(data);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to fetch vehicles'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingVehicle(null);
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Vehicle name is required');
+      return;
+    }
+
+    if (formData.capacityKg <= 0 || formData.capacityParcels <= 0) {
+      toast.error('Capacity must be greater than 0');
+      return;
+    }
+
+    try {
+      if (editingVehicle) {
+        await vehiclesAPI.update(editingVehicle._id!, formData);
+        toast.success('Vehicle updated successfully');
+      } else {
+        await vehiclesAPI.create(formData);
+        toast.success('Vehicle created successfully');
+      }
+
+      fetchVehicles();
+      resetForm();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Operation failed'));
+    }
+  };
+
+  const handleEdit = (vehicle: Vehicle) => {
+    setEditingVehicle(vehicle);
+    setFormData({
+      name: vehicle.name,
+      type: vehicle.type,
+      capacityKg: vehicle.capacityKg,
+      capacityParcels: vehicle.capacityParcels,
+      fuelCostPerKm: vehicle.fuelCostPerKm,
+      isElectric: vehicle.isElectric
+    });
+    setShowForm(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this vehicle? Drivers using it will be left without one.')) {
+      return;
+    }
+
+    try {
+      await vehiclesAPI.delete(id);
+      toast.success('Vehicle deleted successfully');
+      fetchVehicles();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to delete vehicle'));
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox'
+        ? (e.target as HTMLInputElement).checked
+        : type === 'number' ? parseFloat(value) || 0 : value
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <Toaster position="top-right" />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Car className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold text-gray-900">Vehicle Fleet</h1>
+        </div>
+        <Button
+          onClick={() => setShowForm(true)}
+          className="flex items-center space-x-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add Vehicle</span>
+        </Button>
+      </div>
+
+      {/* Vehicle Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-xl shadow-xl max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingVehicle ? 'Edit Vehicle' : 'Add New Vehicle'}
+            </h3>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name / Registration
+                </label>
+                <input
+                  type="text"
+                  name="name"
+                  value={formData.name}
+                  onChange={handleChange}
+                  className={inputClass}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  name="type"
+                  value={formData.type}
+                  onChange={handleChange}
+                  className={inputClass}
+                >
+                  {VEHICLE_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Capacity (kg)
+                  </label>
+                  <input
+                    type="number"
+                    name="capacityKg"
+                    value={formData.capacityKg}
+                    onChange={handleChange}
+                    min="1"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Capacity (parcels)
+                  </label>
+                  <input
+                    type="number"
+                    name="capacityParcels"
+                    value={formData.capacityParcels}
+                    onChange={handleChange}
+                    min="1"
+                    step="1"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Fuel Cost per km (₹)
+                </label>
+                <input
+                  type="number"
+                  name="fuelCostPerKm"
+                  value={formData.fuelCostPerKm}
+                  onChange={handleChange}
+                  min="0"
+                  step="0.1"
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">Replaces the rule set's base fuel rate for this vehicle</p>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  name="isElectric"
+                  checked={formData.isElectric}
+                  onChange={handleChange}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Electric vehicle</span>
+              </label>
+
+              <div className="flex space-x-3 pt-4">
+                <Button type="submit" className="flex-1">
+                  {editingVehicle ? 'Update' : 'Create'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={resetForm}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Vehicles List */}
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        {vehicles.length === 0 ? (
+          <div className="text-center py-12">
+            <Car className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No vehicles found. Add a vehicle, then assign it to drivers.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                    Name
+                  </th>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                    Type
+                  </th>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                    Capacity
+                  </th>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-900">
+                    Fuel Cost
+                  </th>
+                  <th className="text-right px-6 py-3 text-sm font-medium text-gray-900">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {vehicles.map((vehicle) => (
+                  <tr key={vehicle._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2 font-medium text-gray-900">
+                        <span>{vehicle.name}</span>
+                        {vehicle.isElectric && (
+                          <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                            <Zap className="h-3 w-3 mr-0.5" />
+                            EV
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {vehicle.type}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {vehicle.capacityKg} kg · {vehicle.capacityParcels} parcels
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      ₹{vehicle.fuelCostPerKm.toFixed(2)}/km
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => handleEdit(vehicle)}
+                          className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(vehicle._id!)}
+                          className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Vehicles;
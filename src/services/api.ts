@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { AuthResponse, Driver, Route, Order, SimulationParams, SimulationResult, KPIData } from '../types';
+import { AuthResponse, Driver, Route, Order, SimulationParams, SimulationResult, KPIData, DeliveryAssignment, RuleSet, RuleSetInput, SimulationComparison, SweepParams, SweepResult, SimulationJob, Vehicle, NearbyRoute, DriverSchedule, DriverAvailability, DriverHours, DeliveryLogEntry, OrderStatus, OrderWithRoute, ImportEntity, ImportField, ImportMode, ImportReport, ExportCollection, ExportFormat, Page, ListParams, RouteListParams, OrderListParams, SimulationHistoryParams, Dependants, DeleteDependantsOptions } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -32,6 +32,21 @@ api.interceptors.response.use(
   }
 );
 
+// The largest page a list endpoint returns
+const MAX_PAGE_SIZE = 100;
+
+// Every record of a paged list, for pickers that need all of them
+const fetchAllPages = async <T>(path: string): Promise<T[]> => {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const { data } = await api.get<Page<T>>(path, { params: { page, limit: MAX_PAGE_SIZE, sort: 'name' } });
+    items.push(...data.items);
+    if (page >= data.totalPages) {
+      return items;
+    }
+  }
+};
+
 // Auth API
 export const authAPI = {
   login: (username: string, password: string): Promise<AuthResponse> =>
@@ -43,8 +58,26 @@ export const authAPI = {
 
 // Drivers API
 export const driversAPI = {
+  list: (params: ListParams): Promise<Page<Driver>> =>
+    api.get('/drivers', { params }).then(res => res.data),
+
   getAll: (): Promise<Driver[]> =>
-    api.get('/drivers').then(res => res.data),
+    fetchAllPages('/drivers'),
+
+  getAllHours: (): Promise<DriverHours[]> =>
+    api.get('/drivers/hours').then(res => res.data),
+
+  getHours: (id: string): Promise<DriverHours> =>
+    api.get(`/drivers/${id}/hours`).then(res => res.data),
+
+  getDeliveries: (id: string): Promise<DeliveryLogEntry[]> =>
+    api.get(`/drivers/${id}/deliveries`).then(res => res.data),
+
+  logDelivery: (id: string, delivery: { startedAt: Date; completedAt: Date; orderId?: string | null }): Promise<DeliveryLogEntry> =>
+    api.post(`/drivers/${id}/deliveries`, delivery).then(res => res.data),
+
+  deleteDelivery: (id: string, deliveryId: string): Promise<void> =>
+    api.delete(`/drivers/${id}/deliveries/${deliveryId}`),
   
   getById: (id: string): Promise<Driver> =>
     api.get(`/drivers/${id}`).then(res => res.data),
@@ -55,17 +88,57 @@ export const driversAPI = {
   update: (id: string, driver: Partial<Driver>): Promise<Driver> =>
     api.put(`/drivers/${id}`, driver).then(res => res.data),
   
+  getDependants: (id: string): Promise<Dependants> =>
+    api.get(`/drivers/${id}/dependants`).then(res => res.data),
+
+  delete: (id: string, options: Pick<DeleteDependantsOptions, 'cascade'> = {}): Promise<void> =>
+    api.delete(`/drivers/${id}`, { params: options })
+};
+
+// Vehicles API
+export const vehiclesAPI = {
+  getAll: (): Promise<Vehicle[]> =>
+    api.get('/vehicles').then(res => res.data),
+  
+  create: (vehicle: Omit<Vehicle, '_id'>): Promise<Vehicle> =>
+    api.post('/vehicles', vehicle).then(res => res.data),
+  
+  update: (id: string, vehicle: Partial<Vehicle>): Promise<Vehicle> =>
+    api.put(`/vehicles/${id}`, vehicle).then(res => res.data),
+  
   delete: (id: string): Promise<void> =>
-    api.delete(`/drivers/${id}`)
+    api.delete(`/vehicles/${id}`)
+};
+
+// Schedules API
+export const schedulesAPI = {
+  getAll: (): Promise<DriverSchedule[]> =>
+    api.get('/schedules').then(res => res.data),
+
+  // date is YYYY-MM-DD (today when omitted), time is HH:mm
+  getAvailability: (time: string, date?: string): Promise<DriverAvailability[]> =>
+    api.get('/schedules/availability', { params: { time, date } }).then(res => res.data),
+
+  save: (driverId: string, schedule: Omit<DriverSchedule, '_id' | 'driverId'>): Promise<DriverSchedule> =>
+    api.put(`/schedules/${driverId}`, schedule).then(res => res.data),
+
+  remove: (driverId: string): Promise<void> =>
+    api.delete(`/schedules/${driverId}`)
 };
 
 // Routes API
 export const routesAPI = {
+  list: (params: RouteListParams): Promise<Page<Route>> =>
+    api.get('/routes', { params }).then(res => res.data),
+  
   getAll: (): Promise<Route[]> =>
-    api.get('/routes').then(res => res.data),
+    fetchAllPages('/routes'),
   
   getById: (id: string): Promise<Route> =>
     api.get(`/routes/${id}`).then(res => res.data),
+
+  getNear: (lat: number, lng: number, radiusKm: number): Promise<NearbyRoute[]> =>
+    api.get('/routes/near', { params: { lat, lng, radiusKm } }).then(res => res.data),
   
   create: (route: Omit<Route, '_id'>): Promise<Route> =>
     api.post('/routes', route).then(res => res.data),
@@ -73,18 +146,24 @@ export const routesAPI = {
   update: (id: string, route: Partial<Route>): Promise<Route> =>
     api.put(`/routes/${id}`, route).then(res => res.data),
   
-  delete: (id: string): Promise<void> =>
-    api.delete(`/routes/${id}`)
+  getDependants: (id: string): Promise<Dependants> =>
+    api.get(`/routes/${id}/dependants`).then(res => res.data),
+  
+  delete: (id: string, options: DeleteDependantsOptions = {}): Promise<void> =>
+    api.delete(`/routes/${id}`, { params: options })
 };
 
 // Orders API
 export const ordersAPI = {
-  getAll: (): Promise<Order[]> =>
-    api.get('/orders').then(res => res.data),
+  list: (params: OrderListParams): Promise<Page<OrderWithRoute>> =>
+    api.get('/orders', { params }).then(res => res.data),
   
-  getById: (id: string): Promise<Order> =>
+  getById: (id: string): Promise<OrderWithRoute> =>
     api.get(`/orders/${id}`).then(res => res.data),
   
+  changeStatus: (id: string, status: OrderStatus, note?: string): Promise<OrderWithRoute> =>
+    api.post(`/orders/${id}/status`, { status, note }).then(res => res.data),
+  
   create: (order: Omit<Order, '_id'>): Promise<Order> =>
     api.post('/orders', order).then(res => res.data),
   
@@ -100,9 +179,108 @@ export const simulationAPI = {
   run: (params: SimulationParams): Promise<SimulationResult> =>
     api.post('/simulation/run', params).then(res => res.data),
   
-  getHistory: (): Promise<SimulationResult[]> =>
-    api.get('/simulation/history').then(res => res.data),
+  runMonteCarlo: (params: SimulationParams & { iterations: number }): Promise<SimulationResult> =>
+    api.post('/simulation/monte-carlo', params).then(res => res.data),
+  
+  createJob: (params: SimulationParams & { iterations?: number }): Promise<SimulationJob> =>
+    api.post('/simulation/jobs', params).then(res => res.data),
+  
+  getJob: (id: string): Promise<SimulationJob> =>
+    api.get(`/simulation/jobs/${id}`).then(res => res.data),
+  
+  cancelJob: (id: string): Promise<SimulationJob> =>
+    api.post(`/simulation/jobs/${id}/cancel`).then(res => res.data),
+  
+  // EventSource can't send the auth header, so the event stream is read with fetch
+  streamJob: async (id: string, onUpdate: (job: SimulationJob) => void, signal?: AbortSignal): Promise<void> => {
+    const token = localStorage.getItem('token');
+    const response = await fetch(`${API_BASE_URL}/simulation/jobs/${id}/events`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error('Failed to follow simulation progress');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      buffer += value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+      events.forEach(event => {
+        const data = event
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('\n');
+        if (data) {
+          onUpdate(JSON.parse(data));
+        }
+      });
+    }
+  },
+  
+  sweep: (params: SweepParams): Promise<SweepResult> =>
+    api.post('/simulation/sweep', params).then(res => res.data),
+  
+  getHistory: (params: SimulationHistoryParams): Promise<Page<SimulationResult>> =>
+    api.get('/simulation/history', { params }).then(res => res.data),
+  
+  compare: (ids: string[]): Promise<SimulationComparison> =>
+    api.get('/simulation/compare', { params: { ids: ids.join(',') } }).then(res => res.data),
+  
+  getById: (id: string): Promise<SimulationResult> =>
+    api.get(`/simulation/${id}`).then(res => res.data),
+  
+  getAssignments: (id: string): Promise<DeliveryAssignment[]> =>
+    api.get(`/simulation/${id}/assignments`).then(res => res.data),
   
   getKPIs: (): Promise<KPIData> =>
     api.get('/simulation/kpis').then(res => res.data)
-};
\ No newline at end of file
+};
+
+// Business rules API
+export const rulesAPI = {
+  getAll: (): Promise<RuleSet[]> =>
+    api.get('/rules').then(res => res.data),
+  
+  getActive: (): Promise<RuleSet> =>
+    api.get('/rules/active').then(res => res.data),
+  
+  publish: (ruleSet: RuleSetInput): Promise<RuleSet> =>
+    api.post('/rules', ruleSet).then(res => res.data),
+  
+  activate: (id: string): Promise<RuleSet> =>
+    api.put(`/rules/${id}/activate`).then(res => res.data),
+  
+  delete: (id: string): Promise<void> =>
+    api.delete(`/rules/${id}`)
+};
+
+// CSV import API
+export const importAPI = {
+  getFields: (): Promise<Record<ImportEntity, ImportField[]>> =>
+    api.get('/import/fields').then(res => res.data),
+  
+  upload: (entity: ImportEntity, csv: string, mode: ImportMode, dryRun: boolean): Promise<ImportReport> =>
+    api.post(`/import/${entity}`, csv, {
+      params: { mode, dryRun },
+      headers: { 'Content-Type': 'text/csv' }
+    }).then(res => res.data)
+};
+
+// Data export API
+export const exportAPI = {
+  // params are the list endpoint's filters, e.g. { strategy } for simulations
+  download: (collection: ExportCollection, format: ExportFormat, params: ListParams = {}): Promise<Blob> =>
+    api.get(`/export/${collection}`, { params: { ...params, format }, responseType: 'blob' }).then(res => res.data)
+};
+
+// Extract the server's error message from a failed request
+export const getApiErrorMessage = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
\ No newline at end of file
@@ -3,49 +3,459 @@ export interface Driver {
   name: string;
   currentShiftHours: number;
   pastWeekHours: number;
+  vehicleId?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export type VehicleType = 'Bike' | 'Van' | 'Truck';
+
+export interface Vehicle {
+  _id?: string;
+  name: string;
+  type: VehicleType;
+  capacityKg: number;
+  capacityParcels: number;
+  fuelCostPerKm: number;
+  isElectric: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Rolling hours worked; 'manual' until the driver's first delivery is logged
+export interface DriverHours {
+  driverId: string;
+  currentShiftHours: number;
+  pastWeekHours: number;
+  deliveriesLast24h: number;
+  deliveriesLast7d: number;
+  source: 'log' | 'manual';
+  computedAt: string;
+}
+
+export interface DeliveryLogEntry {
+  _id: string;
+  driverId: string;
+  orderId?: string | null;
+  startedAt: string;
+  completedAt: string;
+}
+
+// A recurring window on one day of the week (0 = Sunday); an end at or before
+// the start runs past midnight
+export interface AvailabilityWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface LeavePeriod {
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+export interface DriverSchedule {
+  _id?: string;
+  driverId: string;
+  weeklyAvailability: AvailabilityWindow[];
+  leave: LeavePeriod[];
+  preferredStartTime?: string | null;
+}
+
+export type DriverExclusionReason = 'on_leave' | 'day_off' | 'outside_hours' | 'not_selected';
+
+export interface DriverAvailability {
+  driverId: string;
+  driverName: string;
+  available: boolean;
+  reason?: Exclude<DriverExclusionReason, 'not_selected'>;
+  detail?: string;
+}
+
+export interface ExcludedDriver {
+  driverId: string;
+  driverName: string;
+  reason: DriverExclusionReason;
+  detail: string;
+}
+
+// GeoJSON positions are [longitude, latitude]
+export type Position = [number, number];
+
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: Position;
+}
+
+export interface GeoMultiPoint {
+  type: 'MultiPoint';
+  coordinates: Position[];
+}
+
 export interface Route {
   _id?: string;
   name: string;
   distanceKm: number;
   trafficLevel: 'Low' | 'Medium' | 'High';
   baseTimeMinutes: number;
+  startLocation?: GeoPoint | null;
+  endLocation?: GeoPoint | null;
+  waypoints?: GeoMultiPoint | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface NearbyRoute extends Route {
+  nearestKm: number;
+}
+
+export type SlaClass = 'Express' | 'Standard' | 'Economy';
+
+export type OrderStatus = 'Pending' | 'In Progress' | 'Delivered' | 'Late';
+
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedBy: string;
+  changedAt: string;
+  note?: string;
+}
+
 export interface Order {
   _id?: string;
+  externalRef?: string | null;
   valueRs: number;
   routeId: string;
   deliveryTimestamp: Date;
-  status: 'Pending' | 'In Progress' | 'Delivered' | 'Late';
+  deliveryWindowStart?: Date | null;
+  deliveryWindowEnd?: Date | null;
+  slaClass?: SlaClass;
+  weightKg?: number;
+  parcels?: number;
+  status: OrderStatus;
+  statusHistory?: OrderStatusChange[];
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// A single order comes back with its route populated
+export interface OrderWithRoute extends Omit<Order, 'routeId'> {
+  routeId: Pick<Route, '_id' | 'name' | 'distanceKm' | 'trafficLevel'> | null;
+}
+
+export type TrafficLevel = 'Low' | 'Medium' | 'High';
+
+export interface TrafficBand {
+  name: string;
+  startHour: number;
+  endHour: number;
+  multipliers: Record<TrafficLevel, number>;
+}
+
+export interface BusinessRules {
+  latePenaltyRs: number;
+  expressLatePenaltyRs: number;
+  economyLatePenaltyRs: number;
+  lateGraceMinutes: number;
+  fatigueWeeklyHoursThreshold: number;
+  fatigueSlowdownFactor: number;
+  fatigueSlowdownPerHour: number;
+  maxContinuousDrivingMinutes: number;
+  breakMinutes: number;
+  dailyDrivingLimitHours: number;
+  highValueThresholdRs: number;
+  highValueBonusRate: number;
+  fuelBaseRatePerKm: number;
+  fuelHighTrafficSurchargePerKm: number;
+  stopServiceMinutes: number;
+  trafficBands: TrafficBand[];
+}
+
+export interface RuleSet {
+  _id?: string;
+  name: string;
+  description?: string;
+  version: number;
+  isActive: boolean;
+  rules: BusinessRules;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface RuleSetInput {
+  name: string;
+  description?: string;
+  rules: BusinessRules;
+  activate?: boolean;
+}
+
+export interface RuleSetSnapshot {
+  ruleSetId: string;
+  name: string;
+  version: number;
+  rules: BusinessRules;
+}
+
+export type AssignmentStrategyName =
+  | 'value-greedy'
+  | 'earliest-deadline'
+  | 'shortest-route'
+  | 'round-robin'
+  | 'local-search';
+
 export interface SimulationParams {
   numberOfDrivers: number;
   routeStartTime: string;
   maxHoursPerDriver: number;
+  seed?: number;
+  strategy?: AssignmentStrategyName;
+  maxStopsPerTrip?: number;
+  asOf?: Date; // when driver availability and hours are read; recorded on every run
+  ruleSetId?: string; // pins a rule set version instead of the active one
+}
+
+export type SimulationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SimulationJob {
+  _id: string;
+  mode: 'single' | 'monte-carlo';
+  status: SimulationJobStatus;
+  simulationParams: SimulationParams;
+  iterations?: number;
+  progress: {
+    completed: number;
+    total: number;
+  };
+  // An id while streaming; the populated result when fetched once completed
+  resultId?: string | SimulationResult;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface SweepRange {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface SweepParams {
+  numberOfDrivers: SweepRange;
+  maxHoursPerDriver: SweepRange;
+  routeStartTime: string;
+  seed?: number;
+  strategy?: AssignmentStrategyName;
+  ruleSetId?: string; // pins a rule set version instead of the active one
+  targetOnTimeRate?: number;
+}
+
+export interface SweepCell {
+  numberOfDrivers: number;
+  maxHoursPerDriver: number;
+  driverHours: number;
+  totalProfit: number;
+  efficiencyScore: number;
+  lateDeliveries: number;
+  unassignedDeliveries: number;
+  fuelCost: number;
+}
+
+export interface SweepResult {
+  seed: number;
+  targetOnTimeRate: number;
+  driverCounts: number[];
+  maxHoursValues: number[];
+  cells: SweepCell[][];
+  recommended: SweepCell | null;
+}
+
+export interface DeliveryAssignment {
+  orderId: string;
+  driverId: string;
+  driverName: string;
+  routeId: string;
+  routeName: string;
+  estimatedDeliveryTime: number;
+  actualDeliveryTime: number;
+  startMinute: number;
+  endMinute: number;
+  deadlineMinute: number;
+  windowStartMinute?: number | null;
+  slaClass?: SlaClass;
+  tripNumber?: number;
+  stopNumber?: number;
+  trafficBand: string;
+  trafficLevel?: TrafficLevel;
+  isOnTime: boolean;
+  orderValue: number;
+  fuelBaseCost?: number;
+  fuelTrafficSurcharge?: number;
+  fuelCost: number;
+  bonus: number;
+  penalty: number;
+  profit: number;
+}
+
+export type UnassignedReason = 'hours_cap' | 'no_drivers' | 'over_capacity' | 'daily_limit';
+
+export interface UnassignedOrder {
+  orderId: string;
+  routeId: string;
+  routeName: string;
+  orderValue: number;
+  estimatedDeliveryTime: number;
+  reason: UnassignedReason;
+}
+
+export interface FuelCostBreakdown {
+  baseCost: number;
+  trafficSurcharge: number;
+  total: number;
+}
+
+export interface RouteFuelCost extends FuelCostBreakdown {
+  routeId: string;
+  routeName: string;
+  trafficLevel: TrafficLevel;
+  deliveries: number;
+}
+
+export interface DistributionStats {
+  mean: number;
+  stddev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export type MonteCarloMetric = 'totalProfit' | 'efficiencyScore' | 'lateDeliveries';
+
+export interface MonteCarloSummary {
+  iterations: number;
+  distributions: Record<MonteCarloMetric, DistributionStats>;
+  samples?: Record<MonteCarloMetric, number[]>;
+}
+
+export interface TimelineSegment {
+  type: 'delivery' | 'idle' | 'break';
+  startMinute: number;
+  endMinute: number;
+  orderId?: string;
+  routeName?: string;
+  isOnTime?: boolean;
+}
+
+export interface DriverTimeline {
+  driverId: string;
+  driverName: string;
+  startingHours: number;
+  segments: TimelineSegment[];
+  workMinutes: number;
+  idleMinutes: number;
+  capReachedMinute: number | null;
+}
+
+export interface BreakPeriod {
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface DriverFatigue {
+  driverId: string;
+  driverName: string;
+  shiftHours: number;
+  drivingMinutes: number;
+  continuousDrivingMinutes: number;
+  breaks: BreakPeriod[];
+  peakSlowdownFactor: number;
+  weeklyFatigued: boolean;
+  dailyLimitReachedMinute: number | null;
+}
+
+export interface TripStats {
+  trips: number;
+  averageStopsPerTrip: number;
+  fuelSaved: number;
+  minutesSaved: number;
 }
 
 export interface SimulationResult {
   _id?: string;
   timestamp: Date;
+  mode?: 'single' | 'monte-carlo';
   totalProfit: number;
   efficiencyScore: number;
   onTimeDeliveries: number;
   lateDeliveries: number;
-  fuelCostBreakdown: {
-    baseCost: number;
-    trafficSurcharge: number;
-    total: number;
-  };
+  unassignedDeliveries?: number;
+  lostRevenue?: number;
+  driversNeeded?: number;
+  fuelCostBreakdown: FuelCostBreakdown;
+  fuelCostByTrafficLevel?: Record<TrafficLevel, FuelCostBreakdown>;
+  fuelCostByRoute?: RouteFuelCost[];
+  tripStats?: TripStats;
   simulationParams: SimulationParams;
+  unassignedOrders?: UnassignedOrder[];
+  driverTimelines?: DriverTimeline[];
+  driverFatigue?: DriverFatigue[];
+  excludedDrivers?: ExcludedDriver[];
+  ruleSet?: RuleSetSnapshot;
+  monteCarlo?: MonteCarloSummary;
+}
+
+export type ComparedKpi =
+  | 'totalProfit'
+  | 'efficiencyScore'
+  | 'fuelCost'
+  | 'onTimeDeliveries'
+  | 'lateDeliveries'
+  | 'unassignedDeliveries';
+
+export interface ComparedRun {
+  _id: string;
+  timestamp: Date;
+  mode: 'single' | 'monte-carlo';
+  simulationParams: SimulationParams;
+  ruleSet: { name: string; version: number } | null;
+}
+
+export interface ParameterDiff {
+  parameter: string;
+  values: (string | number | null)[];
+  differs: boolean;
+}
+
+export interface KpiDelta {
+  metric: ComparedKpi;
+  values: number[];
+  deltas: number[];
+}
+
+export interface BreakdownStats {
+  deliveries: number;
+  lateDeliveries: number;
+  profit: number;
+  fuelCost: number;
+}
+
+export interface BreakdownRow {
+  id: string;
+  name: string;
+  runs: (BreakdownStats | null)[];
+  profitDeltas: (number | null)[];
+}
+
+export interface SimulationComparison {
+  runs: ComparedRun[];
+  parameters: ParameterDiff[];
+  kpis: KpiDelta[];
+  drivers: BreakdownRow[];
+  routes: BreakdownRow[];
 }
 
 export interface KPIData {
@@ -53,11 +463,12 @@ export interface KPIData {
   efficiencyScore: number;
   onTimeDeliveries: number;
   lateDeliveries: number;
-  fuelCostBreakdown: {
-    baseCost: number;
-    trafficSurcharge: number;
-    total: number;
-  };
+  unassignedDeliveries?: number;
+  lostRevenue?: number;
+  driversNeeded?: number;
+  fuelCostBreakdown: FuelCostBreakdown;
+  fuelCostByTrafficLevel?: Record<TrafficLevel, FuelCostBreakdown>;
+  fuelCostByRoute?: RouteFuelCost[];
 }
 
 export interface User {
@@ -70,4 +481,106 @@ export interface User {
 export interface AuthResponse {
   token: string;
   user: User;
-}
\ No newline at end of file
+}
+
+export type ImportEntity = 'drivers' | 'routes' | 'orders';
+
+// Records that still reference a route (its orders) or driver (their delivery log),
+// with the first few listed
+export interface Dependants {
+  collection: 'orders' | 'deliveryLogs';
+  count: number;
+  items: Record<string, unknown>[];
+}
+
+// How a delete treats dependants: delete them too, or move them to another record
+export interface DeleteDependantsOptions {
+  cascade?: boolean;
+  reassignTo?: string;
+}
+
+// One page of a list endpoint's results
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// sort is a field name, descending when it starts with '-'
+export interface ListParams {
+  page?: number;
+  limit?: number;
+  sort?: string;
+  search?: string;
+}
+
+export interface RouteListParams extends ListParams {
+  trafficLevel?: TrafficLevel;
+  minDistanceKm?: number;
+  maxDistanceKm?: number;
+}
+
+export interface OrderListParams extends ListParams {
+  status?: OrderStatus;
+  slaClass?: SlaClass;
+  routeId?: string;
+  minValueRs?: number;
+  maxValueRs?: number;
+  deliveryFrom?: string;
+  deliveryTo?: string;
+}
+
+export interface SimulationHistoryParams extends ListParams {
+  strategy?: AssignmentStrategyName;
+  mode?: 'single' | 'monte-carlo';
+}
+
+export type ExportCollection = ImportEntity | 'simulations';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type ImportMode = 'insert' | 'upsert' | 'sync';
+
+export interface ImportField {
+  name: string;
+  required: boolean;
+  description: string;
+  key?: boolean;
+  unique?: boolean;
+}
+
+export type ImportRowAction = 'create' | 'update' | 'unchanged';
+
+export interface ImportRowReport {
+  row: number;
+  values: Record<string, string>;
+  action?: ImportRowAction;
+  changedFields?: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+export interface ImportReport {
+  entity: ImportEntity;
+  mode: ImportMode;
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  rowsWithErrors: number;
+  rowsWithWarnings: number;
+  summary: ImportSummary;
+  toDelete: string[];
+  blockedDeletions: string[];
+  missingColumns: string[];
+  unknownColumns: string[];
+  rows: ImportRowReport[];
+}
@@ -0,0 +1,45 @@
+// Split one CSV line into cells, honouring double-quoted cells and "" escapes
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+};
+
+const splitHeader = (text: string): { header: string; body: string } => {
+  const content = text.replace(/^\uFEFF/, '');
+  const lineEnd = content.search(/\r?\n/);
+  return lineEnd === -1
+    ? { header: content, body: '' }
+    : { header: content.slice(0, lineEnd), body: content.slice(lineEnd) };
+};
+
+// Column names from the first line of a CSV file
+export const readCsvHeader = (text: string): string[] =>
+  splitCsvLine(splitHeader(text).header).map(column => column.trim());
+
+// Replace the header with one field name per column; columns mapped to no field
+// are left blank, which the server ignores
+export const remapCsvHeader = (text: string, columnFields: string[]): string =>
+  columnFields.join(',') + splitHeader(text).body;
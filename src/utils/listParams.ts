@@ -0,0 +1,5 @@
+// Filter inputs hold text; a blank one means the filter is off
+export const optionalText = (value: string): string | undefined => value.trim() || undefined;
+
+export const optionalNumber = (value: string): number | undefined =>
+  value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
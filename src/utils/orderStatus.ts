@@ -0,0 +1,19 @@
+import { OrderStatus } from '../types';
+
+export const ORDER_STATUSES: OrderStatus[] = ['Pending', 'In Progress', 'Delivered', 'Late'];
+
+// Mirrors the server's rules: Delivered and Late are final, and an order in
+// progress can be handed back to Pending
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  Pending: ['In Progress'],
+  'In Progress': ['Delivered', 'Late', 'Pending'],
+  Delivered: [],
+  Late: []
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  Pending: 'bg-gray-100 text-gray-800',
+  'In Progress': 'bg-blue-100 text-blue-800',
+  Delivered: 'bg-green-100 text-green-800',
+  Late: 'bg-red-100 text-red-800'
+};
@@ -0,0 +1,13 @@
+import { AssignmentStrategyName } from '../types';
+
+export const STRATEGY_OPTIONS: { value: AssignmentStrategyName; label: string; description: string }[] = [
+  { value: 'value-greedy', label: 'Value Greedy', description: 'Highest-value orders first, to the least-loaded driver' },
+  { value: 'earliest-deadline', label: 'Earliest Deadline', description: 'Orders with the tightest delivery time first' },
+  { value: 'shortest-route', label: 'Shortest Route', description: 'Shortest routes first, to fit the most orders in the hours cap' },
+  { value: 'round-robin', label: 'Round Robin', description: 'Orders in arrival order, dealt to drivers in turn' },
+  { value: 'local-search', label: 'Local Search', description: 'Reorders the queue to maximize total profit (slower)' }
+];
+
+// Runs recorded before strategies existed used value-greedy
+export const strategyLabel = (strategy?: AssignmentStrategyName): string =>
+  STRATEGY_OPTIONS.find(option => option.value === (strategy ?? 'value-greedy'))!.label;
@@ -0,0 +1,17 @@
+const MINUTES_PER_DAY = 24 * 60;
+
+// Minutes since midnight for an HH:mm time
+export const parseClockTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Format a simulated clock minute as HH:mm, marking times that roll past midnight
+export const formatClockMinute = (minute: number): string => {
+  const rounded = Math.round(minute);
+  const dayOffset = Math.floor(rounded / MINUTES_PER_DAY);
+  const minuteOfDay = rounded % MINUTES_PER_DAY;
+  const hours = String(Math.floor(minuteOfDay / 60)).padStart(2, '0');
+  const minutes = String(minuteOfDay % 60).padStart(2, '0');
+  return dayOffset > 0 ? `${hours}:${minutes} +${dayOffset}d` : `${hours}:${minutes}`;
+};